@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { SCHEMA_VERSIONS } from "@/core/storage/migrations"
+import { DEFAULT_RULE_DEFINITIONS } from "@/shared/config/rule-defaults"
+import { FakeChrome, installChrome } from "@/test/chrome"
+
+const VERSIONS_KEY = "iics-validator:schema-versions"
+
+describe("service worker", () => {
+  let fake: FakeChrome
+
+  beforeEach(async () => {
+    vi.useFakeTimers()
+    vi.resetModules()
+    vi.stubGlobal("self", { addEventListener: () => undefined })
+    fake = installChrome()
+    await import("./service-worker")
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it("stamps the schema versions on install", async () => {
+    await fake.install({ reason: "install" } as chrome.runtime.InstalledDetails)
+
+    expect(fake.sync.items[VERSIONS_KEY]).toEqual(SCHEMA_VERSIONS)
+  })
+
+  it("migrates stored data on update", async () => {
+    fake.sync.items["iics-validator:rules"] = DEFAULT_RULE_DEFINITIONS.slice(1)
+
+    await fake.install({
+      reason: "update",
+      previousVersion: "1.0.0",
+    } as chrome.runtime.InstalledDetails)
+
+    expect(fake.sync.items["iics-validator:rules"]).toContainEqual(
+      expect.objectContaining({
+        name: DEFAULT_RULE_DEFINITIONS[0]?.name,
+        enabled: false,
+      })
+    )
+    expect(fake.sync.items[VERSIONS_KEY]).toEqual(SCHEMA_VERSIONS)
+  })
+
+  it("leaves storage alone on browser updates", async () => {
+    await fake.install({
+      reason: "chrome_update",
+    } as chrome.runtime.InstalledDetails)
+
+    expect(fake.sync.items).toEqual({})
+  })
+})
@@ -1,6 +1,9 @@
+import { SchemaMigrator, StorageManager } from "@/core/storage"
 import logger from "@/shared/utils/logger"
 
 logger.info("IICS Field Validator background service worker loaded")
+const storage = new StorageManager()
+
 chrome.runtime.onInstalled.addListener(async (details) => {
   logger.info(`Extension event: ${details.reason}`)
 
@@ -9,8 +12,7 @@ chrome.runtime.onInstalled.addListener(async (details) => {
     logger.info(`Extension installed - version ${version}`)
 
     try {
-      const result = await chrome.storage.sync.get(["config"])
-      if (!result["config"]) {
+      if (!(await storage.get("config"))) {
         logger.info("Initializing default configuration")
       }
     } catch (error) {
@@ -23,8 +25,33 @@ chrome.runtime.onInstalled.addListener(async (details) => {
       }`
     )
   }
+
+  if (details.reason === "install" || details.reason === "update") {
+    await migrateStorage()
+  }
 })
 
+/**
+ * Upgrades stored configuration, rules, presets and stats to the current
+ * schema, logging every item that could not be migrated
+ */
+async function migrateStorage() {
+  try {
+    const results = await new SchemaMigrator(storage).run()
+    for (const result of results) {
+      if (result.error) {
+        logger.warn(`Kept "${result.key}" at schema v${result.from}`)
+      } else {
+        logger.info(
+          `Schema of "${result.key}": v${result.from} -> v${result.to}`
+        )
+      }
+    }
+  } catch (error) {
+    logger.error("Failed to migrate stored data", error as Error)
+  }
+}
+
 chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   logger.debug(
     "Background received:",
@@ -0,0 +1,237 @@
+import { ProcessKind, ProcessName, ProcessParser } from "@/core/cai"
+import { ValidatorEngine } from "@/core/validation/engine"
+import { RuleSeverity, RuleViolation } from "@/shared/types/validation"
+import { PackageAsset } from "./export-package"
+import { FileReport, NameReport, ReportRule, ValidationReport } from "./types"
+
+/**
+ * Severities ordered from most to least severe
+ */
+const SEVERITY_ORDER: RuleSeverity[] = ["error", "warning", "info"]
+
+/**
+ * @class
+ * @description Validates the names in exported CAI definitions
+ *
+ * Runs the same per-field and cross-field rules as the extension, with the
+ * names of one file treated like the fields of one container, so collisions
+ * are reported between input, output and temp fields of the same process.
+ * Collision messages name the other fields and their lines, since reports
+ * have no highlights linking them. Each asset type can be given its own ruleset (a rule profile).
+ *
+ * @example
+ * ```typescript
+ * const validator = new CaiValidator(engine);
+ * const file = validator.validateFile("Order.PROCESS.xml", xml);
+ * const report = validator.createReport([file], "error", 0);
+ * ```
+ */
+export class CaiValidator {
+  /** Parser reading the names of each file */
+  private readonly parser = new ProcessParser()
+
+  /**
+   * Creates a new `CaiValidator` instance
+   *
+   * @param engine - Engine holding the ruleset to validate against
+   * @param profiles - Engines holding the ruleset of specific asset types,
+   * used instead of `engine` for those types
+   */
+  constructor(
+    private readonly engine: ValidatorEngine,
+    private readonly profiles: Partial<
+      Record<ProcessKind, ValidatorEngine>
+    > = {}
+  ) {}
+
+  /**
+   * Validates every name declared in an exported file
+   *
+   * @param file - Path of the file, used in the report
+   * @param xml - Contents of the file
+   * @param asset - Location and type of the file if it came from an export
+   * package; the type then takes precedence over the one read from the XML
+   * @returns Outcome of the file; malformed XML is reported as its `error`,
+   * with the asset's type as its `kind` if known
+   */
+  validateFile(
+    file: string,
+    xml: string,
+    asset?: Pick<PackageAsset, "location" | "type">
+  ): FileReport {
+    const report: FileReport = {
+      file,
+      kind: asset?.type ?? null,
+      processName: null,
+      names: [],
+      ...(asset && { location: asset.location }),
+    }
+
+    let definition
+    try {
+      definition = this.parser.parse(xml, asset?.type)
+    } catch (error) {
+      report.error = (error as Error).message
+      return report
+    }
+
+    if (!definition) {
+      return report
+    }
+
+    const engine = this.profiles[definition.kind] ?? this.engine
+    const results = engine.validateNames(
+      definition.names.map(({ name, path, context }) => ({
+        id: path,
+        name,
+        context,
+      }))
+    )
+    const collisions = engine.validateAcrossFields(
+      definition.names.map(({ name, path }) => ({
+        fieldId: path,
+        value: name.trim(),
+      }))
+    )
+
+    const byPath = new Map(definition.names.map((name) => [name.path, name]))
+    const names = definition.names.map(({ name, path, line, context }) => {
+      const result = results.get(path)
+      const violations = [
+        ...(result?.errors ?? []),
+        ...(collisions.get(path) ?? []).map((violation) =>
+          this.describeRelated(violation, byPath)
+        ),
+      ]
+
+      const nameReport: NameReport = {
+        name,
+        path,
+        line,
+        category: context.category ?? "other",
+        isValid: !violations.some((v) => v.severity === "error"),
+        violations,
+        suggestion: result?.suggestion ?? null,
+      }
+      return nameReport
+    })
+
+    return {
+      ...report,
+      kind: definition.kind,
+      processName: definition.name,
+      names,
+    }
+  }
+
+  /**
+   * Summarizes the outcome of a run
+   *
+   * @param files - Outcome of every file read
+   * @param failOn - Least severe violation counted against the threshold
+   * @param maxViolations - Number of counted violations allowed
+   * @returns Report that failed if the threshold is exceeded or any file
+   * could not be validated
+   */
+  createReport(
+    files: FileReport[],
+    failOn: RuleSeverity,
+    maxViolations: number
+  ): ValidationReport {
+    const violations: Record<RuleSeverity, number> = {
+      error: 0,
+      warning: 0,
+      info: 0,
+    }
+
+    for (const { names } of files) {
+      for (const name of names) {
+        for (const violation of name.violations) {
+          violations[violation.severity]++
+        }
+      }
+    }
+
+    const counted = SEVERITY_ORDER.slice(
+      0,
+      SEVERITY_ORDER.indexOf(failOn) + 1
+    ).reduce((total, severity) => total + violations[severity], 0)
+
+    return {
+      files,
+      rules: this.collectRules(),
+      violations,
+      counted,
+      failOn,
+      maxViolations,
+      passed:
+        counted <= maxViolations &&
+        !files.some((file) => file.error !== undefined),
+    }
+  }
+
+  // Helper methods
+
+  /**
+   * Adds the names and lines of the fields a collision links to its message
+   *
+   * @private
+   */
+  private describeRelated(
+    violation: RuleViolation,
+    names: Map<string, ProcessName>
+  ): RuleViolation {
+    const related = (violation.relatedFieldIds ?? []).flatMap((path) => {
+      const name = names.get(path)
+      return name ? [`"${name.name}" (line ${name.line})`] : []
+    })
+
+    return related.length === 0
+      ? violation
+      : { ...violation, message: `${violation.message}: ${related.join(", ")}` }
+  }
+
+  /**
+   * Lists the enabled rules of the default ruleset, then the rules of each
+   * profile whose message or severity differs from the default rule of the
+   * same name
+   *
+   * @private
+   */
+  private collectRules(): ReportRule[] {
+    const defaults = this.listRules(this.engine, null)
+    const byName = new Map(defaults.map((rule) => [rule.name, rule]))
+
+    return [
+      ...defaults,
+      ...Object.entries(this.profiles).flatMap(([profile, engine]) =>
+        this.listRules(engine, profile as ProcessKind).filter((rule) => {
+          const base = byName.get(rule.name)
+          return (
+            base?.message !== rule.message || base.severity !== rule.severity
+          )
+        })
+      ),
+    ]
+  }
+
+  /**
+   * Lists the enabled per-field and cross-field rules of an engine
+   *
+   * @private
+   */
+  private listRules(
+    engine: ValidatorEngine,
+    profile: ProcessKind | null
+  ): ReportRule[] {
+    return [
+      ...engine.getAllRules().filter((rule) => rule.enabled !== false),
+      ...engine.getCrossFieldRules(),
+    ].map((rule) => ({
+      name: rule.name,
+      profile,
+      message: rule.message,
+      severity: rule.severity ?? "error",
+    }))
+  }
+}
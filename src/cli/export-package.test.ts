@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest"
+import { createZip } from "@/test/zip"
+import { ExportPackageReader } from "./export-package"
+
+const reader = new ExportPackageReader()
+
+describe("ExportPackageReader", () => {
+  it("reads the CAI assets of a package and skips other files", () => {
+    const assets = reader.read(
+      "release.zip",
+      createZip([
+        { name: "exportMetadata.v2.json", data: "{}" },
+        { name: "Explore/Sales/Orders/Order.PROCESS.xml", data: "<process/>" },
+        { name: "Explore/Sales/Lookup.GUIDE.xml", data: "<guide/>" },
+        { name: "Explore/Sales/Mapping.DTEMPLATE.xml", data: "<m/>" },
+      ])
+    )
+
+    expect(assets).toEqual([
+      {
+        file: "release.zip!Explore/Sales/Orders/Order.PROCESS.xml",
+        location: {
+          package: "release.zip",
+          project: "Sales",
+          folder: "Orders",
+          asset: "Order",
+        },
+        type: "process",
+        xml: "<process/>",
+      },
+      {
+        file: "release.zip!Explore/Sales/Lookup.GUIDE.xml",
+        location: {
+          package: "release.zip",
+          project: "Sales",
+          folder: "",
+          asset: "Lookup",
+        },
+        type: "guide",
+        xml: "<guide/>",
+      },
+    ])
+  })
+
+  it("reads packages nested in the folder they are stored in", () => {
+    const inner = createZip([{ name: "Customer.PROCESS_OBJECT.xml" }])
+    const assets = reader.read(
+      "release.zip",
+      createZip([{ name: "Explore/Sales/objects.zip", data: inner }])
+    )
+
+    expect(assets).toMatchObject([
+      {
+        file: "release.zip!Explore/Sales/objects.zip!Customer.PROCESS_OBJECT.xml",
+        location: { project: "Sales", folder: "", asset: "Customer" },
+        type: "processObject",
+      },
+    ])
+  })
+
+  it("rejects packages nested more than two levels deep", () => {
+    const nest = (archive: Buffer, levels: number[]) =>
+      levels.reduce(
+        (inner, level) =>
+          createZip([{ name: `level${level}.zip`, data: inner }]),
+        archive
+      )
+    const asset = createZip([{ name: "Explore/Sales/Order.PROCESS.xml" }])
+
+    expect(
+      reader.read("release.zip", nest(asset, [2, 1])).map((a) => a.file)
+    ).toEqual([
+      "release.zip!level1.zip!level2.zip!Explore/Sales/Order.PROCESS.xml",
+    ])
+    expect(() => reader.read("release.zip", nest(asset, [3, 2, 1]))).toThrow(
+      "release.zip!level1.zip!level2.zip!level3.zip: packages nested more " +
+        "than 2 levels deep are not supported"
+    )
+  })
+})
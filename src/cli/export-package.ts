@@ -0,0 +1,188 @@
+import { ProcessKind } from "@/core/cai"
+import { AssetLocation } from "./types"
+import { ZipReader } from "./zip-reader"
+
+/**
+ * @interface
+ * @description A CAI asset read from an export package
+ */
+export interface PackageAsset {
+  /** Path of the asset, with `!` separating archive and entry paths */
+  file: string
+
+  /** Where the asset sits in the exported project tree */
+  location: AssetLocation
+
+  /** Kind of asset, from the type suffix of its file name */
+  type: ProcessKind
+
+  /** Contents of the asset's `.xml` file */
+  xml: string
+}
+
+/**
+ * CAI asset types by the type suffix of their file names
+ * (e.g. `Order.PROCESS.xml`)
+ */
+const ASSET_TYPES: Record<string, ProcessKind> = {
+  PROCESS: "process",
+  GUIDE: "guide",
+  PROCESS_OBJECT: "processObject",
+}
+
+const ASSET_FILE_PATTERN = /^(.+)\.([A-Z_]+)\.xml$/i
+
+/**
+ * Top-level folder holding the exported projects
+ */
+const EXPLORE_FOLDER = "Explore"
+
+/**
+ * Deepest level of packages nested in a package
+ */
+const MAX_NESTING_DEPTH = 2
+
+/**
+ * @class
+ * @description Finds the CAI assets in an IICS export package
+ *
+ * Walks the entries of the exported ZIP, including packages nested in it
+ * up to two levels deep, and keeps the process, guide and process object
+ * definitions. Metadata manifests and assets of other services are skipped
+ * without being inflated. Each asset's project, folder and name come from
+ * its path below `Explore/`.
+ *
+ * @example
+ * ```typescript
+ * const assets = new ExportPackageReader().read(
+ *   "release.zip",
+ *   await readFile("release.zip")
+ * );
+ * ```
+ */
+export class ExportPackageReader {
+  /**
+   * Reads the CAI assets of a package
+   *
+   * @param packagePath - Path of the package, used in asset paths
+   * @param archive - Contents of the package
+   * @returns Assets in archive order
+   * @throws Error if the package or a nested package is not a readable ZIP,
+   * or packages are nested too deep
+   */
+  read(packagePath: string, archive: Buffer): PackageAsset[] {
+    return this.readArchive(packagePath, packagePath, "", archive, 0)
+  }
+
+  // Helper methods
+
+  /**
+   * Reads the assets of an archive whose entries sit below `base` in the
+   * project tree
+   *
+   * @private
+   */
+  private readArchive(
+    packagePath: string,
+    file: string,
+    base: string,
+    archive: Buffer,
+    depth: number
+  ): PackageAsset[] {
+    const assets: PackageAsset[] = []
+    const entries = ZipReader.read(
+      archive,
+      (name) => this.isArchive(name) || this.parseAssetName(name) !== null
+    )
+
+    for (const entry of entries) {
+      // Nested packages either hold their own Explore/ tree or paths
+      // relative to the folder they are stored in
+      const path =
+        base && !entry.name.startsWith(`${EXPLORE_FOLDER}/`)
+          ? `${base}/${entry.name}`
+          : entry.name
+
+      if (this.isArchive(entry.name)) {
+        if (depth >= MAX_NESTING_DEPTH) {
+          throw new Error(
+            `${file}!${entry.name}: packages nested more than ` +
+              `${MAX_NESTING_DEPTH} levels deep are not supported`
+          )
+        }
+
+        assets.push(
+          ...this.readArchive(
+            packagePath,
+            `${file}!${entry.name}`,
+            path.slice(0, Math.max(path.lastIndexOf("/"), 0)),
+            entry.data,
+            depth + 1
+          )
+        )
+        continue
+      }
+
+      const asset = this.parseAssetName(entry.name)
+      if (!asset) {
+        continue
+      }
+
+      assets.push({
+        file: `${file}!${entry.name}`,
+        location: this.locate(packagePath, path, asset.name),
+        type: asset.type,
+        xml: entry.data.toString("utf8"),
+      })
+    }
+
+    return assets
+  }
+
+  /**
+   * Checks if an entry is a nested package
+   *
+   * @private
+   */
+  private isArchive(name: string): boolean {
+    return name.toLowerCase().endsWith(".zip")
+  }
+
+  /**
+   * Gets the asset name and type from the file name of a CAI asset
+   *
+   * @returns `null` for other files
+   * @private
+   */
+  private parseAssetName(
+    entryName: string
+  ): { name: string; type: ProcessKind } | null {
+    const match = ASSET_FILE_PATTERN.exec(entryName.split("/").pop() ?? "")
+    const type = match?.[2] && ASSET_TYPES[match[2].toUpperCase()]
+
+    return match?.[1] && type ? { name: match[1], type } : null
+  }
+
+  /**
+   * Splits an asset's path into project and folder
+   *
+   * @private
+   */
+  private locate(
+    packagePath: string,
+    path: string,
+    asset: string
+  ): AssetLocation {
+    const folders = path.split("/").slice(0, -1)
+    if (folders[0] === EXPLORE_FOLDER) {
+      folders.shift()
+    }
+
+    return {
+      package: packagePath,
+      project: folders.shift() ?? "",
+      folder: folders.join("/"),
+      asset,
+    }
+  }
+}
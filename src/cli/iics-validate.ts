@@ -0,0 +1,308 @@
+import { readdir, readFile, stat, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { parseArgs } from "node:util"
+import { ProcessKind } from "@/core/cai"
+import { PRESET_FORMAT } from "@/core/storage/preset-manager"
+import { RuleCompiler, ValidatorEngine } from "@/core/validation/engine"
+import { DEFAULT_CONFIG } from "@/shared/config/config-defaults"
+import { EXECUTION_STRATEGIES } from "@/shared/config/execution-strategies"
+import {
+  RuleDefinition,
+  RulePreset,
+  RuleSeverity,
+} from "@/shared/types/validation"
+import { ErrorHandler } from "@/shared/utils/error-handler"
+import logger, { LogLevel } from "@/shared/utils/logger"
+import { PerformanceMonitor } from "@/shared/utils/performance"
+import { CaiValidator } from "./cai-validator"
+import { ExportPackageReader } from "./export-package"
+import { REPORTERS } from "./reporters"
+import { FileReport } from "./types"
+
+const FORMATS = Object.keys(REPORTERS).join(", ")
+
+const PROFILE_TYPES: ProcessKind[] = ["process", "guide", "processObject"]
+
+const ASSET_TYPES = PROFILE_TYPES.join(", ")
+
+const USAGE = `Usage: iics-validate [options] <file|directory>...
+
+Validates the field names in exported CAI process, guide and process object
+XML files and in IICS export packages (.zip). Directories are searched for
+.xml and .zip files recursively.
+
+Options:
+  --rules <file>        Ruleset to validate against: a preset exported from
+                        the extension or an array of rule definitions
+                        (default: the bundled rules)
+  --profile <type>=<file>
+                        Ruleset for one asset type (${ASSET_TYPES}),
+                        used instead of --rules; repeatable
+  --format <name>       Report format: ${FORMATS} (default: text)
+  --output <file>       Write the report to a file instead of stdout
+  --fail-on <severity>  Least severe violation counted against the threshold:
+                        error, warning or info (default: error)
+  --max-violations <n>  Counted violations allowed before failing (default: 0)
+  -h, --help            Show this help
+
+Exit codes: 0 passed, 1 too many violations or unreadable files, 2 invalid
+usage or ruleset`
+
+const SEVERITIES: RuleSeverity[] = ["error", "warning", "info"]
+
+/**
+ * Error in the command line or ruleset, reported with exit code 2
+ */
+class UsageError extends Error {}
+
+// Keep stdout for the report; warnings and errors still go to stderr
+logger.setLevel(LogLevel.WARN)
+
+main().then(
+  (code) => {
+    process.exitCode = code
+  },
+  (error: Error) => {
+    console.error(error instanceof UsageError ? error.message : error)
+    process.exitCode = 2
+  }
+)
+
+/**
+ * Validates the files given on the command line and writes the report
+ *
+ * @returns Exit code
+ */
+async function main(): Promise<number> {
+  const { values, positionals } = parseCommandLine()
+  if (values.help) {
+    console.log(USAGE)
+    return 0
+  }
+
+  const format = values.format ?? "text"
+  const reporter = REPORTERS[format]
+  if (!reporter) {
+    throw new UsageError(`Unknown format "${format}"`)
+  }
+
+  const failOn = (values["fail-on"] ?? "error") as RuleSeverity
+  if (!SEVERITIES.includes(failOn)) {
+    throw new UsageError(`Unknown severity "${failOn}"`)
+  }
+
+  const maxViolations = Number(values["max-violations"] ?? 0)
+  if (!Number.isInteger(maxViolations) || maxViolations < 0) {
+    throw new UsageError("--max-violations must be a non-negative integer")
+  }
+
+  if (positionals.length === 0) {
+    throw new UsageError(USAGE)
+  }
+
+  const validator = new CaiValidator(
+    await createEngine(values.rules),
+    await loadProfiles(values.profile ?? [])
+  )
+  const packages = new ExportPackageReader()
+  const files: FileReport[] = []
+  for (const file of await collectFiles(positionals)) {
+    let contents
+    try {
+      contents = await readFile(file)
+    } catch (error) {
+      files.push(unreadableFile(file, error as Error))
+      continue
+    }
+
+    if (!file.toLowerCase().endsWith(".zip")) {
+      files.push(validator.validateFile(file, contents.toString("utf8")))
+      continue
+    }
+
+    let assets
+    try {
+      assets = packages.read(file, contents)
+    } catch (error) {
+      files.push(unreadableFile(file, error as Error))
+      continue
+    }
+
+    for (const asset of assets) {
+      files.push(validator.validateFile(asset.file, asset.xml, asset))
+    }
+  }
+
+  const report = validator.createReport(files, failOn, maxViolations)
+  const output = reporter.format(report)
+  if (values.output) {
+    await writeFile(values.output, `${output}\n`)
+  } else {
+    console.log(output)
+  }
+
+  return report.passed ? 0 : 1
+}
+
+/**
+ * Reports a file or export package that could not be read, failing the run
+ */
+function unreadableFile(file: string, error: Error): FileReport {
+  return {
+    file,
+    kind: null,
+    processName: null,
+    names: [],
+    error: error.message,
+  }
+}
+
+/**
+ * Parses the options and paths given on the command line
+ */
+function parseCommandLine() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        rules: { type: "string" },
+        profile: { type: "string", multiple: true },
+        format: { type: "string" },
+        output: { type: "string" },
+        "fail-on": { type: "string" },
+        "max-violations": { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    })
+  } catch (error) {
+    throw new UsageError(`${(error as Error).message}\n\n${USAGE}`)
+  }
+}
+
+/**
+ * Expands the given paths into the XML files and export packages to
+ * validate, searching directories recursively
+ */
+async function collectFiles(paths: string[]): Promise<string[]> {
+  const files: string[] = []
+
+  for (const path of paths) {
+    const stats = await stat(path).catch(() => {
+      throw new UsageError(`No such file or directory: ${path}`)
+    })
+    if (!stats.isDirectory()) {
+      files.push(path)
+      continue
+    }
+
+    const entries = await readdir(path, { recursive: true })
+    files.push(
+      ...entries
+        .filter((entry) => /\.(xml|zip)$/i.test(entry))
+        .sort()
+        .map((entry) => join(path, entry))
+    )
+  }
+
+  return files
+}
+
+/**
+ * Creates an engine with the bundled rules, or with a ruleset file
+ */
+async function createEngine(rules?: string): Promise<ValidatorEngine> {
+  const engine = new ValidatorEngine(
+    new PerformanceMonitor(),
+    new ErrorHandler({ show: (message) => logger.warn(message) })
+  )
+  if (rules) {
+    await loadRules(engine, rules)
+  }
+
+  return engine
+}
+
+/**
+ * Creates an engine for every `<type>=<file>` rule profile
+ */
+async function loadProfiles(
+  profiles: string[]
+): Promise<Partial<Record<ProcessKind, ValidatorEngine>>> {
+  const engines: Partial<Record<ProcessKind, ValidatorEngine>> = {}
+
+  for (const profile of profiles) {
+    const [type, file] = profile.split("=", 2) as [ProcessKind, string?]
+    if (!PROFILE_TYPES.includes(type) || !file) {
+      throw new UsageError(
+        `--profile must be <type>=<file> with a type of ${ASSET_TYPES}`
+      )
+    }
+
+    engines[type] = await createEngine(file)
+  }
+
+  return engines
+}
+
+/**
+ * Replaces the bundled rules with a ruleset file
+ *
+ * A preset also brings its glossary, team dictionary and validation mode.
+ * Presets that extend another preset cannot be used on their own.
+ */
+async function loadRules(engine: ValidatorEngine, file: string) {
+  let document: unknown
+  try {
+    document = JSON.parse(await readFile(file, "utf8"))
+  } catch (error) {
+    throw new UsageError(
+      `Cannot read ruleset ${file}: ${(error as Error).message}`
+    )
+  }
+
+  const preset =
+    !Array.isArray(document) &&
+    (document as RulePreset | null)?.format === PRESET_FORMAT
+      ? (document as RulePreset)
+      : null
+  if (preset?.extends !== undefined) {
+    throw new UsageError(
+      `Ruleset ${file} extends "${preset.extends}"; export the resolved preset instead`
+    )
+  }
+
+  const rules = preset ? preset.rules : document
+  if (!Array.isArray(rules)) {
+    throw new UsageError(
+      `Ruleset ${file} is neither a preset nor an array of rule definitions`
+    )
+  }
+
+  const compiler = new RuleCompiler()
+  const problems = (rules as RuleDefinition[]).flatMap((definition) =>
+    compiler
+      .validate(definition)
+      .map((problem) => `${definition.name ?? "(unnamed)"}: ${problem}`)
+  )
+  if (problems.length > 0) {
+    throw new UsageError(
+      `Invalid rules in ${file}:\n  ${problems.join("\n  ")}`
+    )
+  }
+
+  engine.loadRuleDefinitions(rules)
+  if (preset?.config.glossary) {
+    engine.setGlossary(preset.config.glossary)
+  }
+  if (preset?.config.dictionary) {
+    engine.setTeamDictionary(preset.config.dictionary)
+  }
+  if (preset?.config.validationMode) {
+    engine.updateConfig(
+      EXECUTION_STRATEGIES[preset.config.validationMode]({
+        ...DEFAULT_CONFIG,
+        ...preset.config,
+      })
+    )
+  }
+}
@@ -0,0 +1,21 @@
+import { JsonReporter } from "./json-reporter"
+import { JUnitReporter } from "./junit-reporter"
+import { Reporter } from "./reporter"
+import { SarifReporter } from "./sarif-reporter"
+import { TextReporter } from "./text-reporter"
+
+export { JsonReporter } from "./json-reporter"
+export { JUnitReporter } from "./junit-reporter"
+export { SarifReporter } from "./sarif-reporter"
+export { TextReporter } from "./text-reporter"
+export type { Reporter } from "./reporter"
+
+/**
+ * Reporters selectable with `--format`, by name
+ */
+export const REPORTERS: Record<string, Reporter> = {
+  text: new TextReporter(),
+  json: new JsonReporter(),
+  sarif: new SarifReporter(),
+  junit: new JUnitReporter(),
+}
@@ -0,0 +1,12 @@
+import { ValidationReport } from "../types"
+import { Reporter } from "./reporter"
+
+/**
+ * @class
+ * @description Formats a report as JSON, for further processing in CI
+ */
+export class JsonReporter implements Reporter {
+  format(report: ValidationReport): string {
+    return JSON.stringify(report, null, 2)
+  }
+}
@@ -0,0 +1,79 @@
+import { JUnitTestSuite, JUnitWriter } from "@/shared/utils/junit-writer"
+import { FileReport, ValidationReport } from "../types"
+import { Reporter } from "./reporter"
+
+/**
+ * @class
+ * @description Formats a report as JUnit XML, for CI test result views
+ *
+ * Every file or packaged asset is a test suite and every name in it a test
+ * case at the line of its XML element. Each `error` violation is a failure
+ * with the violation message, while warnings and info are written to the
+ * test case's output; files that could not be read are test cases with an
+ * error.
+ */
+export class JUnitReporter implements Reporter {
+  format(report: ValidationReport): string {
+    return JUnitWriter.write(
+      "iics-validate",
+      report.files.map((file) => this.toSuite(file))
+    )
+  }
+
+  // Helper methods
+
+  /**
+   * Converts a file's names to a test suite
+   *
+   * @private
+   */
+  private toSuite(file: FileReport): JUnitTestSuite {
+    const name = this.suiteName(file)
+
+    if (file.error !== undefined) {
+      return {
+        name,
+        file: file.file,
+        testCases: [
+          {
+            name: file.file,
+            classname: name,
+            violations: [],
+            error: file.error,
+            file: file.file,
+          },
+        ],
+      }
+    }
+
+    return {
+      name,
+      file: file.file,
+      testCases: file.names.map((entry) => ({
+        name: `${entry.name} (${entry.path})`,
+        classname: name,
+        violations: entry.violations,
+        file: file.file,
+        line: entry.line,
+        ...(entry.suggestion !== null && {
+          output: `Suggested name: ${entry.suggestion}`,
+        }),
+      })),
+    }
+  }
+
+  /**
+   * Names a suite by the asset's project path, or by the file path of a
+   * plain file
+   *
+   * @private
+   */
+  private suiteName(file: FileReport): string {
+    if (!file.location) {
+      return file.file
+    }
+
+    const { project, folder, asset } = file.location
+    return [project, folder, asset].filter(Boolean).join("/")
+  }
+}
@@ -0,0 +1,15 @@
+import { ValidationReport } from "../types"
+
+/**
+ * @interface
+ * @description Turns a validation report into an output format
+ */
+export interface Reporter {
+  /**
+   * Formats a report
+   *
+   * @param report - Outcome of the run
+   * @returns Text written to the output
+   */
+  format(report: ValidationReport): string
+}
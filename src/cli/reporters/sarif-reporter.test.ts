@@ -0,0 +1,249 @@
+import { describe, expect, it } from "vitest"
+import { fixture } from "@/test/fixtures"
+import { FileReport, NameReport, ValidationReport } from "../types"
+import { SarifReporter } from "./sarif-reporter"
+
+const name = fixture<NameReport>({
+  name: "Total",
+  path: "/process/tempFields/field",
+  line: 1,
+  category: "temp",
+  isValid: true,
+  violations: [],
+  suggestion: null,
+})
+
+function report(files: FileReport[]): ValidationReport {
+  return {
+    files,
+    rules: [
+      {
+        name: "no-spaces",
+        profile: null,
+        message: "No spaces allowed",
+        severity: "error",
+      },
+      {
+        name: "near-duplicate",
+        profile: null,
+        message: "Name is very similar to another field",
+        severity: "warning",
+      },
+      {
+        name: "no-spaces",
+        profile: "guide",
+        message: "Spaces are discouraged in guides",
+        severity: "warning",
+      },
+    ],
+    violations: { error: 0, warning: 0, info: 0 },
+    counted: 0,
+    failOn: "error",
+    maxViolations: 0,
+    passed: true,
+  }
+}
+
+function format(files: FileReport[]) {
+  return JSON.parse(new SarifReporter().format(report(files)))
+}
+
+describe("SarifReporter", () => {
+  it("writes the rules and a result per violation", () => {
+    const log = format([
+      {
+        file: "exports/Order Process.xml",
+        kind: "process",
+        processName: "Order",
+        names: [
+          name({
+            name: "Order Date",
+            path: "/process/input/parameter[1]",
+            line: 12,
+            isValid: false,
+            violations: [
+              {
+                rule: "no-spaces",
+                message: "No spaces allowed",
+                severity: "error",
+              },
+            ],
+            suggestion: "OrderDate",
+          }),
+          name({ name: "Total", line: 13 }),
+        ],
+      },
+    ])
+    const [run] = log.runs
+
+    expect(log.version).toBe("2.1.0")
+    expect(run.tool.driver.rules[1]).toEqual({
+      id: "near-duplicate",
+      shortDescription: { text: "Name is very similar to another field" },
+      defaultConfiguration: { level: "warning" },
+    })
+    expect(run.artifacts).toEqual([
+      { location: { uri: "exports/Order%20Process.xml" } },
+    ])
+    expect(run.results).toEqual([
+      {
+        ruleId: "no-spaces",
+        ruleIndex: 0,
+        level: "error",
+        message: { text: '"Order Date": No spaces allowed' },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: {
+                uri: "exports/Order%20Process.xml",
+                index: 0,
+              },
+              region: { startLine: 12 },
+            },
+            logicalLocations: [
+              {
+                fullyQualifiedName: "/process/input/parameter[1]",
+                kind: "element",
+              },
+            ],
+          },
+        ],
+        properties: { suggestion: "OrderDate" },
+      },
+    ])
+    expect(run.invocations[0].executionSuccessful).toBe(true)
+  })
+
+  it("refers results to the rule of their profile", () => {
+    const log = format([
+      {
+        file: "Lookup.xml",
+        kind: "guide",
+        processName: "Lookup",
+        names: [
+          name({
+            name: "Order Date",
+            violations: [
+              {
+                rule: "no-spaces",
+                message: "Spaces are discouraged in guides",
+                severity: "warning",
+              },
+              {
+                rule: "near-duplicate",
+                message: "Name is very similar to another field",
+                severity: "warning",
+              },
+            ],
+          }),
+        ],
+      },
+    ])
+    const [run] = log.runs
+
+    expect(run.tool.driver.rules[2]).toEqual({
+      id: "no-spaces/guide",
+      shortDescription: { text: "Spaces are discouraged in guides" },
+      defaultConfiguration: { level: "warning" },
+    })
+    expect(
+      run.results.map(
+        ({ ruleId, ruleIndex, level }: Record<string, unknown>) => ({
+          ruleId,
+          ruleIndex,
+          level,
+        })
+      )
+    ).toEqual([
+      { ruleId: "no-spaces/guide", ruleIndex: 2, level: "warning" },
+      { ruleId: "near-duplicate", ruleIndex: 1, level: "warning" },
+    ])
+  })
+
+  it("links collisions to the other fields", () => {
+    const log = format([
+      {
+        file: "Order.xml",
+        kind: "process",
+        processName: "Order",
+        names: [
+          name({
+            name: "CustomerName",
+            path: "/process/tempFields/field[1]",
+            line: 4,
+            violations: [
+              {
+                rule: "near-duplicate",
+                message: "Name is very similar to another field",
+                severity: "warning",
+                relatedFieldIds: ["/process/tempFields/field[2]"],
+              },
+            ],
+          }),
+          name({
+            name: "CustomerNme",
+            path: "/process/tempFields/field[2]",
+            line: 5,
+          }),
+        ],
+      },
+    ])
+
+    expect(log.runs[0].results[0].relatedLocations).toEqual([
+      {
+        id: 0,
+        message: { text: '"CustomerNme"' },
+        physicalLocation: {
+          artifactLocation: { uri: "Order.xml", index: 0 },
+          region: { startLine: 5 },
+        },
+        logicalLocations: [
+          {
+            fullyQualifiedName: "/process/tempFields/field[2]",
+            kind: "element",
+          },
+        ],
+      },
+    ])
+  })
+
+  it("nests package assets in their package and reports unreadable files", () => {
+    const log = format([
+      {
+        file: "release.zip!Explore/Sales/Broken.PROCESS.xml",
+        kind: "process",
+        processName: null,
+        names: [],
+        error: "No root element found",
+      },
+    ])
+    const [run] = log.runs
+
+    expect(run.artifacts).toEqual([
+      { location: { uri: "release.zip" } },
+      { location: { uri: "Explore/Sales/Broken.PROCESS.xml" }, parentIndex: 0 },
+    ])
+    expect(run.invocations[0]).toEqual({
+      executionSuccessful: false,
+      toolExecutionNotifications: [
+        {
+          level: "error",
+          message: {
+            text: "release.zip!Explore/Sales/Broken.PROCESS.xml: No root element found",
+          },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: {
+                  uri: "Explore/Sales/Broken.PROCESS.xml",
+                  index: 1,
+                },
+              },
+            },
+          ],
+        },
+      ],
+    })
+    expect(run.results).toEqual([])
+  })
+})
@@ -0,0 +1,225 @@
+import { RuleSeverity } from "@/shared/types/validation"
+import { FileReport, ReportRule, ValidationReport } from "../types"
+import { Reporter } from "./reporter"
+
+const SARIF_VERSION = "2.1.0"
+
+const SARIF_SCHEMA =
+  "https://docs.oasis-open.org/sarif/sarif/v2.1.0/errata01/os/schemas/sarif-schema-2.1.0.json"
+
+/**
+ * SARIF level reported for each rule severity
+ */
+const SARIF_LEVELS: Record<RuleSeverity, "error" | "warning" | "note"> = {
+  error: "error",
+  warning: "warning",
+  info: "note",
+}
+
+/**
+ * A file a SARIF result points into; files inside export packages name the
+ * package as their parent
+ */
+interface SarifArtifact {
+  location: { uri: string }
+  parentIndex?: number
+}
+
+/**
+ * @class
+ * @description Formats a report as a SARIF 2.1.0 log, for code-scanning tools
+ *
+ * Every violation becomes a result at the line of the XML element declaring
+ * the name, with the element path as its logical location. Rules a profile
+ * redefines get their own descriptor, identified as `<rule>/<asset type>`
+ * (e.g. `max-length/process`), so each result points to the definition
+ * that produced it. Collisions list
+ * the other fields involved as related locations. Assets inside
+ * export packages are artifacts nested in the package they came from. Files
+ * that could not be read are reported as tool execution notifications.
+ */
+export class SarifReporter implements Reporter {
+  format(report: ValidationReport): string {
+    const artifacts: SarifArtifact[] = []
+    const artifactIndexes = new Map<string, number>()
+    const ruleIndexes = new Map(
+      report.rules.map((rule, index) => [this.ruleId(rule), index])
+    )
+
+    const addArtifact = (file: string): number => {
+      const existing = artifactIndexes.get(file)
+      if (existing !== undefined) {
+        return existing
+      }
+
+      const separator = file.lastIndexOf("!")
+      const artifact: SarifArtifact = {
+        location: { uri: this.toUri(file.slice(separator + 1)) },
+      }
+      if (separator >= 0) {
+        artifact.parentIndex = addArtifact(file.slice(0, separator))
+      }
+
+      artifacts.push(artifact)
+      artifactIndexes.set(file, artifacts.length - 1)
+      return artifacts.length - 1
+    }
+
+    const results = report.files.flatMap((file) =>
+      file.names.flatMap((name) =>
+        name.violations.map((violation) => {
+          const profileRuleId = this.ruleId({
+            name: violation.rule,
+            profile: file.kind,
+          })
+          const ruleId = ruleIndexes.has(profileRuleId)
+            ? profileRuleId
+            : violation.rule
+          const ruleIndex = ruleIndexes.get(ruleId)
+          return {
+            ruleId,
+            ...(ruleIndex !== undefined && { ruleIndex }),
+            level: SARIF_LEVELS[violation.severity],
+            message: {
+              text: `"${name.name}": ${violation.message}`,
+            },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: {
+                    uri: this.toUri(this.entryPath(file)),
+                    index: addArtifact(file.file),
+                  },
+                  region: { startLine: name.line },
+                },
+                logicalLocations: [
+                  { fullyQualifiedName: name.path, kind: "element" },
+                ],
+              },
+            ],
+            ...(violation.relatedFieldIds?.length && {
+              relatedLocations: this.relatedLocations(
+                file,
+                violation.relatedFieldIds,
+                addArtifact(file.file)
+              ),
+            }),
+            ...(name.suggestion !== null && {
+              properties: { suggestion: name.suggestion },
+            }),
+          }
+        })
+      )
+    )
+
+    const unreadable = report.files.filter((file) => file.error !== undefined)
+
+    return JSON.stringify(
+      {
+        $schema: SARIF_SCHEMA,
+        version: SARIF_VERSION,
+        runs: [
+          {
+            tool: {
+              driver: {
+                name: "iics-validate",
+                rules: report.rules.map((rule) => ({
+                  id: this.ruleId(rule),
+                  shortDescription: { text: rule.message },
+                  defaultConfiguration: { level: SARIF_LEVELS[rule.severity] },
+                })),
+              },
+            },
+            invocations: [
+              {
+                executionSuccessful: unreadable.length === 0,
+                toolExecutionNotifications: unreadable.map((file) => ({
+                  level: "error",
+                  message: { text: `${file.file}: ${file.error}` },
+                  locations: [
+                    {
+                      physicalLocation: {
+                        artifactLocation: {
+                          uri: this.toUri(this.entryPath(file)),
+                          index: addArtifact(file.file),
+                        },
+                      },
+                    },
+                  ],
+                })),
+              },
+            ],
+            artifacts,
+            results,
+          },
+        ],
+      },
+      null,
+      2
+    )
+  }
+
+  // Helper methods
+
+  /**
+   * Gets the SARIF ID of a rule: its name, followed by the asset type for
+   * rules of a profile
+   *
+   * @private
+   */
+  private ruleId(rule: Pick<ReportRule, "name" | "profile">): string {
+    return rule.profile ? `${rule.name}/${rule.profile}` : rule.name
+  }
+
+  /**
+   * Gets the locations of the names a collision links a result to
+   *
+   * @private
+   */
+  private relatedLocations(
+    file: FileReport,
+    paths: string[],
+    index: number
+  ): object[] {
+    return paths.flatMap((path, id) => {
+      const related = file.names.find((name) => name.path === path)
+      if (!related) {
+        return []
+      }
+
+      return [
+        {
+          id,
+          message: { text: `"${related.name}"` },
+          physicalLocation: {
+            artifactLocation: {
+              uri: this.toUri(this.entryPath(file)),
+              index,
+            },
+            region: { startLine: related.line },
+          },
+          logicalLocations: [{ fullyQualifiedName: path, kind: "element" }],
+        },
+      ]
+    })
+  }
+
+  /**
+   * Gets the path of a file inside the innermost package holding it, or the
+   * path of a plain file
+   *
+   * @private
+   */
+  private entryPath(file: FileReport): string {
+    return file.file.slice(file.file.lastIndexOf("!") + 1)
+  }
+
+  /**
+   * Converts a file path to a relative URI reference
+   *
+   * @private
+   */
+  private toUri(path: string): string {
+    return encodeURI(path.replace(/\\/g, "/"))
+  }
+}
@@ -0,0 +1,178 @@
+import { FileReport, NameReport, ValidationReport } from "../types"
+import { Reporter } from "./reporter"
+
+/**
+ * @class
+ * @description Formats a report as readable console output
+ *
+ * Lists each failing name under its file with line, element path and the
+ * rules it failed, followed by a one-line summary. Assets from export
+ * packages are grouped by package, project and folder, and every asset is
+ * listed with its status so a whole export can be audited.
+ */
+export class TextReporter implements Reporter {
+  format(report: ValidationReport): string {
+    const lines: string[] = []
+
+    for (const file of report.files.filter((file) => !file.location)) {
+      if (file.error !== undefined) {
+        lines.push(`${file.file}`, `  error  ${file.error}`, "")
+        continue
+      }
+
+      const failing = file.names.filter((name) => name.violations.length > 0)
+      if (failing.length === 0) {
+        continue
+      }
+
+      lines.push(file.file)
+      this.formatNames(failing, "  ", lines)
+      lines.push("")
+    }
+
+    this.formatPackages(
+      report.files.filter((file) => file.location),
+      lines
+    )
+
+    const names = report.files.reduce(
+      (total, file) => total + file.names.length,
+      0
+    )
+    const { error, warning, info } = report.violations
+    lines.push(
+      `${report.files.length} files, ${names} names: ` +
+        `${error} errors, ${warning} warnings, ${info} info`
+    )
+
+    const unreadable = report.files.filter((file) => file.error !== undefined)
+    if (unreadable.length > 0) {
+      lines.push(`Failed: ${unreadable.length} files could not be read`)
+    } else if (!report.passed) {
+      lines.push(
+        `Failed: ${report.counted} violations of severity ${report.failOn} ` +
+          `or higher exceed the limit of ${report.maxViolations}`
+      )
+    } else {
+      lines.push("Passed")
+    }
+
+    return lines.join("\n")
+  }
+
+  // Helper methods
+
+  /**
+   * Lists packaged assets under their package and project folder
+   *
+   * @private
+   */
+  private formatPackages(files: FileReport[], lines: string[]): void {
+    const sorted = [...files].sort((a, b) =>
+      this.sortKey(a).localeCompare(this.sortKey(b))
+    )
+
+    let currentPackage: string | null = null
+    let currentFolder: string | null = null
+    for (const file of sorted) {
+      if (!file.location) {
+        continue
+      }
+
+      const { project, folder, asset } = file.location
+      if (file.location.package !== currentPackage) {
+        if (currentPackage !== null) {
+          lines.push("")
+        }
+
+        currentPackage = file.location.package
+        currentFolder = null
+        lines.push(currentPackage)
+      }
+
+      const projectFolder = [project, folder].filter(Boolean).join("/")
+      if (projectFolder !== currentFolder) {
+        currentFolder = projectFolder
+        lines.push(`  ${projectFolder || "(top level)"}`)
+      }
+
+      lines.push(`    ${asset} (${file.kind}): ${this.describe(file)}`)
+      this.formatNames(
+        file.names.filter((name) => name.violations.length > 0),
+        "      ",
+        lines
+      )
+    }
+
+    if (currentPackage !== null) {
+      lines.push("")
+    }
+  }
+
+  /**
+   * Lists names with the rules they failed
+   *
+   * @private
+   */
+  private formatNames(
+    names: NameReport[],
+    indent: string,
+    lines: string[]
+  ): void {
+    for (const name of names) {
+      lines.push(`${indent}${name.line}  ${name.path}  "${name.name}"`)
+      for (const violation of name.violations) {
+        lines.push(
+          `${indent}  ${violation.severity.padEnd(7)}  ${violation.message}  (${
+            violation.rule
+          })`
+        )
+      }
+
+      if (name.suggestion !== null) {
+        lines.push(`${indent}  suggestion  ${name.suggestion}`)
+      }
+    }
+  }
+
+  /**
+   * Summarizes an asset's outcome in a few words
+   *
+   * @private
+   */
+  private describe(file: FileReport): string {
+    if (file.error !== undefined) {
+      return `error: ${file.error}`
+    }
+
+    const counts = { error: 0, warning: 0, info: 0 }
+    for (const name of file.names) {
+      for (const violation of name.violations) {
+        counts[violation.severity]++
+      }
+    }
+
+    if (counts.error + counts.warning + counts.info === 0) {
+      return `${file.names.length} names, ok`
+    }
+
+    return (
+      `${file.names.length} names, ${counts.error} errors, ` +
+      `${counts.warning} warnings, ${counts.info} info`
+    )
+  }
+
+  /**
+   * Orders packaged assets by package, project, folder and name
+   *
+   * @private
+   */
+  private sortKey(file: FileReport): string {
+    const { location } = file
+    return location
+      ? [location.package, location.project, location.folder, location.asset]
+          .map((part) => part.toLowerCase())
+          .join("\u0000")
+      : file.file
+  }
+}
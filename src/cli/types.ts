@@ -0,0 +1,126 @@
+import { ProcessKind } from "@/core/cai"
+import {
+  FieldCategory,
+  RuleSeverity,
+  RuleViolation,
+} from "@/shared/types/validation"
+
+/**
+ * @interface
+ * @description Validation outcome of one name in an exported file
+ */
+export interface NameReport {
+  /** Name as written in the file */
+  name: string
+
+  /** Path of the declaring element (e.g. "/process/tempFields/field[2]") */
+  path: string
+
+  /** 1-based line of the declaring element */
+  line: number
+
+  /** Kind of field the name belongs to */
+  category: FieldCategory
+
+  /** False if any `error` rule failed */
+  isValid: boolean
+
+  /** Every rule the name failed, including cross-field collisions */
+  violations: RuleViolation[]
+
+  /** Suggested compliant name, if one was found */
+  suggestion: string | null
+}
+
+/**
+ * @interface
+ * @description Where an asset sits in an IICS export package
+ */
+export interface AssetLocation {
+  /** Path of the export package, as given on the command line */
+  package: string
+
+  /** Project the asset belongs to */
+  project: string
+
+  /** Folder path inside the project, empty for assets at its top level */
+  folder: string
+
+  /** Name of the asset */
+  asset: string
+}
+
+/**
+ * @interface
+ * @description Validation outcome of one exported file
+ */
+export interface FileReport {
+  /** Path of the file, as given on the command line */
+  file: string
+
+  /** Kind of definition, or `null` if the file holds none */
+  kind: ProcessKind | null
+
+  /** Name of the process, guide or process object, if set */
+  processName: string | null
+
+  /** Where the file sits in an export package, if it came from one */
+  location?: AssetLocation
+
+  /** Outcome of every name declared in the file */
+  names: NameReport[]
+
+  /** Why the file could not be validated, if it could not */
+  error?: string
+}
+
+/**
+ * @interface
+ * @description A rule that violations in a report can refer to
+ */
+export interface ReportRule {
+  /** Name of the rule */
+  name: string
+
+  /**
+   * Asset type whose profile defines this variant of the rule, or `null`
+   * for the default ruleset
+   */
+  profile: ProcessKind | null
+
+  /** Message shown when the rule fails */
+  message: string
+
+  /** Severity reported when the rule fails */
+  severity: RuleSeverity
+}
+
+/**
+ * @interface
+ * @description Outcome of a command-line validation run
+ */
+export interface ValidationReport {
+  /** Every file read, in the order given */
+  files: FileReport[]
+
+  /**
+   * Enabled per-field and cross-field rules of the default ruleset, and the
+   * rules of each profile that differ from them
+   */
+  rules: ReportRule[]
+
+  /** Number of violations of each severity across all files */
+  violations: Record<RuleSeverity, number>
+
+  /** Number of violations of `failOn` severity or more severe */
+  counted: number
+
+  /** Least severe violation counted against `maxViolations` */
+  failOn: RuleSeverity
+
+  /** Number of counted violations allowed before the run fails */
+  maxViolations: number
+
+  /** False if counted violations exceed `maxViolations` or a file failed */
+  passed: boolean
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest"
+import { createZip } from "@/test/zip"
+import { ZipReader } from "./zip-reader"
+
+describe("ZipReader.read", () => {
+  it("reads stored and deflated files and skips directories", () => {
+    const entries = ZipReader.read(
+      createZip([
+        { name: "Explore/" },
+        { name: "Explore/Order.PROCESS.xml", data: "<process/>" },
+        { name: "exportMetadata.v2.json", data: "{}", method: 0 },
+      ])
+    )
+
+    expect(
+      entries.map(({ name, data }) => ({ name, data: data.toString("utf8") }))
+    ).toEqual([
+      { name: "Explore/Order.PROCESS.xml", data: "<process/>" },
+      { name: "exportMetadata.v2.json", data: "{}" },
+    ])
+  })
+
+  it("finds the end record behind an archive comment", () => {
+    const entries = ZipReader.read(
+      createZip([{ name: "a.xml", data: "<a/>" }], "exported by IICS")
+    )
+
+    expect(entries.map((entry) => entry.name)).toEqual(["a.xml"])
+  })
+
+  it("reads an empty archive", () => {
+    expect(ZipReader.read(createZip([]))).toEqual([])
+  })
+
+  it("rejects files that are not ZIP archives", () => {
+    expect(() => ZipReader.read(Buffer.from("<process/>"))).toThrow(
+      "Not a ZIP archive"
+    )
+    expect(() => ZipReader.read(Buffer.alloc(0))).toThrow("Not a ZIP archive")
+  })
+
+  it("rejects encrypted entries and unknown compression methods", () => {
+    expect(() =>
+      ZipReader.read(createZip([{ name: "a.xml", data: "x", flags: 1 }]))
+    ).toThrow("Encrypted ZIP entry a.xml is not supported")
+    expect(() =>
+      ZipReader.read(createZip([{ name: "a.xml", data: "x", method: 12 }]))
+    ).toThrow("ZIP compression method 12 is not supported")
+  })
+
+  it("only reads the files it accepts", () => {
+    const entries = ZipReader.read(
+      createZip([
+        { name: "a.xml", data: "<a/>" },
+        { name: "b.bin", data: "x", method: 12 },
+      ]),
+      (name) => name.endsWith(".xml")
+    )
+
+    expect(entries.map((entry) => entry.name)).toEqual(["a.xml"])
+  })
+
+  it("rejects files that do not match their recorded size", () => {
+    const data = "<process>" + " ".repeat(1000) + "</process>"
+
+    expect(() =>
+      ZipReader.read(createZip([{ name: "a.xml", data, size: 10 }]))
+    ).toThrow("ZIP entry a.xml does not match its recorded size")
+    expect(() =>
+      ZipReader.read(createZip([{ name: "a.xml", data, size: 5000 }]))
+    ).toThrow("ZIP entry a.xml does not match its recorded size")
+    expect(() =>
+      ZipReader.read(
+        createZip([{ name: "a.xml", data: "<a/>", method: 0, size: 3 }])
+      )
+    ).toThrow("ZIP entry a.xml does not match its recorded size")
+  })
+
+  it("rejects a corrupt central directory", () => {
+    const archive = createZip([{ name: "a.xml", data: "<a/>" }])
+    const directory = archive.readUInt32LE(archive.length - 6)
+    archive.writeUInt32LE(0, directory)
+
+    expect(() => ZipReader.read(archive)).toThrow(
+      "Corrupt ZIP central directory"
+    )
+  })
+})
@@ -0,0 +1,157 @@
+import { inflateRawSync } from "node:zlib"
+
+/**
+ * A file stored in a ZIP archive
+ */
+export interface ZipEntry {
+  /** Path of the file inside the archive, with `/` separators */
+  name: string
+  /** Uncompressed contents */
+  data: Buffer
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+/** Size of the end of central directory record without its comment */
+const END_RECORD_SIZE = 22
+
+/** Longest comment that may follow the end of central directory record */
+const MAX_COMMENT_SIZE = 0xffff
+
+const STORED = 0
+const DEFLATED = 8
+
+/**
+ * Minimal ZIP reader for IICS export packages
+ *
+ * Reads stored and deflated files through the central directory. Each file
+ * must inflate to exactly the size the directory records, so a crafted entry
+ * cannot expand beyond it. ZIP64 archives, encryption and multi-disk
+ * archives are not supported.
+ */
+export class ZipReader {
+  /**
+   * Read the files of an archive, skipping directory entries
+   *
+   * @param archive - Contents of the archive
+   * @param accept - Files to read by name; others are skipped without
+   * being inflated (default: every file)
+   * @throws Error if the archive is malformed or uses an unsupported feature
+   */
+  public static read(
+    archive: Buffer,
+    accept: (name: string) => boolean = () => true
+  ): ZipEntry[] {
+    const end = ZipReader.findEndRecord(archive)
+    const count = archive.readUInt16LE(end + 10)
+    let offset = archive.readUInt32LE(end + 16)
+
+    const entries: ZipEntry[] = []
+    for (let i = 0; i < count; i++) {
+      if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error("Corrupt ZIP central directory")
+      }
+
+      const flags = archive.readUInt16LE(offset + 8)
+      const method = archive.readUInt16LE(offset + 10)
+      const compressedSize = archive.readUInt32LE(offset + 20)
+      const uncompressedSize = archive.readUInt32LE(offset + 24)
+      const nameLength = archive.readUInt16LE(offset + 28)
+      const extraLength = archive.readUInt16LE(offset + 30)
+      const commentLength = archive.readUInt16LE(offset + 32)
+      const localOffset = archive.readUInt32LE(offset + 42)
+      const name = archive.toString(
+        "utf8",
+        offset + 46,
+        offset + 46 + nameLength
+      )
+      offset += 46 + nameLength + extraLength + commentLength
+
+      if (name.endsWith("/") || !accept(name)) {
+        continue
+      }
+
+      if (flags & 0x1) {
+        throw new Error(`Encrypted ZIP entry ${name} is not supported`)
+      }
+
+      if (
+        compressedSize === 0xffffffff ||
+        uncompressedSize === 0xffffffff ||
+        localOffset === 0xffffffff
+      ) {
+        throw new Error(`ZIP64 entry ${name} is not supported`)
+      }
+
+      const data = ZipReader.readData(
+        archive,
+        name,
+        localOffset,
+        compressedSize,
+        uncompressedSize,
+        method
+      )
+      if (data.length !== uncompressedSize) {
+        throw new Error(`ZIP entry ${name} does not match its recorded size`)
+      }
+
+      entries.push({ name, data })
+    }
+
+    return entries
+  }
+
+  private static findEndRecord(archive: Buffer): number {
+    const last = archive.length - END_RECORD_SIZE
+    const first = Math.max(0, last - MAX_COMMENT_SIZE)
+
+    for (let offset = last; offset >= first; offset--) {
+      if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+        return offset
+      }
+    }
+
+    throw new Error("Not a ZIP archive")
+  }
+
+  private static readData(
+    archive: Buffer,
+    name: string,
+    offset: number,
+    compressedSize: number,
+    uncompressedSize: number,
+    method: number
+  ): Buffer {
+    if (archive.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+      throw new Error("Corrupt ZIP local file header")
+    }
+
+    const start =
+      offset +
+      30 +
+      archive.readUInt16LE(offset + 26) +
+      archive.readUInt16LE(offset + 28)
+    const data = archive.subarray(start, start + compressedSize)
+
+    if (method === STORED) {
+      return data
+    }
+
+    if (method === DEFLATED) {
+      try {
+        return inflateRawSync(data, {
+          maxOutputLength: Math.max(uncompressedSize, 1),
+        })
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+          throw new Error(`ZIP entry ${name} does not match its recorded size`)
+        }
+        throw error
+      }
+    }
+
+    throw new Error(`ZIP compression method ${method} is not supported`)
+  }
+}
@@ -1,14 +1,31 @@
+import {
+  ConfigStore,
+  MANAGED_POLICY_LAYER,
+  PresetManager,
+  PresetStore,
+  RuleStore,
+  StorageManager,
+} from "../core/storage"
 import { ContainerDetector } from "../core/validation/detectors"
-import { ValidatorEngine } from "../core/validation/engine"
+import { ValidationResult, ValidatorEngine } from "../core/validation/engine"
 import {
   FieldManager,
+  SaveGuard,
   StatsManager,
   UIManager,
 } from "../core/validation/managers"
 import { ValidationOrchestrator } from "../core/validation/managers/validation-orchestrator"
 import { DEFAULT_CONFIG } from "../shared/config/config-defaults"
+import { EXECUTION_STRATEGIES } from "../shared/config/execution-strategies"
 import { ExtensionMessage, ExtensionResponse } from "../shared/types/types"
-import { ValidatorConfig } from "../shared/types/validation"
+import {
+  PresetDiff,
+  PresetImportMode,
+  RulePreset,
+  ValidationContext,
+  ValidatorConfig,
+  ValidatorSettings,
+} from "../shared/types/validation"
 import { Debouncer } from "../shared/utils/debouncer"
 import { ErrorHandler } from "../shared/utils/error-handler"
 import logger, { LogLevel } from "../shared/utils/logger"
@@ -70,7 +87,7 @@ if (!canInjectStyles) {
  * @author Carlos Salguero (X522644)
  */
 class IICSFieldValidator {
-  private config: ValidatorConfig
+  private readonly config: ValidatorConfig
   private pollIntervalId: number | null = null
   private isDestroyed: boolean = false
   private readonly toast: ToastManager
@@ -83,8 +100,16 @@ class IICSFieldValidator {
   private readonly statsManager: StatsManager
   private readonly containerDetector: ContainerDetector
   private readonly orchestrator: ValidationOrchestrator
-  private keyboardHandler?: (e: KeyboardEvent) => void
+  private readonly saveGuard: SaveGuard
+  private readonly storage: StorageManager
+  private readonly ruleStore: RuleStore
+  private readonly configStore: ConfigStore
+  private readonly presetManager: PresetManager
+  private readonly presetStore: PresetStore
+  private keyboardHandler: ((e: KeyboardEvent) => void) | undefined
   private visibilityHandler?: () => void
+  private unsubscribeConfig?: () => void
+  private unsubscribePolicy?: () => void
 
   /**
    * Creates a new IICS Field Validator instance.
@@ -100,10 +125,16 @@ class IICSFieldValidator {
     this.debouncer = new Debouncer()
     this.perfMonitor = new PerformanceMonitor()
     this.errorHandler = new ErrorHandler(this.toast)
+    this.storage = new StorageManager()
+    this.ruleStore = new RuleStore(this.storage)
+    this.configStore = new ConfigStore(this.storage)
+    this.presetManager = new PresetManager(this.configStore, this.ruleStore)
+    this.presetStore = new PresetStore(this.storage)
 
     this.validatorEngine = new ValidatorEngine(
       this.perfMonitor,
-      this.errorHandler
+      this.errorHandler,
+      EXECUTION_STRATEGIES[this.config.validationMode](this.config)
     )
 
     this.fieldManager = new FieldManager(
@@ -117,8 +148,12 @@ class IICSFieldValidator {
     this.uiManager = new UIManager(
       this.errorHandler,
       () => this.orchestrator.runFullValidation(),
-      () => this.orchestrator.exportReport(),
-      () => this.orchestrator.clearHighlights()
+      (format) => this.orchestrator.exportReport(format),
+      () => this.orchestrator.clearHighlights(),
+      (field, suggestion) =>
+        this.orchestrator.applySuggestion(field, suggestion),
+      () => this.orchestrator.previewFixAll(),
+      () => this.orchestrator.undoLastFix()
     )
 
     this.orchestrator = new ValidationOrchestrator(
@@ -131,6 +166,12 @@ class IICSFieldValidator {
       this.toast
     )
 
+    this.saveGuard = new SaveGuard(
+      this.orchestrator,
+      this.toast,
+      this.errorHandler
+    )
+
     this.fieldManager.setupAutoValidation((field, silent) =>
       this.orchestrator.validateSingleField(field, silent)
     )
@@ -171,18 +212,20 @@ class IICSFieldValidator {
       this.isDestroyed = true
 
       this.stopPolling()
-      if (this.keyboardHandler) {
-        document.removeEventListener("keydown", this.keyboardHandler)
-      }
+      this.unsubscribeConfig?.()
+      this.unsubscribePolicy?.()
+      this.removeKeyboardShortcuts()
 
       if (this.visibilityHandler) {
         document.removeEventListener("visibilitychange", this.visibilityHandler)
       }
 
+      this.saveGuard.destroy()
       this.fieldManager.destroy()
       this.containerDetector.destroy()
       this.uiManager.destroy()
       this.toast.destroy()
+      this.storage.destroy()
       this.debouncer.cancelAll()
 
       logger.info("Validator destroyed")
@@ -231,7 +274,126 @@ class IICSFieldValidator {
     this.orchestrator.runFullValidation()
   }
 
+  /**
+   * Checks a name against the active rules without a field on the page
+   *
+   * @param name - Name to check
+   * @param context - Where the name would be used, e.g. `{ category: "temp" }`
+   * @returns Validation result with violations and a suggested fix, if any
+   *
+   * @example
+   * ```typescript
+   * window.iicsValidator.validateName("customer name").suggestion;
+   * ```
+   */
+  public validateName(
+    name: string,
+    context?: Partial<ValidationContext>
+  ): ValidationResult {
+    return this.validatorEngine.validateName(name, context)
+  }
+
+  /**
+   * Opens the bulk rename preview for all fields with suggested names
+   *
+   * @example
+   * ```typescript
+   * window.iicsValidator.fixAll();
+   * ```
+   */
+  public fixAll(): void {
+    this.orchestrator.previewFixAll()
+  }
+
+  /**
+   * Restores the field values changed by the most recent bulk rename
+   *
+   * @returns True if there was a rename to undo, false otherwise
+   *
+   * @example
+   * ```typescript
+   * window.iicsValidator.undoFixes();
+   * ```
+   */
+  public undoFixes(): boolean {
+    return this.orchestrator.undoLastFix()
+  }
+
+  /**
+   * Exports the active ruleset and configuration as a shareable preset
+   *
+   * @param name - Optional display name of the standard
+   * @returns Preset document, ready for `JSON.stringify`
+   *
+   * @example
+   * ```typescript
+   * const preset = window.iicsValidator.exportPreset("Corporate standard");
+   * copy(JSON.stringify(preset, null, 2));
+   * ```
+   */
+  public exportPreset(name?: string): RulePreset {
+    return this.presetManager.create(this.getSettings(), name)
+  }
+
+  /**
+   * Shows what importing a preset would change, without importing it
+   *
+   * @param input - Preset JSON text or parsed object
+   * @returns Settings and rules that would be added, changed or removed
+   * @throws Error if the preset is invalid
+   *
+   * @example
+   * ```typescript
+   * const diff = window.iicsValidator.previewPreset(presetJson);
+   * console.log(diff.changedRules);
+   * ```
+   */
+  public previewPreset(input: string | RulePreset): PresetDiff {
+    const preset = this.presetManager.parse(input)
+    return this.presetManager.diff(preset, this.getSettings())
+  }
+
+  /**
+   * Imports a preset, saves it and applies it to the page
+   *
+   * @param input - Preset JSON text or parsed object
+   * @param mode - `merge` into (default) or `replace` the current settings
+   * @returns Promise resolving to the settings now in use
+   * @throws Error if the preset is invalid, the managed policy enforces the
+   * rules, or the preset cannot be saved
+   *
+   * @example
+   * ```typescript
+   * await window.iicsValidator.importPreset(presetJson, "replace");
+   * ```
+   */
+  public async importPreset(
+    input: string | RulePreset,
+    mode: PresetImportMode = "merge"
+  ): Promise<ValidatorSettings> {
+    const preset = this.presetManager.parse(input)
+    const settings = await this.presetManager.apply(
+      preset,
+      this.getSettings(),
+      mode
+    )
+
+    await this.reloadRules()
+    return settings
+  }
+
   // Helper methods
+  /**
+   * Gets the configuration and ruleset currently in use
+   * @private
+   */
+  private getSettings(): ValidatorSettings {
+    return {
+      config: { ...this.config },
+      rules: this.validatorEngine.getRuleDefinitions(),
+    }
+  }
+
   /**
    * Initializes the validator when the DOM is ready
    *
@@ -288,27 +450,74 @@ class IICSFieldValidator {
   }
 
   /**
-   * Loads configuration from Chrome storage
+   * Loads configuration and rule definitions from Chrome storage
    *
-   * Attempts to load saved configuration from chrome.storage.sync,
-   * falls back to defaults if no saved configuration exists.
+   * Loads the saved configuration through `ConfigStore`, which falls back to
+   * defaults if no saved configuration exists. The active preset's layers,
+   * or else the stored rule definitions, replace the engine's default
+   * ruleset, and the glossary and team dictionary feed the abbreviation and
+   * spelling rules. The managed policy's save guard mode is applied. Later
+   * changes, saved here, from the popup or to the policy, are applied as
+   * they happen.
    * @private
    * @async
    */
   private async loadConfig(): Promise<void> {
     if (typeof chrome !== "undefined" && chrome.storage) {
       try {
-        const result = await chrome.storage.sync.get(["config"])
-        if (result["config"]) {
-          this.config = { ...this.config, ...result["config"] }
-          logger.info("Config loaded:", this.config)
-        }
+        const config = await this.configStore.load()
+        logger.info("Config loaded:", config)
+        this.updateConfig(config)
+
+        this.saveGuard.setMode(this.configStore.getPolicy().saveGuard ?? "off")
+
+        this.unsubscribeConfig ??= this.configStore.subscribe(
+          (_config, changes) => this.updateConfig(changes)
+        )
+        this.unsubscribePolicy ??= this.configStore.subscribePolicy(
+          (policy) => {
+            this.saveGuard.setMode(policy.saveGuard ?? "off")
+            void this.loadRuleset().then(() => this.revalidateFields())
+          }
+        )
       } catch (error) {
         this.errorHandler.handle(error as Error, "config-load", false)
       }
     }
   }
 
+  /**
+   * Loads the ruleset: the rules enforced by the managed policy if any, else
+   * the layers of the active preset if one is set, otherwise the locally
+   * edited rule definitions
+   *
+   * Falls back to the local ruleset if the preset chain cannot be resolved.
+   * @private
+   * @async
+   */
+  private async loadRuleset(): Promise<void> {
+    const { rules } = this.configStore.getPolicy()
+    if (rules) {
+      this.validatorEngine.loadRuleLayers([
+        { name: MANAGED_POLICY_LAYER, rules },
+      ])
+      return
+    }
+
+    const { activePreset } = this.config
+    if (activePreset) {
+      try {
+        const layers = await this.presetStore.resolveLayers(activePreset)
+        this.validatorEngine.loadRuleLayers(layers)
+        return
+      } catch (error) {
+        this.errorHandler.handle(error as Error, "config-load", false)
+      }
+    }
+
+    this.validatorEngine.loadRuleDefinitions(await this.ruleStore.load())
+  }
+
   /**
    * Handles container change events from ContainerDetector
    *
@@ -453,20 +662,31 @@ class IICSFieldValidator {
 
       case "updateConfig":
         if (request.config) {
-          this.updateConfig(request.config)
-          sendResponse({ success: true })
+          this.configStore.update(request.config).then(
+            () => sendResponse({ success: true }),
+            (error: Error) =>
+              sendResponse({ success: false, error: error.message })
+          )
         } else {
           sendResponse({ success: false, error: "No config provided" })
         }
         break
 
+      case "updateRules":
+        this.reloadRules().then(
+          () => sendResponse({ success: true }),
+          (error: Error) =>
+            sendResponse({ success: false, error: error.message })
+        )
+        break
+
       case "clearHighlights":
         this.orchestrator.clearHighlights()
         sendResponse({ success: true })
         break
 
       case "exportReport":
-        this.orchestrator.exportReport()
+        this.orchestrator.exportReport(request.format)
         sendResponse({ success: true })
         break
 
@@ -492,31 +712,94 @@ class IICSFieldValidator {
   }
 
   /**
-   * Updates the validator configuration
+   * Applies the execution strategy of the configured validation mode and
+   * its settings, falling back to `complete` for unknown modes
+   * @private
+   */
+  private applyValidationMode(): void {
+    const strategy =
+      EXECUTION_STRATEGIES[this.config.validationMode] ??
+      EXECUTION_STRATEGIES.complete
+    this.validatorEngine.updateConfig(strategy(this.config))
+    logger.info(`Validation mode: ${this.config.validationMode}`)
+  }
+
+  /**
+   * Reloads the ruleset after rules were saved, reset or imported
+   *
+   * Goes through `loadRuleset` so the active preset's layers are kept.
+   * Registered fields are re-validated so enabled, disabled and retuned
+   * rules show up without a page reload.
+   * @private
+   * @async
+   */
+  private async reloadRules(): Promise<void> {
+    await this.loadRuleset()
+    this.revalidateFields()
+  }
+
+  /**
+   * Re-validates registered fields after the ruleset changed
+   * @private
+   */
+  private revalidateFields(): void {
+    if (this.fieldManager.getAllFields().size > 0) {
+      this.orchestrator.runFullValidation()
+    }
+  }
+
+  /**
+   * Applies configuration changes saved through `ConfigStore`
    *
-   * Merges new configuration with existing config and persists to storage.
-   * Automatically restarts polling if pollInterval changes.
+   * Merges the changes into the configuration object shared with
+   * `FieldManager` and `ContainerDetector`, so settings they read on use
+   * (e.g. debounceDelay) apply at once, and lets both managers react to the
+   * rest. Automatically restarts polling if pollInterval changes, toggles
+   * keyboard shortcuts, reloads the glossary or team dictionary if they
+   * change, switches the engine's execution strategy if validationMode or
+   * the fast mode settings change, and reloads the ruleset if activePreset
+   * changes.
    *
-   * @param newConfig - Partial configuration object to merge
+   * @param newConfig - Changed settings
    * @private
    */
   private updateConfig(newConfig: Partial<ValidatorConfig>): void {
-    this.config = { ...this.config, ...newConfig }
-    if (newConfig.pollInterval !== undefined) {
+    Object.assign(this.config, newConfig)
+    this.fieldManager.applyConfig(newConfig)
+    this.containerDetector.applyConfig(newConfig)
+
+    if (newConfig.pollInterval !== undefined && this.pollIntervalId !== null) {
       this.stopPolling()
       this.startPolling()
     }
 
-    if (typeof chrome !== "undefined" && chrome.storage) {
-      chrome.storage.sync.set({ config: this.config }, () => {
-        if (chrome.runtime.lastError) {
-          this.errorHandler.handle(
-            new Error(chrome.runtime.lastError.message),
-            "storage",
-            false
-          )
-        }
-      })
+    if (newConfig.enableKeyboardShortcut !== undefined) {
+      if (newConfig.enableKeyboardShortcut) {
+        this.setupKeyboardShortcuts()
+      } else {
+        this.removeKeyboardShortcuts()
+      }
+    }
+
+    if (newConfig.glossary !== undefined) {
+      this.validatorEngine.setGlossary(newConfig.glossary)
+    }
+
+    if (newConfig.dictionary !== undefined) {
+      this.validatorEngine.setTeamDictionary(newConfig.dictionary)
+    }
+
+    if (
+      newConfig.validationMode !== undefined ||
+      newConfig.stopOnFirstError !== undefined ||
+      newConfig.maxErrorsPerField !== undefined ||
+      newConfig.priorityTierSize !== undefined
+    ) {
+      this.applyValidationMode()
+    }
+
+    if (newConfig.activePreset !== undefined) {
+      void this.loadRuleset().then(() => this.revalidateFields())
     }
   }
 
@@ -524,16 +807,21 @@ class IICSFieldValidator {
    * Sets up global keyboard shortcuts
    *
    * - Ctrl+Shift+V: Trigger full validation
-   * - Escape: Hide stats panel
+   * - Escape: Hide fix preview and stats panel
    * @private
    */
   private setupKeyboardShortcuts(): void {
+    if (this.keyboardHandler) {
+      return
+    }
+
     this.keyboardHandler = (e: KeyboardEvent) => {
       try {
         if (e.ctrlKey && e.shiftKey && e.key === "V") {
           e.preventDefault()
           this.orchestrator.runFullValidation()
         } else if (e.key === "Escape") {
+          this.uiManager.hideFixPreview()
           this.uiManager.hideStatsPanel()
         }
       } catch (error) {
@@ -545,6 +833,18 @@ class IICSFieldValidator {
     logger.info("Keyboard shortcut enabled")
   }
 
+  /**
+   * Removes the global keyboard shortcuts, if set up
+   * @private
+   */
+  private removeKeyboardShortcuts(): void {
+    if (this.keyboardHandler) {
+      document.removeEventListener("keydown", this.keyboardHandler)
+      this.keyboardHandler = undefined
+      logger.info("Keyboard shortcut disabled")
+    }
+  }
+
   /**
    * Sets up visibility change handler to optimize performance
    *
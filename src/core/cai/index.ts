@@ -0,0 +1,6 @@
+export {
+  ProcessParser,
+  type ProcessDefinition,
+  type ProcessKind,
+  type ProcessName,
+} from "./process-parser"
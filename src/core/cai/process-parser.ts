@@ -0,0 +1,198 @@
+import { DATA_TYPE_KEYWORDS } from "@/shared/config/data-type-keywords"
+import {
+  FieldCategory,
+  FieldDataType,
+  PageType,
+  ValidationContext,
+} from "@/shared/types/validation"
+import { XmlElement, XmlReader } from "@/shared/utils/xml-reader"
+
+/**
+ * Kind of exported CAI definition
+ */
+export type ProcessKind = "process" | "guide" | "processObject"
+
+/**
+ * @interface
+ * @description A name declared in an exported CAI definition
+ */
+export interface ProcessName {
+  /** Name as written in the file */
+  name: string
+
+  /** Path of the declaring element (e.g. "/process/tempFields/field[2]") */
+  path: string
+
+  /** 1-based line of the declaring element */
+  line: number
+
+  /** What is known about where the name is used */
+  context: Partial<ValidationContext>
+}
+
+/**
+ * @interface
+ * @description Names found in one exported CAI definition
+ */
+export interface ProcessDefinition {
+  /** Kind of definition */
+  kind: ProcessKind
+
+  /** Name of the process, guide or process object, if set */
+  name: string | null
+
+  /** Field, input, output and temp-field names, in document order */
+  names: ProcessName[]
+}
+
+/**
+ * Sections of a process or guide declaring names, with the element declaring
+ * each name and the category of its names
+ */
+const FIELD_SECTIONS: [string, string[], FieldCategory][] = [
+  ["input", ["parameter", "field"], "input"],
+  ["output", ["field", "parameter"], "output"],
+  ["tempFields", ["field"], "temp"],
+]
+
+/**
+ * Page type the Process Designer opens each kind of definition in
+ */
+const PAGE_TYPES: Record<ProcessKind, PageType> = {
+  process: "process",
+  guide: "guide",
+  processObject: "process",
+}
+
+/**
+ * @class
+ * @description Reads the names declared in exported CAI definitions
+ *
+ * Understands process, guide and process object XML as exported from
+ * Application Integration, including exports wrapped in a repository
+ * response envelope. Input, output and temp fields of processes and guides
+ * are reported with the `start` step type, since the Process Designer edits
+ * them in the Start step; process object fields have no step.
+ *
+ * @example
+ * ```typescript
+ * const definition = new ProcessParser().parse(xml);
+ * for (const { name, path, context } of definition?.names ?? []) {
+ *   console.log(path, validator.validateName(name, context).isValid);
+ * }
+ * ```
+ */
+export class ProcessParser {
+  /**
+   * Parses an exported definition
+   *
+   * @param xml - Contents of the exported `.xml` file
+   * @param type - Kind of definition if known from elsewhere (e.g. the type
+   * suffix of the file name); defaults to the kind of the root element
+   * @returns The definition's names, or `null` if the file holds no process,
+   * guide or process object
+   * @throws Error if the file is not well-formed XML
+   */
+  parse(xml: string, type?: ProcessKind): ProcessDefinition | null {
+    const root = this.findDefinition(XmlReader.parse(xml))
+    if (!root) {
+      return null
+    }
+
+    const kind = type ?? (root.name as ProcessKind)
+    const names =
+      root.name === "processObject"
+        ? this.readFields(
+            XmlReader.children(root, "detail")[0] ?? root,
+            ["field"],
+            { category: "other", stepType: null }
+          )
+        : FIELD_SECTIONS.flatMap(([section, elements, category]) =>
+            XmlReader.children(root, section).flatMap((element) =>
+              this.readFields(element, elements, {
+                category,
+                stepType: "start",
+              })
+            )
+          )
+
+    for (const name of names) {
+      name.context.pageType = PAGE_TYPES[kind]
+    }
+
+    return {
+      kind,
+      name: root.attributes["name"] ?? null,
+      names,
+    }
+  }
+
+  // Helper methods
+
+  /**
+   * Finds the outermost process, guide or process object element
+   *
+   * @private
+   */
+  private findDefinition(element: XmlElement): XmlElement | null {
+    if (Object.hasOwn(PAGE_TYPES, element.name)) {
+      return element
+    }
+
+    for (const child of element.children) {
+      const found = this.findDefinition(child)
+      if (found) {
+        return found
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Reads the named child elements of a section
+   *
+   * @private
+   */
+  private readFields(
+    section: XmlElement,
+    elements: string[],
+    context: Partial<ValidationContext>
+  ): ProcessName[] {
+    return section.children
+      .filter((child) => elements.includes(child.name))
+      .filter((child) => child.attributes["name"] !== undefined)
+      .map((child) => {
+        const label =
+          child.attributes["displayName"] ?? child.attributes["label"]
+        const type = child.attributes["type"]
+
+        return {
+          name: child.attributes["name"] ?? "",
+          path: child.path,
+          line: child.line,
+          context: {
+            ...context,
+            label: label ?? null,
+            dataType: type ? this.detectDataType(type) : null,
+            isRequired: child.attributes["required"] === "true",
+          },
+        }
+      })
+  }
+
+  /**
+   * Maps a CAI type name (e.g. "dateTime", "reference") to a data type
+   *
+   * @private
+   */
+  private detectDataType(type: string): FieldDataType {
+    for (const [dataType, keywords] of DATA_TYPE_KEYWORDS) {
+      if (keywords.test(type)) {
+        return dataType
+      }
+    }
+
+    return "other"
+  }
+}
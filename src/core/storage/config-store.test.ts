@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { DEFAULT_CONFIG } from "@/shared/config/config-defaults"
+import { FakeChrome, installChrome } from "@/test/chrome"
+import { ConfigStore } from "./config-store"
+import { StorageManager } from "./storage-manager"
+
+const CONFIG_KEY = "iics-validator:config"
+
+describe("ConfigStore", () => {
+  let fake: FakeChrome
+  let store: ConfigStore
+
+  beforeEach(() => {
+    fake = installChrome()
+    store = new ConfigStore(new StorageManager())
+  })
+
+  it("merges the stored settings over the defaults", async () => {
+    fake.sync.items[CONFIG_KEY] = {
+      pollInterval: 500,
+      autoValidate: "yes",
+      theme: "dark",
+    }
+
+    expect(await store.load()).toEqual({ ...DEFAULT_CONFIG, pollInterval: 500 })
+  })
+
+  it("rejects invalid settings without saving them", async () => {
+    await store.load()
+
+    await expect(
+      store.save({ pollInterval: 50, dictionary: ["team-word"] })
+    ).rejects.toThrow(
+      "Configuration validation failed: pollInterval must be at least 100ms, " +
+        "dictionary words may only contain letters"
+    )
+    expect(fake.sync.items).toEqual({})
+    expect(store.getConfig()).toEqual(DEFAULT_CONFIG)
+  })
+
+  it("uses managed values as defaults and enforces locked settings", async () => {
+    fake.managed.items = {
+      config: { pollInterval: 1000, validationMode: "fast", colour: "red" },
+      lockedConfig: ["validationMode", "unknown"],
+    }
+    fake.sync.items[CONFIG_KEY] = {
+      pollInterval: 500,
+      validationMode: "complete",
+    }
+
+    const config = await store.load()
+
+    expect(config.pollInterval).toBe(500)
+    expect(config.validationMode).toBe("fast")
+    expect(store.isLocked("validationMode")).toBe(true)
+    expect(store.getPolicy().lockedConfig).toEqual(["validationMode"])
+
+    await store.save({ validationMode: "complete", debounceDelay: 100 })
+    expect(fake.sync.items[CONFIG_KEY]).toMatchObject({
+      validationMode: "fast",
+      debounceDelay: 100,
+    })
+  })
+
+  it("resets to the managed defaults by removing the stored settings", async () => {
+    fake.managed.items = { config: { pollInterval: 1000 } }
+    await store.load()
+    await store.save({ pollInterval: 500 })
+
+    const config = await store.reset()
+
+    expect(config).toEqual({ ...DEFAULT_CONFIG, pollInterval: 1000 })
+    expect(fake.sync.items).toEqual({})
+    expect(await new ConfigStore(new StorageManager()).load()).toEqual(config)
+  })
+
+  it("notifies subscribers of changes from other contexts and the policy", async () => {
+    await store.load()
+    const listener = vi.fn()
+    const policyListener = vi.fn()
+    store.subscribe(listener)
+    store.subscribePolicy(policyListener)
+
+    await new ConfigStore(new StorageManager()).save({ debounceDelay: 100 })
+    expect(listener).toHaveBeenLastCalledWith(
+      { ...DEFAULT_CONFIG, debounceDelay: 100 },
+      { debounceDelay: 100 }
+    )
+
+    fake.setPolicy({ saveGuard: "block" })
+    await vi.waitFor(() =>
+      expect(policyListener).toHaveBeenCalledWith({ saveGuard: "block" })
+    )
+  })
+})
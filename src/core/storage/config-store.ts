@@ -1,15 +1,39 @@
 import { DEFAULT_CONFIG } from "@/shared/config/config-defaults"
-import { ValidatorConfig } from "@/shared/types/validation"
+import { EXECUTION_STRATEGIES } from "@/shared/config/execution-strategies"
+import { ManagedPolicy, ValidatorConfig } from "@/shared/types/validation"
 import logger from "@/shared/utils/logger"
+import { PolicyStore } from "./policy-store"
 import { StorageManager } from "./storage-manager"
 
+/**
+ * Receives the new configuration and the settings that changed
+ */
+export type ConfigListener = (
+  config: ValidatorConfig,
+  changes: Partial<ValidatorConfig>
+) => void
+
 /**
  * @class
  * @description Manages extension configuration persistence
  *
  * Handles configuration loading, saving, validation, and migration.
  * Ensures configuration integrity and provides fallback to defaults when
- * needed.
+ * needed. Subscribers are notified of every change, whether it was saved
+ * through this instance or from another extension context.
+ *
+ * The managed policy is layered on top: its `config` values replace the
+ * defaults, and its `lockedConfig` settings always keep the managed value
+ * (or the default) whatever the user saved.
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = configStore.subscribe((config, changes) => {
+ *   if (changes.debounceDelay !== undefined) {
+ *     // ...
+ *   }
+ * });
+ * ```
  */
 export class ConfigStore {
   /** `StorageManager` instance for persistent configuration storage */
@@ -21,35 +45,59 @@ export class ConfigStore {
   /** In-memory cache of the current configuration for fast access */
   private currentConfig: ValidatorConfig
 
+  /** Listeners notified when the configuration changes */
+  private readonly listeners = new Set<ConfigListener>()
+
+  /** Stops watching the stored configuration; set while there are listeners */
+  private unwatch: (() => void) | null = null
+
+  /** `PolicyStore` instance reading the managed policy */
+  private readonly policyStore: PolicyStore
+
+  /** Managed policy, with its settings sanitized */
+  private policy: ManagedPolicy = {}
+
+  /** Listeners notified when the managed policy changes */
+  private readonly policyListeners = new Set<(policy: ManagedPolicy) => void>()
+
+  /** Stops watching the managed policy; set while there are listeners */
+  private unwatchPolicy: (() => void) | null = null
+
   /**
    * Creates a new `ConfigStore` instance
    *
    * @param storage - `StorageManager` instance for persistent storage operations
+   * @param policyStore - `PolicyStore` instance for the managed policy
    */
-  constructor(storage: StorageManager) {
+  constructor(storage: StorageManager, policyStore = new PolicyStore()) {
     this.storage = storage
+    this.policyStore = policyStore
     this.currentConfig = { ...DEFAULT_CONFIG }
   }
 
   /**
    * Loads configuration from storage and merges with defaults
    *
+   * Settings that are no longer supported are dropped and settings of the
+   * wrong type fall back to their default, with a warning for each. The
+   * managed policy is reloaded as well.
+   *
    * @returns Promise resolving to the loaded configuration
    * @throws Will not throw but will fall back to defaults on error
    */
   async load(): Promise<ValidatorConfig> {
     try {
+      this.setPolicy(await this.policyStore.load())
       const savedConfig = await this.storage.get<Partial<ValidatorConfig>>(
         this.configKey
       )
 
-      if (savedConfig) {
-        this.currentConfig = this.mergeConfigs(DEFAULT_CONFIG, savedConfig)
-        logger.info("Configuration loaded from storage")
-      } else {
-        this.currentConfig = { ...DEFAULT_CONFIG }
-        logger.info("Using default configuration")
-      }
+      this.setConfig(this.fromStored(savedConfig))
+      logger.info(
+        savedConfig
+          ? "Configuration loaded from storage"
+          : "Using default configuration"
+      )
 
       return this.currentConfig
     } catch (error) {
@@ -58,7 +106,7 @@ export class ConfigStore {
         error as Error
       )
 
-      this.currentConfig = { ...DEFAULT_CONFIG }
+      this.currentConfig = this.fromStored(null)
       return this.currentConfig
     }
   }
@@ -66,16 +114,32 @@ export class ConfigStore {
   /**
    * Saves configuration to storage after validation
    *
+   * Changes to settings locked by the managed policy are ignored, with a
+   * warning.
+   *
    * @param config - Partial configuration object to save
    * @returns Promise that resolves when save is complete
    * @throws Error if configuration validation fails or save operation fails
    */
   async save(config: Partial<ValidatorConfig>): Promise<void> {
     try {
-      this.currentConfig = this.mergeConfigs(this.currentConfig, config)
-      this.validateConfig(this.currentConfig)
+      for (const key of this.policy.lockedConfig ?? []) {
+        const value = config[key]
+        if (
+          value !== undefined &&
+          JSON.stringify(value) !== JSON.stringify(this.currentConfig[key])
+        ) {
+          logger.warn(`Ignoring "${key}": managed by your organization`)
+        }
+      }
+
+      const merged = this.enforcePolicy(
+        this.mergeConfigs(this.currentConfig, config)
+      )
+      this.validateConfig(merged)
 
-      await this.storage.set(this.configKey, this.currentConfig)
+      await this.storage.set(this.configKey, merged)
+      this.setConfig(merged)
       logger.info("Configuration saved successfully")
     } catch (error) {
       logger.error("Failed to save configuration:", error as Error)
@@ -95,11 +159,14 @@ export class ConfigStore {
   /**
    * Resets configuration to default values and persists the change
    *
+   * The stored configuration is removed rather than overwritten, so the
+   * defaults set by the managed policy apply again.
+   *
    * @returns Promise resolving to the default configuration
    */
   async reset(): Promise<ValidatorConfig> {
-    this.currentConfig = { ...DEFAULT_CONFIG }
-    await this.storage.set(this.configKey, this.currentConfig)
+    await this.storage.remove(this.configKey)
+    this.setConfig(this.fromStored(null))
 
     logger.info("Configuration reset to defaults")
     return this.currentConfig
@@ -108,40 +175,86 @@ export class ConfigStore {
   /**
    * Updates specific configuration properties and saves
    *
+   * Reloads the stored configuration first, so settings saved from another
+   * extension context since the last load are kept.
+   *
    * @param updates - Partial configuration object with properties to update
    * @returns Promise resolving to the updated configuration
    */
   async update(updates: Partial<ValidatorConfig>): Promise<ValidatorConfig> {
+    await this.load()
     await this.save(updates)
     return this.currentConfig
   }
 
   /**
-   * Merges base configuration with updates, with updates taking precedence
+   * Gets the managed policy loaded with the configuration
    *
-   * @param base - Base configuration object
-   * @param updates - Partial configuration with updates
-   * @returns Merged configuration object
-   * @private
+   * @returns Managed policy, empty if none is set
    */
-  private mergeConfigs(
-    base: ValidatorConfig,
-    updates: Partial<ValidatorConfig>
-  ): ValidatorConfig {
-    return {
-      ...base,
-      ...updates,
+  getPolicy(): ManagedPolicy {
+    return { ...this.policy }
+  }
+
+  /**
+   * Checks if the managed policy locks a setting
+   *
+   * @param key - Setting to check
+   * @returns `true` if users cannot change the setting
+   */
+  isLocked(key: keyof ValidatorConfig): boolean {
+    return this.policy.lockedConfig?.includes(key) ?? false
+  }
+
+  /**
+   * Calls a listener whenever the configuration changes
+   *
+   * Changes saved from other extension contexts (e.g. the popup) are picked
+   * up through `chrome.storage.onChanged`, as are changes to the managed
+   * policy.
+   *
+   * @param listener - Receives the new configuration and the changed settings
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: ConfigListener): () => void {
+    this.listeners.add(listener)
+    this.updateWatchers()
+
+    return () => {
+      this.listeners.delete(listener)
+      this.updateWatchers()
+    }
+  }
+
+  /**
+   * Calls a listener whenever the administrator changes the managed policy
+   *
+   * Settings the change affects are also reported to `subscribe` listeners.
+   *
+   * @param listener - Receives the new policy
+   * @returns Function that removes the listener
+   */
+  subscribePolicy(listener: (policy: ManagedPolicy) => void): () => void {
+    this.policyListeners.add(listener)
+    this.updateWatchers()
+
+    return () => {
+      this.policyListeners.delete(listener)
+      this.updateWatchers()
     }
   }
 
   /**
    * Validates configuration values and throws error if invalid
    *
+   * `save` runs this on the merged configuration; callers that write other
+   * stores along with the configuration run it first, so a rejected
+   * configuration leaves every store unchanged.
+   *
    * @param config - Configuration object to validate
    * @throws Error with descriptive message if validation fails
-   * @private
    */
-  private validateConfig(config: ValidatorConfig): void {
+  validateConfig(config: ValidatorConfig): void {
     const errors: string[] = []
 
     if (config.pollInterval < 100) {
@@ -156,8 +269,237 @@ export class ConfigStore {
       errors.push("minFieldsForProcess must be at least 1")
     }
 
+    const abbreviations = new Set<string>()
+    for (const term of config.glossary) {
+      const key = term.abbreviation.trim().toLowerCase()
+      if (!key || !term.expansion.trim()) {
+        errors.push("glossary terms need an abbreviation and an expansion")
+      } else if (abbreviations.has(key)) {
+        errors.push(`duplicate glossary abbreviation "${term.abbreviation}"`)
+      }
+      abbreviations.add(key)
+
+      if (term.status !== "approved" && term.status !== "banned") {
+        errors.push(`unknown glossary status "${term.status}"`)
+      }
+    }
+
+    if (!(config.validationMode in EXECUTION_STRATEGIES)) {
+      errors.push(`unknown validationMode "${config.validationMode}"`)
+    }
+
+    if (
+      !Number.isInteger(config.maxErrorsPerField) ||
+      config.maxErrorsPerField < 1
+    ) {
+      errors.push("maxErrorsPerField must be a positive integer")
+    }
+
+    if (
+      !Number.isInteger(config.priorityTierSize) ||
+      config.priorityTierSize < 0
+    ) {
+      errors.push("priorityTierSize must be a non-negative integer")
+    }
+
+    if (config.dictionary.some((word) => !/^[A-Za-z]+$/.test(word))) {
+      errors.push("dictionary words may only contain letters")
+    }
+
     if (errors.length > 0) {
       throw new Error(`Configuration validation failed: ${errors.join(", ")}`)
     }
   }
+
+  // Helper methods
+
+  /**
+   * Watches the stored configuration and the managed policy while there are
+   * listeners
+   *
+   * @private
+   */
+  private updateWatchers(): void {
+    const isWatched = this.listeners.size + this.policyListeners.size > 0
+
+    if (isWatched) {
+      this.unwatch ??= this.storage.watch<Partial<ValidatorConfig>>(
+        this.configKey,
+        (saved) => this.setConfig(this.fromStored(saved))
+      )
+      this.unwatchPolicy ??= this.policyStore.watch((policy) =>
+        this.onPolicyChange(policy)
+      )
+    } else {
+      this.unwatch?.()
+      this.unwatch = null
+      this.unwatchPolicy?.()
+      this.unwatchPolicy = null
+    }
+  }
+
+  /**
+   * Applies a new managed policy and notifies listeners
+   *
+   * @private
+   */
+  private onPolicyChange(policy: ManagedPolicy): void {
+    this.setPolicy(policy)
+    logger.info("Managed policy changed")
+
+    void this.storage
+      .get<Partial<ValidatorConfig>>(this.configKey)
+      .then((saved) => this.setConfig(this.fromStored(saved)))
+
+    for (const listener of this.policyListeners) {
+      try {
+        listener(this.getPolicy())
+      } catch (error) {
+        logger.error("Policy listener failed:", error as Error)
+      }
+    }
+  }
+
+  /**
+   * Stores the managed policy, keeping only its valid settings
+   *
+   * @private
+   */
+  private setPolicy(policy: ManagedPolicy): void {
+    this.policy = policy.config
+      ? { ...policy, config: this.sanitizeConfig(policy.config) }
+      : policy
+  }
+
+  /**
+   * Applies the locked settings of the managed policy
+   *
+   * @param config - Configuration to enforce the policy on
+   * @returns Configuration with every locked setting at its managed value,
+   * or its default if the policy sets none
+   * @private
+   */
+  private enforcePolicy(config: ValidatorConfig): ValidatorConfig {
+    const enforced: Record<string, unknown> = { ...config }
+    for (const key of this.policy.lockedConfig ?? []) {
+      enforced[key] = this.policy.config?.[key] ?? DEFAULT_CONFIG[key]
+    }
+
+    return enforced as unknown as ValidatorConfig
+  }
+
+  /**
+   * Replaces the current configuration and notifies listeners of the
+   * settings that changed
+   *
+   * @param config - New configuration
+   * @private
+   */
+  private setConfig(config: ValidatorConfig): void {
+    const changes = this.diffConfigs(this.currentConfig, config)
+    this.currentConfig = config
+    if (Object.keys(changes).length === 0) {
+      return
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(this.getConfig(), changes)
+      } catch (error) {
+        logger.error("Configuration listener failed:", error as Error)
+      }
+    }
+  }
+
+  /**
+   * Builds the complete configuration from what is stored
+   *
+   * @param saved - Stored configuration, or `null` if none is stored
+   * @returns Stored settings merged over the managed values and defaults,
+   * with the managed policy enforced
+   * @private
+   */
+  private fromStored(saved: Partial<ValidatorConfig> | null): ValidatorConfig {
+    const managed = this.mergeConfigs(DEFAULT_CONFIG, this.policy.config ?? {})
+
+    return this.enforcePolicy(
+      saved ? this.mergeConfigs(managed, this.sanitizeConfig(saved)) : managed
+    )
+  }
+
+  /**
+   * Finds the settings whose value differs between two configurations
+   *
+   * @param previous - Configuration before the change
+   * @param next - Configuration after the change
+   * @returns Changed settings with their new value
+   * @private
+   */
+  private diffConfigs(
+    previous: ValidatorConfig,
+    next: ValidatorConfig
+  ): Partial<ValidatorConfig> {
+    const changes: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(next)) {
+      const before = previous[key as keyof ValidatorConfig]
+      if (JSON.stringify(before) !== JSON.stringify(value)) {
+        changes[key] = value
+      }
+    }
+
+    return changes as Partial<ValidatorConfig>
+  }
+
+  /**
+   * Merges base configuration with updates, with updates taking precedence
+   *
+   * @param base - Base configuration object
+   * @param updates - Partial configuration with updates
+   * @returns Merged configuration object
+   * @private
+   */
+  private mergeConfigs(
+    base: ValidatorConfig,
+    updates: Partial<ValidatorConfig>
+  ): ValidatorConfig {
+    return {
+      ...base,
+      ...updates,
+    }
+  }
+
+  /**
+   * Keeps the stored settings that still exist and have the type of their
+   * default value
+   *
+   * @param saved - Configuration as stored, possibly by an older version
+   * @returns Settings safe to merge over the defaults
+   * @private
+   */
+  private sanitizeConfig(
+    saved: Partial<ValidatorConfig>
+  ): Partial<ValidatorConfig> {
+    const sanitized: Record<string, unknown> = {}
+    const defaults: Record<string, unknown> = { ...DEFAULT_CONFIG }
+
+    for (const [key, value] of Object.entries(saved)) {
+      if (!(key in defaults)) {
+        logger.warn(`Ignoring unsupported setting "${key}"`)
+        continue
+      }
+
+      const expected = defaults[key]
+      const matches = Array.isArray(expected)
+        ? Array.isArray(value)
+        : typeof value === typeof expected
+      if (!matches) {
+        logger.warn(`Setting "${key}" has an invalid value, using default`)
+        continue
+      }
+
+      sanitized[key] = value
+    }
+
+    return sanitized as Partial<ValidatorConfig>
+  }
 }
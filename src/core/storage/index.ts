@@ -1,4 +1,19 @@
 export { StorageManager, type StorageAdapter } from "./storage-manager"
-export { ConfigStore } from "./config-store"
+export { ConfigStore, type ConfigListener } from "./config-store"
+export {
+  PolicyStore,
+  MANAGED_POLICY_LAYER,
+  MANAGED_RULES_MESSAGE,
+} from "./policy-store"
+export { RuleStore } from "./rule-store"
+export { PresetManager, PRESET_FORMAT, PRESET_VERSION } from "./preset-manager"
+export { PresetStore } from "./preset-store"
+export { SchemaMigrator, type MigrationResult } from "./schema-migrator"
+export {
+  MIGRATIONS,
+  SCHEMA_VERSIONS,
+  SCHEMA_VERSIONS_KEY,
+  type Migration,
+} from "./migrations"
 export { StatsStore, type StoredStats } from "./stats-store"
 export { CacheManager } from "./cache-manager"
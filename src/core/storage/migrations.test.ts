@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_RULE_DEFINITIONS } from "@/shared/config/rule-defaults"
+import { RuleDefinition } from "@/shared/types/validation"
+import { MIGRATIONS, SCHEMA_VERSIONS } from "./migrations"
+
+function migration(key: string, version: number) {
+  const found = MIGRATIONS.find(
+    (migration) => migration.key === key && migration.version === version
+  )
+  if (!found) {
+    throw new Error(`No migration of "${key}" to version ${version}`)
+  }
+
+  return found
+}
+
+const reservedRule: RuleDefinition = {
+  name: "no-reserved-words",
+  message: "Cannot be a reserved word",
+  priority: 15,
+  reservedWords: ["sql"],
+}
+
+describe("MIGRATIONS", () => {
+  it("only migrates items to versions that exist", () => {
+    for (const { key, version } of MIGRATIONS) {
+      expect(SCHEMA_VERSIONS[key]).toBeGreaterThanOrEqual(version)
+    }
+  })
+
+  describe("config v2", () => {
+    const { migrate } = migration("config", 2)
+
+    it("takes settings from the legacy key but keeps stored word lists", () => {
+      expect(
+        migrate(
+          { glossary: [], dictionary: ["acme"], autoValidate: true },
+          { autoValidate: false, glossary: undefined, pollInterval: 500 }
+        )
+      ).toEqual({
+        autoValidate: false,
+        pollInterval: 500,
+        glossary: [],
+        dictionary: ["acme"],
+      })
+    })
+
+    it("moves the legacy settings when nothing was stored yet", () => {
+      expect(migrate(undefined, { validationMode: "fast" })).toEqual({
+        validationMode: "fast",
+      })
+    })
+  })
+
+  describe("rules v1", () => {
+    const { migrate } = migration("rules", 1)
+
+    it("adds missing default rules disabled", () => {
+      const stored = DEFAULT_RULE_DEFINITIONS.slice(1)
+      const migrated = migrate(stored) as RuleDefinition[]
+
+      expect(migrated.slice(0, stored.length)).toEqual(stored)
+      expect(migrated.slice(stored.length)).toEqual([
+        { ...DEFAULT_RULE_DEFINITIONS[0], enabled: false },
+      ])
+    })
+  })
+
+  describe("rules v2", () => {
+    const { migrate } = migration("rules", 2)
+
+    it("splits the reserved-word rule into keywords and common words", () => {
+      const stored: RuleDefinition[] = [
+        reservedRule,
+        { ...reservedRule, name: "no-common-reserved-words", enabled: false },
+      ]
+
+      expect(migrate(stored)).toEqual([
+        { ...reservedRule, reservedWordScope: "keywords" },
+        {
+          ...reservedRule,
+          name: "no-common-reserved-words",
+          message: "Should not be a reserved word",
+          severity: "warning",
+          reservedWordScope: "common",
+        },
+      ])
+    })
+
+    it("keeps rulesets that already scope reserved words", () => {
+      const stored = [{ ...reservedRule, reservedWordScope: "all" }]
+
+      expect(migrate(stored)).toBe(stored)
+    })
+
+    it("does not mutate the stored rules", () => {
+      const stored = [{ ...reservedRule }]
+      migrate(stored)
+
+      expect(stored).toEqual([reservedRule])
+    })
+  })
+
+  describe("validation-stats v1", () => {
+    it("adds the warning count", () => {
+      const { migrate } = migration("validation-stats", 1)
+
+      expect(migrate({ validFields: 2 })).toEqual({
+        validFields: 2,
+        warningFields: 0,
+      })
+      expect(migrate({ warningFields: 3 })).toEqual({ warningFields: 3 })
+    })
+  })
+})
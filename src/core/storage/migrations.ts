@@ -0,0 +1,141 @@
+import { DEFAULT_RULE_DEFINITIONS } from "@/shared/config/rule-defaults"
+import { RuleDefinition, ValidatorConfig } from "@/shared/types/validation"
+import { StoredStats } from "./stats-store"
+
+/**
+ * @interface
+ * @description Upgrades one persisted item to the next schema version
+ */
+export interface Migration {
+  /** Storage key of the item, without namespace */
+  key: string
+
+  /** Schema version the item has once this migration ran */
+  version: number
+
+  /** What the migration changes, logged when it runs */
+  description: string
+
+  /**
+   * Un-namespaced key the item was stored under before; its value is passed
+   * to `migrate` and the key is removed once the item was migrated
+   */
+  legacyKey?: string
+
+  /**
+   * Returns the upgraded item; must not mutate its arguments
+   *
+   * @param value - Stored item, `undefined` if only the legacy key is set
+   * @param legacyValue - Value of `legacyKey`, if set
+   */
+  migrate(value: unknown, legacyValue?: unknown): unknown
+}
+
+/**
+ * Current schema version of every persisted item, keyed by storage key
+ *
+ * Bump an item's version together with a migration in `MIGRATIONS` whenever
+ * its stored format changes (a field is renamed, removed or changes type).
+ */
+export const SCHEMA_VERSIONS: Readonly<Record<string, number>> = {
+  config: 2,
+  rules: 2,
+  presets: 1,
+  "validation-stats": 1,
+}
+
+/**
+ * Storage key holding the schema version of every persisted item
+ */
+export const SCHEMA_VERSIONS_KEY = "schema-versions"
+
+/**
+ * Registered migrations, applied in version order per item
+ *
+ * Items stored before schema versioning are at version 0. Items without a
+ * migration for a version are only stamped with it.
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    key: "config",
+    version: 2,
+    legacyKey: "config",
+    description: "Move settings from the legacy un-namespaced config key",
+    // The glossary and dictionary were always saved through ConfigStore;
+    // every other setting was only kept up to date under the legacy key
+    migrate: (value, legacyValue) => {
+      const { glossary, dictionary, ...stored } = (value ??
+        {}) as Partial<ValidatorConfig>
+
+      return {
+        ...stored,
+        ...(legacyValue as Partial<ValidatorConfig> | undefined),
+        ...(glossary && { glossary }),
+        ...(dictionary && { dictionary }),
+      }
+    },
+  },
+  {
+    key: "rules",
+    version: 1,
+    description:
+      "Add default rules shipped since the ruleset was saved, disabled",
+    migrate: (value) => {
+      const rules = value as RuleDefinition[]
+      const names = new Set(rules.map((rule) => rule.name))
+
+      return [
+        ...rules,
+        ...DEFAULT_RULE_DEFINITIONS.filter((rule) => !names.has(rule.name)).map(
+          (rule) => ({ ...rule, enabled: false })
+        ),
+      ]
+    },
+  },
+  {
+    key: "rules",
+    version: 2,
+    description:
+      "Report reserved words that are everyday field names as warnings",
+    migrate: (value) => {
+      const rules = value as RuleDefinition[]
+      const reserved = rules.find(
+        (rule) =>
+          rule.name === "no-reserved-words" &&
+          rule.reservedWords &&
+          rule.reservedWordScope === undefined
+      )
+      if (!reserved) {
+        return rules
+      }
+
+      // Replaces the disabled copy of the new default added by version 1,
+      // so common words stay checked wherever the original rule was enabled
+      return [
+        ...rules
+          .filter((rule) => rule.name !== "no-common-reserved-words")
+          .map((rule) =>
+            rule === reserved
+              ? { ...rule, reservedWordScope: "keywords" }
+              : rule
+          ),
+        {
+          ...reserved,
+          name: "no-common-reserved-words",
+          message: "Should not be a reserved word",
+          severity: "warning",
+          reservedWordScope: "common",
+        },
+      ]
+    },
+  },
+  {
+    key: "validation-stats",
+    version: 1,
+    description: "Add the warning count introduced with rule severities",
+    migrate: (value) => {
+      const stats = value as Partial<StoredStats>
+      return { ...stats, warningFields: stats.warningFields ?? 0 }
+    },
+  },
+]
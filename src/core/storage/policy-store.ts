@@ -0,0 +1,148 @@
+import { DEFAULT_CONFIG } from "@/shared/config/config-defaults"
+import {
+  ManagedPolicy,
+  RuleDefinition,
+  SaveGuardMode,
+  ValidatorConfig,
+} from "@/shared/types/validation"
+import logger from "@/shared/utils/logger"
+import { RuleCompiler } from "../validation/engine/rule-compiler"
+
+/**
+ * Layer name shown as the origin of rules enforced by the managed policy
+ */
+export const MANAGED_POLICY_LAYER = "organization"
+
+/**
+ * Error shown when users try to change rules the managed policy enforces
+ */
+export const MANAGED_RULES_MESSAGE = "Rules are managed by your organization"
+
+/**
+ * Save guard modes the policy accepts
+ */
+const SAVE_GUARD_MODES: readonly SaveGuardMode[] = ["off", "warn", "block"]
+
+/**
+ * @class
+ * @description Reads the policy an administrator pushes through
+ * `chrome.storage.managed`
+ *
+ * The policy is read-only for the extension. Invalid parts are dropped with
+ * a warning in the console instead of failing the whole policy, and browsers
+ * without managed storage get an empty policy.
+ *
+ * @example
+ * ```typescript
+ * const policy = await new PolicyStore().load();
+ * if (policy.rules) {
+ *   validatorEngine.loadRuleLayers([
+ *     { name: MANAGED_POLICY_LAYER, rules: policy.rules },
+ *   ]);
+ * }
+ * ```
+ */
+export class PolicyStore {
+  /** Compiler used to validate the enforced rules */
+  private readonly compiler = new RuleCompiler()
+
+  /**
+   * Loads the managed policy
+   *
+   * @returns Promise resolving to the policy, empty if none is set
+   * @throws Will not throw but returns an empty policy on error
+   */
+  async load(): Promise<ManagedPolicy> {
+    if (typeof chrome === "undefined" || !chrome.storage?.managed) {
+      return {}
+    }
+
+    try {
+      const stored = await chrome.storage.managed.get(null)
+      return this.parse(stored)
+    } catch (error) {
+      logger.error("Failed to load managed policy:", error as Error)
+      return {}
+    }
+  }
+
+  /**
+   * Calls a listener whenever the administrator changes the policy
+   *
+   * @param listener - Receives the new policy
+   * @returns Function that stops watching
+   */
+  watch(listener: (policy: ManagedPolicy) => void): () => void {
+    const handler = (_changes: unknown, areaName: string): void => {
+      if (areaName === "managed") {
+        void this.load().then(listener)
+      }
+    }
+
+    chrome.storage.onChanged.addListener(handler)
+    return () => chrome.storage.onChanged.removeListener(handler)
+  }
+
+  // Helper methods
+
+  /**
+   * Keeps the valid parts of the stored policy
+   *
+   * @private
+   */
+  private parse(stored: Record<string, unknown>): ManagedPolicy {
+    const policy: ManagedPolicy = {}
+    const { rules, config, lockedConfig, saveGuard } = stored
+
+    if (Array.isArray(rules) && rules.length > 0) {
+      policy.rules = rules.filter((rule): rule is RuleDefinition => {
+        const problems = this.isObject(rule)
+          ? this.compiler.validate(rule as unknown as RuleDefinition)
+          : ["not an object"]
+        if (problems.length > 0) {
+          logger.warn(
+            `Ignoring managed rule "${
+              this.isObject(rule) ? String(rule["name"]) : rule
+            }": ${problems.join(", ")}`
+          )
+        }
+
+        return problems.length === 0
+      })
+    }
+
+    if (this.isObject(config)) {
+      policy.config = config as Partial<ValidatorConfig>
+    }
+
+    if (Array.isArray(lockedConfig)) {
+      policy.lockedConfig = lockedConfig.filter(
+        (key): key is keyof ValidatorConfig => {
+          const isSetting = typeof key === "string" && key in DEFAULT_CONFIG
+          if (!isSetting) {
+            logger.warn(`Ignoring unknown locked setting "${String(key)}"`)
+          }
+
+          return isSetting
+        }
+      )
+    }
+
+    if (SAVE_GUARD_MODES.includes(saveGuard as SaveGuardMode)) {
+      policy.saveGuard = saveGuard as SaveGuardMode
+    } else if (saveGuard !== undefined) {
+      logger.warn(`Ignoring unknown save guard mode "${String(saveGuard)}"`)
+    }
+
+    return policy
+  }
+
+  /**
+   * Checks if a value is a plain object
+   *
+   * @private
+   */
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+  }
+}
@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { DEFAULT_CONFIG } from "@/shared/config/config-defaults"
+import { RuleDefinition, RulePreset } from "@/shared/types/validation"
+import { FakeChrome, installChrome } from "@/test/chrome"
+import { ConfigStore } from "./config-store"
+import { PresetManager, PRESET_FORMAT, PRESET_VERSION } from "./preset-manager"
+import { RuleStore } from "./rule-store"
+import { StorageManager } from "./storage-manager"
+
+const noSpaces: RuleDefinition = {
+  name: "no-spaces",
+  message: "No spaces allowed",
+  priority: 10,
+  forbiddenSubstrings: [" "],
+}
+
+const maxLength: RuleDefinition = {
+  name: "max-length",
+  message: "Too long",
+  priority: 20,
+  maxLength: 50,
+}
+
+const current = {
+  config: { ...DEFAULT_CONFIG, glossary: [], dictionary: ["acme"] },
+  rules: [noSpaces, maxLength],
+}
+
+describe("PresetManager", () => {
+  let fake: FakeChrome
+  let configStore: ConfigStore
+  let presets: PresetManager
+
+  beforeEach(async () => {
+    fake = installChrome()
+    const storage = new StorageManager()
+    configStore = new ConfigStore(storage)
+    presets = new PresetManager(configStore, new RuleStore(storage))
+    await configStore.load()
+  })
+
+  it("exports settings as a versioned preset that parses back", () => {
+    const preset = presets.create(current, "Corporate")
+
+    expect(preset).toMatchObject({
+      format: PRESET_FORMAT,
+      version: PRESET_VERSION,
+      name: "Corporate",
+      rules: [noSpaces, maxLength],
+    })
+    expect(presets.parse(JSON.stringify(preset))).toEqual(preset)
+  })
+
+  it("lists every schema problem of an invalid preset", () => {
+    expect(
+      presets.validate({
+        format: "other",
+        version: 2,
+        config: { pollInterval: "fast", colour: "red" },
+        rules: [noSpaces, { ...noSpaces, maxLength: -1 }],
+      })
+    ).toEqual([
+      `format must be "${PRESET_FORMAT}"`,
+      "version 2 is not supported (latest is 1)",
+      "config.pollInterval must be a number",
+      "config.colour is not a known setting",
+      'rule "no-spaces": maxLength must be a non-negative integer',
+      'rule "no-spaces" is defined more than once',
+    ])
+    expect(() => presets.parse("{")).toThrow("Invalid preset: not valid JSON")
+  })
+
+  it("reports added, changed and removed settings and rules", () => {
+    const preset = presets.create({
+      config: { ...current.config, pollInterval: 500 },
+      rules: [
+        { ...noSpaces, severity: "warning" },
+        { ...maxLength, name: "x" },
+      ],
+    })
+
+    expect(presets.diff(preset, current)).toEqual({
+      config: [{ key: "pollInterval", current: 2000, incoming: 500 }],
+      addedRules: ["x"],
+      changedRules: ["no-spaces"],
+      removedRules: ["max-length"],
+    })
+  })
+
+  it("merges glossary terms, dictionary words and rules", () => {
+    const preset: RulePreset = {
+      format: PRESET_FORMAT,
+      version: PRESET_VERSION,
+      config: {
+        glossary: [
+          { abbreviation: "Qty", expansion: "Quantity", status: "approved" },
+        ],
+        dictionary: ["ACME", "globex"],
+      },
+      rules: [{ ...maxLength, maxLength: 30 }],
+    }
+
+    const settings = presets.resolve(preset, current, "merge")
+
+    expect(settings.config.glossary).toEqual(preset.config.glossary)
+    expect(settings.config.dictionary).toEqual(["acme", "globex"])
+    expect(settings.rules).toEqual([noSpaces, { ...maxLength, maxLength: 30 }])
+    expect(presets.resolve(preset, current, "replace")).toEqual({
+      config: { ...DEFAULT_CONFIG, ...preset.config },
+      rules: [{ ...maxLength, maxLength: 30 }],
+    })
+  })
+
+  it("saves the rules and configuration of an import", async () => {
+    const preset = presets.create({
+      config: { pollInterval: 500 } as typeof current.config,
+      rules: [noSpaces],
+    })
+
+    await presets.apply(preset, current, "replace")
+
+    expect(fake.sync.items).toMatchObject({
+      "iics-validator:rules": [noSpaces],
+      "iics-validator:config": { pollInterval: 500, dictionary: [] },
+    })
+  })
+
+  it("writes nothing when the merged configuration is invalid", async () => {
+    const preset = presets.create({
+      config: { dictionary: ["team-word"] } as typeof current.config,
+      rules: [noSpaces],
+    })
+
+    await expect(presets.apply(preset, current, "merge")).rejects.toThrow(
+      "dictionary words may only contain letters"
+    )
+    expect(fake.sync.items).toEqual({})
+  })
+
+  it("rejects imports while the managed policy enforces the rules", async () => {
+    fake.managed.items = { rules: [noSpaces] }
+    await configStore.load()
+
+    await expect(
+      presets.apply(presets.create(current), current, "merge")
+    ).rejects.toThrow("Rules are managed by your organization")
+    expect(fake.sync.items).toEqual({})
+  })
+})
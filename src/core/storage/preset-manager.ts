@@ -0,0 +1,474 @@
+import { DEFAULT_CONFIG } from "@/shared/config/config-defaults"
+import { EXECUTION_STRATEGIES } from "@/shared/config/execution-strategies"
+import {
+  ConfigChange,
+  GlossaryTerm,
+  PresetDiff,
+  PresetImportMode,
+  RuleDefinition,
+  RulePreset,
+  ValidatorConfig,
+  ValidatorSettings,
+} from "@/shared/types/validation"
+import logger from "@/shared/utils/logger"
+import { RuleCompiler } from "../validation/engine/rule-compiler"
+import { ConfigStore } from "./config-store"
+import { MANAGED_RULES_MESSAGE } from "./policy-store"
+import { RuleStore } from "./rule-store"
+
+/**
+ * Value of the `format` field identifying preset documents
+ */
+export const PRESET_FORMAT = "iics-validator-preset"
+
+/**
+ * Schema version written by `PresetManager.create`
+ */
+export const PRESET_VERSION = 1
+
+/**
+ * Expected JSON type of each configuration setting in a preset
+ */
+const CONFIG_FIELD_TYPES: Record<
+  keyof ValidatorConfig,
+  "number" | "boolean" | "string" | "array"
+> = {
+  pollInterval: "number",
+  minFieldsForProcess: "number",
+  autoValidate: "boolean",
+  enableKeyboardShortcut: "boolean",
+  maxRetries: "number",
+  debounceDelay: "number",
+  glossary: "array",
+  dictionary: "array",
+  validationMode: "string",
+  stopOnFirstError: "boolean",
+  maxErrorsPerField: "number",
+  priorityTierSize: "number",
+  activePreset: "string",
+}
+
+/**
+ * @class
+ * @description Exports and imports team naming standards as JSON presets
+ *
+ * A preset bundles the complete ruleset with the `ValidatorConfig` in a
+ * versioned document, so one developer can configure the extension and the
+ * rest of the team can import the same standard. Imports are validated
+ * against the preset schema, compared with the current settings and then
+ * either merged into them or replace them.
+ *
+ * @example
+ * ```typescript
+ * const presets = new PresetManager(configStore, ruleStore);
+ * const preset = presets.parse(fileContents);
+ * const diff = presets.diff(preset, current);
+ * const settings = await presets.apply(preset, current, "merge");
+ * ```
+ */
+export class PresetManager {
+  /** Compiler used to validate imported rule definitions */
+  private readonly compiler = new RuleCompiler()
+
+  /**
+   * Creates a new `PresetManager` instance
+   *
+   * @param configStore - Store the imported configuration is saved to
+   * @param ruleStore - Store the imported ruleset is saved to
+   */
+  constructor(
+    private readonly configStore: ConfigStore,
+    private readonly ruleStore: RuleStore
+  ) {}
+
+  /**
+   * Builds a preset document from a set of settings
+   *
+   * @param settings - Configuration and ruleset to export
+   * @param name - Optional display name of the standard
+   * @returns Preset ready to be serialized with `JSON.stringify`
+   */
+  create(settings: ValidatorSettings, name?: string): RulePreset {
+    const preset: RulePreset = {
+      format: PRESET_FORMAT,
+      version: PRESET_VERSION,
+      exportedAt: new Date().toISOString(),
+      config: { ...settings.config },
+      rules: settings.rules.map((definition) => ({ ...definition })),
+    }
+
+    if (name) {
+      preset.name = name
+    }
+
+    return preset
+  }
+
+  /**
+   * Parses and validates a preset document
+   *
+   * @param input - JSON text, or an already parsed object
+   * @returns The validated preset
+   * @throws Error listing every schema problem found
+   */
+  parse(input: string | unknown): RulePreset {
+    let document: unknown = input
+    if (typeof input === "string") {
+      try {
+        document = JSON.parse(input)
+      } catch {
+        throw new Error("Invalid preset: not valid JSON")
+      }
+    }
+
+    const errors = this.validate(document)
+    if (errors.length > 0) {
+      throw new Error(`Invalid preset: ${errors.join(", ")}`)
+    }
+
+    return document as RulePreset
+  }
+
+  /**
+   * Validates a document against the preset schema without importing it
+   *
+   * @param document - Parsed JSON document
+   * @returns List of problems found (empty if the document is a valid preset)
+   */
+  validate(document: unknown): string[] {
+    if (!this.isObject(document)) {
+      return ["preset must be a JSON object"]
+    }
+
+    const errors: string[] = []
+
+    if (document["format"] !== PRESET_FORMAT) {
+      errors.push(`format must be "${PRESET_FORMAT}"`)
+    }
+
+    const version = document["version"]
+    if (typeof version !== "number" || !Number.isInteger(version)) {
+      errors.push("version must be an integer")
+    } else if (version < 1 || version > PRESET_VERSION) {
+      errors.push(
+        `version ${version} is not supported (latest is ${PRESET_VERSION})`
+      )
+    }
+
+    for (const key of ["name", "exportedAt", "extends"]) {
+      const value = document[key]
+      if (value !== undefined && typeof value !== "string") {
+        errors.push(`${key} must be a string`)
+      }
+    }
+
+    const config = document["config"]
+    if (!this.isObject(config)) {
+      errors.push("config must be an object")
+    } else {
+      errors.push(...this.validateConfig(config))
+    }
+
+    const rules = document["rules"]
+    if (!Array.isArray(rules)) {
+      errors.push("rules must be an array")
+    } else {
+      errors.push(
+        ...this.validateRules(rules, document["extends"] !== undefined)
+      )
+    }
+
+    return errors
+  }
+
+  /**
+   * Compares a preset with the current settings
+   *
+   * @param preset - Validated preset
+   * @param current - Settings currently in use
+   * @returns Settings and rules the import would add, change or remove
+   */
+  diff(preset: RulePreset, current: ValidatorSettings): PresetDiff {
+    const config: ConfigChange[] = []
+    for (const [key, incoming] of Object.entries(preset.config)) {
+      const configKey = key as keyof ValidatorConfig
+      const value = current.config[configKey]
+      if (this.serialize(value) !== this.serialize(incoming)) {
+        config.push({ key: configKey, current: value, incoming })
+      }
+    }
+
+    const currentRules = new Map(current.rules.map((r) => [r.name, r]))
+    const incomingNames = new Set(preset.rules.map((r) => r.name))
+
+    return {
+      config,
+      addedRules: preset.rules
+        .filter((rule) => !currentRules.has(rule.name))
+        .map((rule) => rule.name),
+      changedRules: preset.rules
+        .filter((rule) => {
+          const existing = currentRules.get(rule.name)
+          return !!existing && this.serialize(existing) !== this.serialize(rule)
+        })
+        .map((rule) => rule.name),
+      removedRules: current.rules
+        .filter((rule) => !incomingNames.has(rule.name))
+        .map((rule) => rule.name),
+    }
+  }
+
+  /**
+   * Combines a preset with the current settings without saving
+   *
+   * Merging overrides settings and rules present in the preset, adds new
+   * rules after the current ones, merges glossary terms by abbreviation and
+   * adds team dictionary words. Replacing keeps only the preset, with
+   * defaults for settings it omits.
+   *
+   * @param preset - Validated preset
+   * @param current - Settings currently in use
+   * @param mode - Whether to merge into or replace the current settings
+   * @returns The resulting settings
+   * @throws Error if the preset extends another preset; such presets only
+   * make sense as a layer and must be stored with `PresetStore` instead
+   */
+  resolve(
+    preset: RulePreset,
+    current: ValidatorSettings,
+    mode: PresetImportMode
+  ): ValidatorSettings {
+    if (preset.extends !== undefined) {
+      throw new Error(
+        `Preset extends "${preset.extends}" and can only be stored as a layer`
+      )
+    }
+
+    const definitions = preset.rules as RuleDefinition[]
+    if (mode === "replace") {
+      return {
+        config: { ...DEFAULT_CONFIG, ...preset.config },
+        rules: definitions.map((definition) => ({ ...definition })),
+      }
+    }
+
+    const config: ValidatorConfig = { ...current.config, ...preset.config }
+    if (preset.config.glossary) {
+      config.glossary = this.mergeGlossaries(
+        current.config.glossary,
+        preset.config.glossary
+      )
+    }
+    if (preset.config.dictionary) {
+      config.dictionary = this.mergeDictionaries(
+        current.config.dictionary,
+        preset.config.dictionary
+      )
+    }
+
+    const incoming = new Map(definitions.map((r) => [r.name, r]))
+    const currentNames = new Set(current.rules.map((r) => r.name))
+    const rules = [
+      ...current.rules.map((rule) => ({
+        ...(incoming.get(rule.name) ?? rule),
+      })),
+      ...definitions
+        .filter((rule) => !currentNames.has(rule.name))
+        .map((rule) => ({ ...rule })),
+    ]
+
+    return { config, rules }
+  }
+
+  /**
+   * Combines a preset with the current settings and saves the result
+   *
+   * The resulting configuration is validated before either store is
+   * written, so a rejected import changes nothing.
+   *
+   * @param preset - Validated preset
+   * @param current - Settings currently in use
+   * @param mode - Whether to merge into or replace the current settings
+   * @returns Promise resolving to the saved settings
+   * @throws Error if the managed policy enforces the rules, or the resulting
+   * settings fail store validation
+   */
+  async apply(
+    preset: RulePreset,
+    current: ValidatorSettings,
+    mode: PresetImportMode
+  ): Promise<ValidatorSettings> {
+    if (this.configStore.getPolicy().rules) {
+      throw new Error(MANAGED_RULES_MESSAGE)
+    }
+
+    const settings = this.resolve(preset, current, mode)
+    this.configStore.validateConfig(settings.config)
+
+    await this.ruleStore.save(settings.rules)
+    await this.configStore.save(settings.config)
+
+    logger.info(
+      `Imported preset${preset.name ? ` "${preset.name}"` : ""} (${mode})`
+    )
+    return settings
+  }
+
+  // Helper methods
+
+  /**
+   * Validates the settings of a preset's `config` object
+   *
+   * @private
+   */
+  private validateConfig(config: Record<string, unknown>): string[] {
+    const errors: string[] = []
+
+    for (const [key, value] of Object.entries(config)) {
+      const expected = CONFIG_FIELD_TYPES[key as keyof ValidatorConfig]
+      if (!expected) {
+        errors.push(`config.${key} is not a known setting`)
+        continue
+      }
+
+      const actual = Array.isArray(value) ? "array" : typeof value
+      if (actual !== expected) {
+        errors.push(`config.${key} must be a ${expected}`)
+      } else if (expected === "number" && !Number.isFinite(value)) {
+        errors.push(`config.${key} must be a finite number`)
+      }
+    }
+
+    const mode = config["validationMode"]
+    if (typeof mode === "string" && !(mode in EXECUTION_STRATEGIES)) {
+      errors.push(`config.validationMode "${mode}" is not a known mode`)
+    }
+
+    const glossary = config["glossary"]
+    if (Array.isArray(glossary)) {
+      glossary.forEach((term, index) => {
+        if (!this.isGlossaryTerm(term)) {
+          errors.push(
+            `config.glossary[${index}] needs an abbreviation, an expansion ` +
+              `and a status of "approved" or "banned"`
+          )
+        }
+      })
+    }
+
+    const dictionary = config["dictionary"]
+    if (
+      Array.isArray(dictionary) &&
+      dictionary.some((word) => typeof word !== "string")
+    ) {
+      errors.push("config.dictionary must only contain strings")
+    }
+
+    return errors
+  }
+
+  /**
+   * Validates every rule definition of a preset
+   *
+   * Rules of a preset that extends another may be partial overrides, so
+   * they are only fully checked once layered (see `ValidationRules`).
+   *
+   * @private
+   */
+  private validateRules(rules: unknown[], isOverride: boolean): string[] {
+    const errors: string[] = []
+    const names = new Set<string>()
+
+    rules.forEach((rule, index) => {
+      if (!this.isObject(rule) || typeof rule["name"] !== "string") {
+        errors.push(`rules[${index}] must be an object with a name`)
+        return
+      }
+
+      const definition = rule as unknown as RuleDefinition
+      if (!isOverride) {
+        for (const problem of this.compiler.validate(definition)) {
+          errors.push(`rule "${definition.name}": ${problem}`)
+        }
+      }
+
+      if (names.has(definition.name)) {
+        errors.push(`rule "${definition.name}" is defined more than once`)
+      }
+      names.add(definition.name)
+    })
+
+    return errors
+  }
+
+  /**
+   * Merges glossary terms by abbreviation, preferring incoming terms
+   *
+   * @private
+   */
+  private mergeGlossaries(
+    current: GlossaryTerm[],
+    incoming: GlossaryTerm[]
+  ): GlossaryTerm[] {
+    const terms = new Map<string, GlossaryTerm>()
+    for (const term of [...current, ...incoming]) {
+      terms.set(term.abbreviation.toLowerCase(), { ...term })
+    }
+
+    return Array.from(terms.values())
+  }
+
+  /**
+   * Adds incoming dictionary words not already present, ignoring case
+   *
+   * @private
+   */
+  private mergeDictionaries(current: string[], incoming: string[]): string[] {
+    const known = new Set(current.map((word) => word.toLowerCase()))
+    return [
+      ...current,
+      ...incoming.filter((word) => !known.has(word.toLowerCase())),
+    ]
+  }
+
+  /**
+   * Serializes a value with object keys sorted, for order-insensitive
+   * comparison
+   *
+   * @private
+   */
+  private serialize(value: unknown): string {
+    return JSON.stringify(value, (_key, nested: unknown) =>
+      this.isObject(nested)
+        ? Object.fromEntries(
+            Object.entries(nested).sort(([a], [b]) => a.localeCompare(b))
+          )
+        : nested
+    )
+  }
+
+  /**
+   * Checks the shape of an imported glossary term
+   *
+   * @private
+   */
+  private isGlossaryTerm(term: unknown): boolean {
+    return (
+      this.isObject(term) &&
+      typeof term["abbreviation"] === "string" &&
+      typeof term["expansion"] === "string" &&
+      (term["status"] === "approved" || term["status"] === "banned") &&
+      (term["replacement"] === undefined ||
+        typeof term["replacement"] === "string")
+    )
+  }
+
+  /**
+   * Checks for a plain JSON object (not an array or `null`)
+   *
+   * @private
+   */
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+  }
+}
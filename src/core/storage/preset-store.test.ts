@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { ValidationRules } from "@/core/validation/engine/validation-rules"
+import { RulePreset } from "@/shared/types/validation"
+import { installChrome } from "@/test/chrome"
+import { fixture } from "@/test/fixtures"
+import { PRESET_FORMAT, PRESET_VERSION } from "./preset-manager"
+import { PresetStore } from "./preset-store"
+import { StorageManager } from "./storage-manager"
+
+const preset = fixture<RulePreset>({
+  format: PRESET_FORMAT,
+  version: PRESET_VERSION,
+  config: {},
+  rules: [],
+})
+
+const corporate = preset({
+  name: "Corporate",
+  rules: [
+    { name: "no-spaces", message: "No spaces", forbiddenSubstrings: [" "] },
+    { name: "max-length", message: "Too long", maxLength: 50 },
+  ],
+})
+
+const project = preset({
+  name: "Project",
+  extends: "Corporate",
+  rules: [{ name: "max-length", maxLength: 40 }],
+})
+
+const team = preset({
+  name: "Team",
+  extends: "Project",
+  rules: [{ name: "no-spaces", enabled: false }],
+})
+
+describe("PresetStore", () => {
+  let store: PresetStore
+
+  beforeEach(async () => {
+    installChrome()
+    store = new PresetStore(new StorageManager())
+    await store.save(corporate)
+    await store.save(project)
+    await store.save(team)
+  })
+
+  it("resolves the extends chain root first", async () => {
+    expect(await store.resolveLayers("Team")).toEqual([
+      { name: "Corporate", rules: corporate.rules },
+      { name: "Project", rules: project.rules },
+      { name: "Team", rules: team.rules },
+    ])
+  })
+
+  it("merges the chain with loadLayers", async () => {
+    const rules = new ValidationRules()
+    const conflicts = rules.loadLayers(await store.resolveLayers("Team"))
+
+    expect(conflicts.map((conflict) => conflict.kind)).toEqual([
+      "overridden",
+      "disabled",
+    ])
+    expect(rules.getOrigins("max-length")).toEqual(["Corporate", "Project"])
+    expect(rules.getOrigins("no-spaces")).toEqual(["Corporate", "Team"])
+    expect(rules.get("no-spaces")?.enabled).toBe(false)
+  })
+
+  it("rejects chains with a missing base or a loop", async () => {
+    await expect(
+      store.save(preset({ name: "Orphan", extends: "Missing" }))
+    ).rejects.toThrow('Preset "Missing" is not stored')
+    await expect(store.save({ ...corporate, extends: "Team" })).rejects.toThrow(
+      'Preset "Corporate" extends itself'
+    )
+    expect(await store.resolveLayers("Corporate")).toHaveLength(1)
+  })
+
+  it("keeps presets that others extend", async () => {
+    await expect(store.remove("Project")).rejects.toThrow(
+      'Preset "Team" extends "Project"'
+    )
+    expect(await store.remove("Team")).toBe(true)
+    expect(await store.remove("Team")).toBe(false)
+    expect((await store.list()).map((p) => p.name)).toEqual([
+      "Corporate",
+      "Project",
+    ])
+  })
+})
@@ -0,0 +1,166 @@
+import { RuleLayer, RulePreset } from "@/shared/types/validation"
+import logger from "@/shared/utils/logger"
+import { StorageManager } from "./storage-manager"
+
+/**
+ * @class
+ * @description Stores named presets that other presets can extend
+ *
+ * A project preset declares `extends: "<name>"` on a stored base preset
+ * (e.g. the corporate standard) and only lists the rules it overrides,
+ * disables or adds. `resolveLayers` follows the `extends` chain so the
+ * layers can be merged by `ValidationRules.loadLayers`.
+ *
+ * @example
+ * ```typescript
+ * await presetStore.save(corporatePreset);
+ * await presetStore.save({ ...projectPreset, extends: "Corporate" });
+ * const layers = await presetStore.resolveLayers("Project");
+ * validatorEngine.loadRuleLayers(layers);
+ * ```
+ */
+export class PresetStore {
+  /** `StorageManager` instance for persistent preset storage */
+  private readonly storage: StorageManager
+
+  /** Key used to store presets, keyed by name, in persistent storage */
+  private readonly presetsKey = "presets"
+
+  /**
+   * Creates a new `PresetStore` instance
+   *
+   * @param storage - `StorageManager` instance for persistent storage operations
+   */
+  constructor(storage: StorageManager) {
+    this.storage = storage
+  }
+
+  /**
+   * Lists every stored preset
+   *
+   * @returns Promise resolving to the stored presets, sorted by name
+   */
+  async list(): Promise<RulePreset[]> {
+    const presets = await this.loadAll()
+    return Object.values(presets).sort((a, b) =>
+      (a.name ?? "").localeCompare(b.name ?? "")
+    )
+  }
+
+  /**
+   * Gets a stored preset by name
+   *
+   * @returns Promise resolving to the preset, or `null` if none is stored
+   */
+  async get(name: string): Promise<RulePreset | null> {
+    const presets = await this.loadAll()
+    return presets[name] ?? null
+  }
+
+  /**
+   * Stores a preset under its name, replacing any preset with the same name
+   *
+   * @param preset - Validated preset with a name
+   * @returns Promise that resolves when save is complete
+   * @throws Error if the preset has no name, or its `extends` chain refers to
+   * a preset that is not stored or loops back on itself
+   */
+  async save(preset: RulePreset): Promise<void> {
+    if (!preset.name) {
+      throw new Error("Only named presets can be stored")
+    }
+
+    const presets = { ...(await this.loadAll()), [preset.name]: preset }
+    this.buildChain(preset.name, presets)
+
+    await this.storage.set(this.presetsKey, presets)
+    logger.info(`Stored preset "${preset.name}"`)
+  }
+
+  /**
+   * Removes a stored preset
+   *
+   * @returns Promise resolving to true if the preset was removed
+   * @throws Error if another stored preset extends it
+   */
+  async remove(name: string): Promise<boolean> {
+    const presets = await this.loadAll()
+    if (!presets[name]) {
+      return false
+    }
+
+    const dependent = Object.values(presets).find((p) => p.extends === name)
+    if (dependent) {
+      throw new Error(`Preset "${dependent.name}" extends "${name}"`)
+    }
+
+    delete presets[name]
+    await this.storage.set(this.presetsKey, presets)
+    logger.info(`Removed preset "${name}"`)
+    return true
+  }
+
+  /**
+   * Gets the rule layers of a stored preset, from the root of its `extends`
+   * chain up to the preset itself
+   *
+   * @param name - Name of the stored preset
+   * @returns Promise resolving to one layer per preset in the chain
+   * @throws Error if a preset in the chain is not stored or the chain loops
+   */
+  async resolveLayers(name: string): Promise<RuleLayer[]> {
+    const presets = await this.loadAll()
+
+    return this.buildChain(name, presets).map((preset) => ({
+      name: preset.name ?? "",
+      rules: preset.rules,
+    }))
+  }
+
+  // Helper methods
+
+  /**
+   * Loads every stored preset, keyed by name
+   *
+   * @private
+   */
+  private async loadAll(): Promise<Record<string, RulePreset>> {
+    const presets = await this.storage.get<Record<string, RulePreset>>(
+      this.presetsKey
+    )
+    return presets ?? {}
+  }
+
+  /**
+   * Follows the `extends` chain of a preset
+   *
+   * @returns Presets of the chain, root first
+   * @throws Error if a preset in the chain is missing or the chain loops
+   * @private
+   */
+  private buildChain(
+    name: string,
+    presets: Record<string, RulePreset>
+  ): RulePreset[] {
+    const chain: RulePreset[] = []
+    const visited = new Set<string>()
+    let current: string | undefined = name
+
+    while (current !== undefined) {
+      if (visited.has(current)) {
+        throw new Error(`Preset "${current}" extends itself`)
+      }
+      visited.add(current)
+
+      const preset: RulePreset | undefined = presets[current]
+      if (!preset) {
+        throw new Error(`Preset "${current}" is not stored`)
+      }
+
+      chain.unshift(preset)
+      current = preset.extends
+    }
+
+    return chain
+  }
+}
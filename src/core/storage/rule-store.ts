@@ -0,0 +1,127 @@
+import { DEFAULT_RULE_DEFINITIONS } from "@/shared/config/rule-defaults"
+import { RuleDefinition } from "@/shared/types/validation"
+import logger from "@/shared/utils/logger"
+import { RuleCompiler } from "../validation/engine/rule-compiler"
+import { StorageManager } from "./storage-manager"
+
+/**
+ * @class
+ * @description Manages persistence of declarative validation rules
+ *
+ * Stores the active ruleset as JSON-serializable `RuleDefinition` objects so
+ * teams can change their naming standard without rebuilding the extension.
+ * Falls back to the bundled default rules when nothing has been saved.
+ */
+export class RuleStore {
+  /** `StorageManager` instance for persistent rule storage */
+  private readonly storage: StorageManager
+
+  /** Key used to store rule definitions in persistent storage */
+  private readonly rulesKey = "rules"
+
+  /** Compiler used to validate definitions before they are saved */
+  private readonly compiler = new RuleCompiler()
+
+  /**
+   * Creates a new `RuleStore` instance
+   *
+   * @param storage - `StorageManager` instance for persistent storage operations
+   */
+  constructor(storage: StorageManager) {
+    this.storage = storage
+  }
+
+  /**
+   * Loads rule definitions from storage
+   *
+   * @returns Promise resolving to the stored definitions, or the defaults
+   * @throws Will not throw but will fall back to defaults on error
+   */
+  async load(): Promise<RuleDefinition[]> {
+    try {
+      const saved = await this.storage.get<RuleDefinition[]>(this.rulesKey)
+
+      if (saved && Array.isArray(saved)) {
+        logger.info(`Loaded ${saved.length} rule definitions from storage`)
+        return saved
+      }
+
+      logger.info("Using default rule definitions")
+      return this.getDefaults()
+    } catch (error) {
+      logger.error(
+        "Failed to load rule definitions, using defaults:",
+        error as Error
+      )
+
+      return this.getDefaults()
+    }
+  }
+
+  /**
+   * Saves rule definitions to storage after validation
+   *
+   * @param definitions - Complete list of rule definitions to persist
+   * @returns Promise that resolves when save is complete
+   * @throws Error if any definition is invalid or the save operation fails
+   */
+  async save(definitions: RuleDefinition[]): Promise<void> {
+    try {
+      this.validateDefinitions(definitions)
+
+      await this.storage.set(this.rulesKey, definitions)
+      logger.info("Rule definitions saved successfully")
+    } catch (error) {
+      logger.error("Failed to save rule definitions:", error as Error)
+      throw error
+    }
+  }
+
+  /**
+   * Removes stored definitions so the bundled defaults apply again
+   *
+   * @returns Promise resolving to the default definitions
+   */
+  async reset(): Promise<RuleDefinition[]> {
+    await this.storage.remove(this.rulesKey)
+
+    logger.info("Rule definitions reset to defaults")
+    return this.getDefaults()
+  }
+
+  /**
+   * Gets a copy of the bundled default definitions
+   *
+   * @returns Default rule definitions (cloned to prevent mutation)
+   */
+  getDefaults(): RuleDefinition[] {
+    return DEFAULT_RULE_DEFINITIONS.map((definition) => ({ ...definition }))
+  }
+
+  /**
+   * Validates every definition and throws if any are invalid
+   *
+   * @param definitions - Definitions to validate
+   * @throws Error with descriptive message if validation fails
+   * @private
+   */
+  private validateDefinitions(definitions: RuleDefinition[]): void {
+    const errors: string[] = []
+    const names = new Set<string>()
+
+    for (const definition of definitions) {
+      for (const problem of this.compiler.validate(definition)) {
+        errors.push(`${definition.name || "(unnamed)"}: ${problem}`)
+      }
+
+      if (names.has(definition.name)) {
+        errors.push(`${definition.name}: duplicate rule name`)
+      }
+      names.add(definition.name)
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Rule validation failed: ${errors.join(", ")}`)
+    }
+  }
+}
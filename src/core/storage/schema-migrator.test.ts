@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { FakeChrome, installChrome } from "@/test/chrome"
+import { Migration, SCHEMA_VERSIONS } from "./migrations"
+import { SchemaMigrator } from "./schema-migrator"
+import { StorageManager } from "./storage-manager"
+
+const RULES_KEY = "iics-validator:rules"
+const VERSIONS_KEY = "iics-validator:schema-versions"
+
+function append(version: number, item: string): Migration {
+  return {
+    key: "rules",
+    version,
+    description: `add ${item}`,
+    migrate: (value) => [...(value as string[]), item],
+  }
+}
+
+describe("SchemaMigrator", () => {
+  let fake: FakeChrome
+
+  beforeEach(() => {
+    fake = installChrome()
+  })
+
+  function migrate(migrations: Migration[]) {
+    return new SchemaMigrator(new StorageManager(), migrations).run()
+  }
+
+  it("runs pending migrations in version order and records the versions", async () => {
+    fake.sync.items[RULES_KEY] = ["stored"]
+
+    const results = await migrate([append(2, "v2"), append(1, "v1")])
+
+    expect(fake.sync.items[RULES_KEY]).toEqual(["stored", "v1", "v2"])
+    expect(results.find((result) => result.key === "rules")).toEqual({
+      key: "rules",
+      from: 0,
+      to: 2,
+      applied: ["add v1", "add v2"],
+    })
+    expect(fake.sync.items[VERSIONS_KEY]).toEqual(SCHEMA_VERSIONS)
+    expect(await migrate([append(2, "v2"), append(1, "v1")])).toEqual([])
+  })
+
+  it("only runs the migrations above the stored version", async () => {
+    fake.sync.items[RULES_KEY] = ["stored"]
+    fake.sync.items[VERSIONS_KEY] = { rules: 1 }
+
+    await migrate([append(1, "v1"), append(2, "v2")])
+
+    expect(fake.sync.items[RULES_KEY]).toEqual(["stored", "v2"])
+  })
+
+  it("stamps items without a stored value or a migration", async () => {
+    const results = await migrate([append(1, "v1")])
+
+    expect(results.map((result) => [result.key, result.to])).toEqual(
+      Object.entries(SCHEMA_VERSIONS)
+    )
+    expect(results.every((result) => result.applied.length === 0)).toBe(true)
+    expect(fake.sync.items[RULES_KEY]).toBeUndefined()
+  })
+
+  it("keeps items whose migration fails at their version", async () => {
+    fake.sync.items[RULES_KEY] = ["stored"]
+    const failing: Migration = {
+      ...append(2, "v2"),
+      migrate: () => {
+        throw new Error("unexpected format")
+      },
+    }
+
+    const results = await migrate([append(1, "v1"), failing])
+
+    expect(results.find((result) => result.key === "rules")).toEqual({
+      key: "rules",
+      from: 0,
+      to: 0,
+      applied: [],
+      error: "unexpected format",
+    })
+    expect(fake.sync.items[RULES_KEY]).toEqual(["stored"])
+    expect(fake.sync.items[VERSIONS_KEY]).not.toHaveProperty("rules")
+  })
+
+  it("leaves items written by a newer version untouched", async () => {
+    fake.sync.items[RULES_KEY] = ["newer"]
+    fake.sync.items[VERSIONS_KEY] = { rules: 3 }
+
+    const results = await migrate([append(1, "v1")])
+
+    expect(results.find((result) => result.key === "rules")?.error).toBe(
+      "stored with newer schema version 3"
+    )
+    expect(fake.sync.items[RULES_KEY]).toEqual(["newer"])
+    expect(fake.sync.items[VERSIONS_KEY]).toMatchObject({ rules: 3 })
+  })
+
+  it("moves legacy keys into the item and removes them", async () => {
+    fake.sync.items["legacyRules"] = ["legacy"]
+
+    await migrate([
+      {
+        key: "rules",
+        version: 1,
+        description: "move legacy rules",
+        legacyKey: "legacyRules",
+        migrate: (value, legacyValue) => value ?? legacyValue,
+      },
+    ])
+
+    expect(fake.sync.items[RULES_KEY]).toEqual(["legacy"])
+    expect(fake.sync.items).not.toHaveProperty("legacyRules")
+  })
+})
@@ -0,0 +1,201 @@
+import logger from "@/shared/utils/logger"
+import {
+  MIGRATIONS,
+  Migration,
+  SCHEMA_VERSIONS,
+  SCHEMA_VERSIONS_KEY,
+} from "./migrations"
+import { StorageManager } from "./storage-manager"
+
+/**
+ * @interface
+ * @description Outcome of migrating one persisted item
+ */
+export interface MigrationResult {
+  /** Storage key of the item */
+  key: string
+
+  /** Schema version the item was stored with */
+  from: number
+
+  /** Schema version the item has now */
+  to: number
+
+  /** Descriptions of the migrations that ran */
+  applied: string[]
+
+  /** Why the item was left untouched, if it was */
+  error?: string
+}
+
+/**
+ * @class
+ * @description Upgrades persisted items to the current schema
+ *
+ * Reads the schema version of every item in `SCHEMA_VERSIONS`, runs the
+ * pending `MIGRATIONS` in order and records the new versions. An item is
+ * only written once all of its migrations succeeded; when one fails, or the
+ * item was written by a newer extension version, it is left untouched and
+ * keeps its version so nothing is lost. Legacy keys read by a migration are
+ * removed once the item was written.
+ *
+ * @example
+ * ```typescript
+ * const migrator = new SchemaMigrator(new StorageManager());
+ * const results = await migrator.run();
+ * ```
+ */
+export class SchemaMigrator {
+  /** `StorageManager` instance holding the persisted items */
+  private readonly storage: StorageManager
+
+  /** Registered migrations */
+  private readonly migrations: readonly Migration[]
+
+  /**
+   * Creates a new `SchemaMigrator` instance
+   *
+   * @param storage - `StorageManager` instance for persistent storage operations
+   * @param migrations - Migrations to apply (default: `MIGRATIONS`)
+   */
+  constructor(
+    storage: StorageManager,
+    migrations: readonly Migration[] = MIGRATIONS
+  ) {
+    this.storage = storage
+    this.migrations = migrations
+  }
+
+  /**
+   * Migrates every persisted item to its current schema version
+   *
+   * @returns Promise resolving to one result per item that was not already
+   * current
+   * @throws Error if the stored items cannot be read or written
+   */
+  async run(): Promise<MigrationResult[]> {
+    const data = await this.storage.getAll()
+    const versions = this.readVersions(data[SCHEMA_VERSIONS_KEY])
+    const results: MigrationResult[] = []
+
+    for (const [key, target] of Object.entries(SCHEMA_VERSIONS)) {
+      const from = versions[key] ?? 0
+      if (from === target) continue
+
+      const result = await this.migrateItem(key, data[key], from, target)
+      if (!result.error) {
+        versions[key] = result.to
+      }
+
+      results.push(result)
+    }
+
+    await this.storage.set(SCHEMA_VERSIONS_KEY, versions)
+    return results
+  }
+
+  /**
+   * Gets the schema version every item is stored with
+   *
+   * @returns Promise resolving to versions keyed by storage key; items stored
+   * before schema versioning are missing
+   */
+  async getVersions(): Promise<Record<string, number>> {
+    return this.readVersions(await this.storage.get(SCHEMA_VERSIONS_KEY))
+  }
+
+  // Helper methods
+
+  /**
+   * Runs the pending migrations of one item and stores the upgraded value
+   *
+   * @private
+   */
+  private async migrateItem(
+    key: string,
+    value: unknown,
+    from: number,
+    target: number
+  ): Promise<MigrationResult> {
+    const result: MigrationResult = { key, from, to: from, applied: [] }
+
+    if (from > target) {
+      result.error = `stored with newer schema version ${from}`
+      logger.warn(
+        `Leaving "${key}" untouched: schema version ${from} is newer than ${target}`
+      )
+      return result
+    }
+
+    const pending = this.migrations
+      .filter((m) => m.key === key && m.version > from && m.version <= target)
+      .sort((a, b) => a.version - b.version)
+
+    const legacy = new Map<string, unknown>()
+    for (const { legacyKey } of pending) {
+      if (!legacyKey) continue
+
+      const legacyValue = await this.storage.getLegacy(legacyKey)
+      if (legacyValue !== null) {
+        legacy.set(legacyKey, legacyValue)
+      }
+    }
+
+    if (value === undefined && legacy.size === 0) {
+      result.to = target
+      return result
+    }
+
+    let migrated: unknown = value
+    try {
+      for (const migration of pending) {
+        if (migrated === undefined && !migration.legacyKey) continue
+
+        migrated = migration.migrate(
+          migrated,
+          migration.legacyKey ? legacy.get(migration.legacyKey) : undefined
+        )
+        result.applied.push(migration.description)
+      }
+    } catch (error) {
+      result.error = (error as Error).message
+      result.applied = []
+      logger.error(`Failed to migrate "${key}", keeping it:`, error as Error)
+      return result
+    }
+
+    if (pending.length > 0) {
+      await this.storage.set(key, migrated)
+      for (const description of result.applied) {
+        logger.info(`Migrated "${key}": ${description}`)
+      }
+    }
+
+    for (const legacyKey of legacy.keys()) {
+      await this.storage.removeLegacy(legacyKey)
+    }
+
+    result.to = target
+    return result
+  }
+
+  /**
+   * Reads the stored version map, ignoring malformed entries
+   *
+   * @private
+   */
+  private readVersions(stored: unknown): Record<string, number> {
+    const versions: Record<string, number> = {}
+    if (typeof stored !== "object" || stored === null) {
+      return versions
+    }
+
+    for (const [key, version] of Object.entries(stored)) {
+      if (Number.isInteger(version)) {
+        versions[key] = version as number
+      }
+    }
+
+    return versions
+  }
+}
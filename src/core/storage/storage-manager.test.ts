@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { FakeChrome, installChrome } from "@/test/chrome"
+import { StorageManager } from "./storage-manager"
+
+describe("StorageManager", () => {
+  let fake: FakeChrome
+  let storage: StorageManager
+
+  beforeEach(() => {
+    fake = installChrome({ "iics-validator:theme": "light" })
+    storage = new StorageManager()
+  })
+
+  it("reads namespaced keys and caches them", async () => {
+    expect(await storage.get("theme")).toBe("light")
+
+    fake.sync.items["iics-validator:theme"] = "dark"
+    expect(await storage.get("theme")).toBe("light")
+  })
+
+  it("drops cached keys written by another context", async () => {
+    await storage.get("theme")
+
+    await new StorageManager().set("theme", "dark")
+    expect(await storage.get("theme")).toBe("dark")
+  })
+
+  it("stops listening for changes once destroyed", async () => {
+    await storage.get("theme")
+    storage.destroy()
+    await storage.get("theme")
+
+    await new StorageManager().set("theme", "dark")
+    expect(await storage.get("theme")).toBe("light")
+  })
+})
@@ -30,7 +30,8 @@ export interface StorageAdapter {
  *
  * Provides a unified interface for persistent storage with error handling,
  * logging, and type safety. Implements namespacing to prevent key collisions
- * and includes caching for improved performance.
+ * and includes caching for improved performance; cached keys changed by other
+ * extension contexts are invalidated.
  */
 export class StorageManager implements StorageAdapter {
   /** Chrome storage sync API instance */
@@ -42,6 +43,16 @@ export class StorageManager implements StorageAdapter {
   /** In-memory cache for frequently accessed data to reduce storage reads */
   private cache = new Map<string, unknown>()
 
+  /** Invalidates cached keys changed by other extension contexts */
+  private readonly changeListener = (
+    changes: Record<string, chrome.storage.StorageChange>,
+    areaName: string
+  ): void => {
+    if (areaName === "sync") {
+      this.invalidate(Object.keys(changes))
+    }
+  }
+
   /**
    * Creates a new `StorageManager` instance
    *
@@ -50,6 +61,19 @@ export class StorageManager implements StorageAdapter {
   constructor(namespace: string = "iics-validator") {
     this.namespace = namespace
     this.storage = chrome.storage.sync
+
+    chrome.storage.onChanged?.addListener(this.changeListener)
+  }
+
+  /**
+   * Stops listening for storage changes and clears the cache
+   *
+   * Should be called when the manager is no longer needed, so the
+   * `chrome.storage.onChanged` listener does not keep it alive.
+   */
+  destroy(): void {
+    chrome.storage.onChanged?.removeListener(this.changeListener)
+    this.cache.clear()
   }
 
   /**
@@ -204,6 +228,75 @@ export class StorageManager implements StorageAdapter {
     }
   }
 
+  /**
+   * Calls a listener whenever a key is changed, from any extension context
+   *
+   * @param key - The storage key to watch
+   * @param listener - Receives the new value, or `null` once removed
+   * @returns Function that stops watching
+   */
+  watch<T>(key: string, listener: (value: T | null) => void): () => void {
+    const fullKey = this.getNamespacedKey(key)
+    const handler = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string
+    ): void => {
+      const change = changes[fullKey]
+      if (areaName === "sync" && change) {
+        listener((change.newValue as T | undefined) ?? null)
+      }
+    }
+
+    chrome.storage.onChanged.addListener(handler)
+    return () => chrome.storage.onChanged.removeListener(handler)
+  }
+
+  /**
+   * Retrieves a value stored outside the namespace, e.g. by an older version
+   * of the extension
+   *
+   * @param key - The storage key, used as is
+   * @returns Promise resolving to the stored value or `null` if not found
+   * @throws Error if storage read operation fails
+   */
+  async getLegacy<T>(key: string): Promise<T | null> {
+    try {
+      const result = await this.storage.get([key])
+      return (result[key] as T | undefined) ?? null
+    } catch (error) {
+      logger.error(`Failed to get legacy storage key: ${key}: `, error as Error)
+      throw new Error(
+        `Storage read error: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+    }
+  }
+
+  /**
+   * Removes a value stored outside the namespace
+   *
+   * @param key - The storage key, used as is
+   * @returns Promise that resolves when the key is removed
+   * @throws Error if storage remove operation fails
+   */
+  async removeLegacy(key: string): Promise<void> {
+    try {
+      await this.storage.remove(key)
+      logger.debug(`Legacy storage removed: ${key}`)
+    } catch (error) {
+      logger.error(
+        `Failed to remove legacy storage key "${key}":`,
+        error as Error
+      )
+      throw new Error(
+        `Storage remove error: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+    }
+  }
+
   /**
    * Gets storage usage information for this namespace
    *
@@ -234,4 +327,20 @@ export class StorageManager implements StorageAdapter {
   private getNamespacedKey(key: string): string {
     return `${this.namespace}:${key}`
   }
+
+  /**
+   * Drops cached values of keys written elsewhere (another extension page or
+   * the service worker), so the next read returns what is stored
+   *
+   * @param fullKeys - Changed storage keys, including the namespace
+   * @private
+   */
+  private invalidate(fullKeys: string[]): void {
+    const namespacePrefix = `${this.namespace}:`
+    for (const fullKey of fullKeys) {
+      if (fullKey.startsWith(namespacePrefix)) {
+        this.cache.delete(fullKey.slice(namespacePrefix.length))
+      }
+    }
+  }
 }
@@ -193,6 +193,21 @@ export class ContainerDetector {
     this.updateActiveContainer()
   }
 
+  /**
+   * Applies configuration changes to the current detection state
+   *
+   * The configuration object is shared and already updated; a new
+   * `minFieldsForProcess` threshold re-detects the context of the active
+   * container right away.
+   *
+   * @param changes - Settings that changed
+   */
+  public applyConfig(changes: Partial<ValidatorConfig>): void {
+    if (changes.minFieldsForProcess !== undefined) {
+      this.detectContext()
+    }
+  }
+
   /**
    * Clean up resources and stops all monitoring
    *
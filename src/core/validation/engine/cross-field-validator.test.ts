@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest"
+import { NamedField } from "@/shared/types/validation"
+import { CrossFieldValidator } from "./cross-field-validator"
+
+function fields(...values: string[]): NamedField[] {
+  return values.map((value, index) => ({ fieldId: `f${index + 1}`, value }))
+}
+
+function rulesOf(violations: Map<string, { rule: string }[]>, fieldId: string) {
+  return (violations.get(fieldId) ?? []).map((violation) => violation.rule)
+}
+
+describe("CrossFieldValidator", () => {
+  const validator = new CrossFieldValidator()
+
+  it("links exact duplicates to each other", () => {
+    const violations = validator.validate(fields("OrderId", "OrderId", "Total"))
+
+    expect(violations.get("f1")).toEqual([
+      {
+        rule: "duplicate-name",
+        message: "Name is already used by another field",
+        severity: "error",
+        relatedFieldIds: ["f2"],
+      },
+    ])
+    expect(violations.get("f2")?.[0]?.relatedFieldIds).toEqual(["f1"])
+    expect(violations.has("f3")).toBe(false)
+  })
+
+  it("reports names that differ only by case", () => {
+    const violations = validator.validate(fields("CustomerId", "CustomerID"))
+
+    expect(rulesOf(violations, "f1")).toEqual(["case-collision"])
+    expect(rulesOf(violations, "f2")).toEqual(["case-collision"])
+  })
+
+  it("only links case collisions to names spelled differently", () => {
+    const violations = validator.validate(
+      fields("OrderId", "OrderId", "OrderID")
+    )
+
+    expect(rulesOf(violations, "f1")).toEqual([
+      "duplicate-name",
+      "case-collision",
+    ])
+    expect(violations.get("f1")?.[1]?.relatedFieldIds).toEqual(["f3"])
+    expect(violations.get("f2")?.[1]?.relatedFieldIds).toEqual(["f3"])
+    expect(rulesOf(violations, "f3")).toEqual(["case-collision"])
+    expect(violations.get("f3")?.[0]?.relatedFieldIds).toEqual(["f1", "f2"])
+    expect(
+      rulesOf(
+        validator.validate(fields("OrderId", "OrderId", "OrderID"), "f2"),
+        "f1"
+      )
+    ).toEqual(["duplicate-name"])
+  })
+
+  it("warns about names one edit apart", () => {
+    const violations = validator.validate(
+      fields("CustomerName", "CustomerNme", "Customer_Name")
+    )
+
+    expect(rulesOf(violations, "f1")).toEqual(["near-duplicate"])
+    expect(violations.get("f1")?.[0]).toMatchObject({
+      severity: "warning",
+      relatedFieldIds: ["f2", "f3"],
+    })
+  })
+
+  it("allows numbered names, short names and empty fields", () => {
+    expect(
+      validator.validate(fields("AddressLine1", "AddressLine2", "Id", "Ix", ""))
+        .size
+    ).toBe(0)
+    expect(validator.validate(fields("", "")).size).toBe(0)
+  })
+
+  it("only checks collisions involving the focus field", () => {
+    const named = fields("OrderId", "OrderId", "Total", "Total")
+    const violations = validator.validate(named, "f1")
+
+    expect([...violations.keys()]).toEqual(["f1", "f2"])
+    expect(
+      validator.validate(named, "f3").get("f4")?.[0]?.relatedFieldIds
+    ).toEqual(["f3"])
+  })
+
+  it("returns nothing for a missing or empty focus field", () => {
+    expect(validator.validate(fields("A", "A"), "f9").size).toBe(0)
+    expect(validator.validate(fields("", "A", "A"), "f1").size).toBe(0)
+  })
+
+  it("runs added rules and stops running removed ones", () => {
+    const custom = new CrossFieldValidator()
+    custom.add({
+      name: "same-length",
+      message: "Same length",
+      severity: "info",
+      findCollisions: (named) =>
+        named.length > 1 ? [named.map((field) => field.fieldId)] : [],
+    })
+
+    expect(rulesOf(custom.validate(fields("Abcd", "Wxyz")), "f1")).toEqual([
+      "same-length",
+    ])
+    expect(custom.remove("same-length")).toBe(true)
+    expect(custom.remove("same-length")).toBe(false)
+    expect(custom.validate(fields("Abcd", "Wxyz")).size).toBe(0)
+  })
+})
@@ -0,0 +1,302 @@
+import {
+  CrossFieldRule,
+  NamedField,
+  RuleViolation,
+} from "@/shared/types/validation"
+import logger from "@/shared/utils/logger"
+
+/**
+ * Shortest normalized name checked for near-duplicates, so that short names
+ * such as `Id` and `Ix` are not reported as typos of each other
+ */
+const MIN_NEAR_DUPLICATE_LENGTH = 4
+
+/**
+ * Trailing digits of a name, ignored by near-duplicate comparison so that
+ * numbered sequences such as `AddressLine1` and `AddressLine2` are allowed
+ */
+const NUMERIC_SUFFIX = /\d+$/
+
+/**
+ * @class CrossFieldValidator
+ * @description Runs set-based rules across all fields of a container
+ *
+ * Per-field rules only see one value at a time, so name collisions between
+ * fields are checked here: exact duplicates, names that differ only by case
+ * (`CustomerId` vs `CustomerID`) and near-duplicates (`CustomerName` vs
+ * `CustomerNme`). Every field involved in a collision gets a violation whose
+ * `relatedFieldIds` link it to the other fields.
+ *
+ * @example
+ * ```typescript
+ * const validator = new CrossFieldValidator();
+ * const violations = validator.validate([
+ *   { fieldId: "ae_sf_1", value: "CustomerId" },
+ *   { fieldId: "ae_sf_2", value: "CustomerID" },
+ * ]);
+ * violations.get("ae_sf_1"); // [{ rule: "case-collision", relatedFieldIds: ["ae_sf_2"], ... }]
+ * ```
+ */
+export class CrossFieldValidator {
+  private rules: CrossFieldRule[] = []
+
+  constructor() {
+    this.initializeDefaultRules()
+  }
+
+  /**
+   * Gets all cross-field rules
+   */
+  getAll(): CrossFieldRule[] {
+    return [...this.rules]
+  }
+
+  /**
+   * Adds or updates a cross-field rule
+   */
+  add(rule: CrossFieldRule): void {
+    const existingIndex = this.rules.findIndex((r) => r.name === rule.name)
+
+    if (existingIndex >= 0) {
+      this.rules[existingIndex] = rule
+      logger.info(`Updated cross-field rule: ${rule.name}`)
+    } else {
+      this.rules.push(rule)
+      logger.info(`Added cross-field rule: ${rule.name}`)
+    }
+  }
+
+  /**
+   * Removes a cross-field rule by name
+   */
+  remove(name: string): boolean {
+    const index = this.rules.findIndex((rule) => rule.name === name)
+
+    if (index >= 0) {
+      this.rules.splice(index, 1)
+      logger.info(`Removed cross-field rule: ${name}`)
+      return true
+    }
+
+    return false
+  }
+
+  /**
+   * Runs every cross-field rule over a set of fields
+   *
+   * Empty fields are ignored; they are already reported by `not-empty`.
+   * With a `focusFieldId`, only collisions involving that field are checked,
+   * which keeps re-validating one edited field linear in the field count;
+   * the other fields' entries then only list their collisions with it.
+   *
+   * @param fields - Fields of the container, with trimmed values
+   * @param focusFieldId - Field whose collisions to check, if not all
+   * @returns Violations keyed by field ID, for fields with collisions only
+   */
+  validate(
+    fields: NamedField[],
+    focusFieldId?: string
+  ): Map<string, RuleViolation[]> {
+    const named = fields.filter((field) => field.value.length > 0)
+    const violations = new Map<string, RuleViolation[]>()
+    const focus =
+      focusFieldId === undefined
+        ? undefined
+        : named.find((field) => field.fieldId === focusFieldId)
+
+    if (focusFieldId !== undefined && !focus) {
+      return violations
+    }
+
+    for (const rule of this.rules) {
+      const groups = rule
+        .findCollisions(named, focus)
+        .filter((group) => !focus || group.includes(focus.fieldId))
+
+      for (const group of groups) {
+        for (const fieldId of group) {
+          const related = group.filter((id) => id !== fieldId)
+          const fieldViolations = violations.get(fieldId) ?? []
+          const existing = fieldViolations.find((v) => v.rule === rule.name)
+
+          if (existing) {
+            existing.relatedFieldIds = [
+              ...new Set([...(existing.relatedFieldIds ?? []), ...related]),
+            ]
+          } else {
+            fieldViolations.push({
+              rule: rule.name,
+              message: rule.message,
+              severity: rule.severity ?? "error",
+              relatedFieldIds: related,
+            })
+          }
+
+          violations.set(fieldId, fieldViolations)
+        }
+      }
+    }
+
+    return violations
+  }
+
+  // Helper methods
+
+  /**
+   * Groups fields by a key, keeping only groups of more than one field
+   *
+   * @private
+   */
+  private groupBy(
+    fields: NamedField[],
+    key: (field: NamedField) => string
+  ): NamedField[][] {
+    const groups = new Map<string, NamedField[]>()
+    for (const field of fields) {
+      const groupKey = key(field)
+      groups.set(groupKey, [...(groups.get(groupKey) ?? []), field])
+    }
+
+    return Array.from(groups.values()).filter((group) => group.length > 1)
+  }
+
+  /**
+   * Pairs up the fields of a group whose names are spelled differently, so
+   * exact duplicates within the group are not linked to each other
+   *
+   * @private
+   */
+  private pairsWithDifferentSpelling(group: NamedField[]): string[][] {
+    const pairs: string[][] = []
+    group.forEach((a, i) => {
+      for (const b of group.slice(i + 1)) {
+        if (a.value !== b.value) {
+          pairs.push([a.fieldId, b.fieldId])
+        }
+      }
+    })
+
+    return pairs
+  }
+
+  /**
+   * Checks whether two strings differ by at most one insertion, deletion or
+   * substitution
+   *
+   * @private
+   */
+  private isWithinOneEdit(a: string, b: string): boolean {
+    if (Math.abs(a.length - b.length) > 1) {
+      return false
+    }
+
+    const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a]
+    let i = 0
+    let j = 0
+    let edits = 0
+
+    while (i < shorter.length && j < longer.length) {
+      if (shorter[i] === longer[j]) {
+        i++
+        j++
+        continue
+      }
+
+      if (++edits > 1) {
+        return false
+      }
+
+      if (shorter.length === longer.length) {
+        i++
+      }
+      j++
+    }
+
+    return edits + (longer.length - j) <= 1
+  }
+
+  /**
+   * Checks whether two names are near-duplicates: equal once normalized, or
+   * one edit apart without being numbered variants of the same name
+   *
+   * @private
+   */
+  private isNearDuplicate(a: NamedField, b: NamedField): boolean {
+    if (a.value.toLowerCase() === b.value.toLowerCase()) {
+      return false
+    }
+
+    const normalizedA = this.normalize(a.value)
+    const normalizedB = this.normalize(b.value)
+    if (normalizedA === normalizedB) {
+      return true
+    }
+
+    return (
+      Math.min(normalizedA.length, normalizedB.length) >=
+        MIN_NEAR_DUPLICATE_LENGTH &&
+      normalizedA.replace(NUMERIC_SUFFIX, "") !==
+        normalizedB.replace(NUMERIC_SUFFIX, "") &&
+      this.isWithinOneEdit(normalizedA, normalizedB)
+    )
+  }
+
+  /**
+   * Normalizes a name for near-duplicate comparison
+   *
+   * @private
+   */
+  private normalize(value: string): string {
+    return value.toLowerCase().replace(/_/g, "")
+  }
+
+  private initializeDefaultRules(): void {
+    this.rules = [
+      {
+        name: "duplicate-name",
+        message: "Name is already used by another field",
+        findCollisions: (fields) =>
+          this.groupBy(fields, (field) => field.value).map((group) =>
+            group.map((field) => field.fieldId)
+          ),
+      },
+      {
+        name: "case-collision",
+        message: "Name differs from another field only by case",
+        findCollisions: (fields) =>
+          this.groupBy(fields, (field) => field.value.toLowerCase()).flatMap(
+            (group) => this.pairsWithDifferentSpelling(group)
+          ),
+      },
+      {
+        name: "near-duplicate",
+        message: "Name is very similar to another field",
+        severity: "warning",
+        findCollisions: (fields, focus) => {
+          if (focus) {
+            return fields
+              .filter(
+                (field) =>
+                  field.fieldId !== focus.fieldId &&
+                  this.isNearDuplicate(focus, field)
+              )
+              .map((field) => [focus.fieldId, field.fieldId])
+          }
+
+          const pairs: string[][] = []
+          for (let i = 0; i < fields.length; i++) {
+            for (let j = i + 1; j < fields.length; j++) {
+              const a = fields[i]
+              const b = fields[j]
+              if (a && b && this.isNearDuplicate(a, b)) {
+                pairs.push([a.fieldId, b.fieldId])
+              }
+            }
+          }
+
+          return pairs
+        },
+      },
+    ]
+  }
+}
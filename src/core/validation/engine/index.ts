@@ -1,11 +1,19 @@
 export { ValidatorEngine } from "./validator-engine"
 export { ValidationRules } from "./validation-rules"
 export { RuleExecutor } from "./rule-executor"
+export { RuleCompiler } from "./rule-compiler"
+export { CrossFieldValidator } from "./cross-field-validator"
 export { ResultProcessor, type ValidationResult } from "./validation-result"
-export type { ValidatorEngineConfig, ValidationContext } from "./types"
+export type {
+  ExecutionStrategy,
+  ValidatorEngineConfig,
+  ValidationContext,
+} from "./types"
 
 // Re-export shared types for convenience
 export type {
   ValidationRule,
+  RuleDefinition,
   FieldData,
+  NameInput,
 } from "../../../shared/types/validation"
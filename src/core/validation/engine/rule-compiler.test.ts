@@ -0,0 +1,249 @@
+import { describe, expect, it } from "vitest"
+import { RESERVED_WORD_PACK } from "@/shared/config/reserved-words"
+import { RuleDefinition } from "@/shared/types/validation"
+import { fixture, validationContext } from "@/test/fixtures"
+import { RuleCompiler } from "./rule-compiler"
+
+const context = validationContext()
+
+const definition = fixture<RuleDefinition>({
+  name: "test-rule",
+  message: "Test message",
+})
+
+function compile(overrides: Partial<RuleDefinition>) {
+  return new RuleCompiler().compile(definition(overrides))
+}
+
+describe("RuleCompiler.validate", () => {
+  const compiler = new RuleCompiler()
+
+  it("accepts a definition with one constraint", () => {
+    expect(
+      compiler.validate({ name: "r", message: "m", pattern: "^[A-Z]" })
+    ).toEqual([])
+  })
+
+  it("requires a name, a message and a constraint", () => {
+    expect(
+      compiler.validate({ name: "", message: "" } as RuleDefinition)
+    ).toEqual(["name is required", "message is required"])
+    expect(compiler.validate({ name: "r", message: "m" })).toEqual([
+      "at least one constraint is required",
+    ])
+  })
+
+  it("reports invalid regular expressions and unknown values", () => {
+    expect(
+      compiler.validate({
+        name: "r",
+        message: "m",
+        pattern: "[",
+        severity: "fatal",
+        casing: "kebab-case",
+        allowedCharacters: ["emoji"],
+        reservedWords: ["cobol"],
+        reservedWordScope: "some",
+      } as unknown as RuleDefinition)
+    ).toEqual([
+      'unknown severity "fatal"',
+      "pattern is not a valid regular expression",
+      'unknown casing convention "kebab-case"',
+      'unknown reserved-word technology "cobol"',
+      'unknown reserved-word scope "some"',
+      'unknown character class "emoji"',
+    ])
+  })
+
+  it("rejects fractional, negative and inverted lengths", () => {
+    expect(
+      compiler.validate({ name: "r", message: "m", maxLength: 2.5 })
+    ).toEqual(["maxLength must be a non-negative integer"])
+    expect(
+      compiler.validate({ name: "r", message: "m", minLength: -1 })
+    ).toEqual(["minLength must be a non-negative integer"])
+    expect(
+      compiler.validate({ name: "r", message: "m", minLength: 5, maxLength: 3 })
+    ).toEqual(["minLength cannot exceed maxLength"])
+  })
+
+  it("requires lists of non-empty strings", () => {
+    expect(
+      compiler.validate({
+        name: "r",
+        message: "m",
+        forbiddenSubstrings: [" ", 5, ""],
+        stepTypes: "assignment",
+        categories: ["input", null],
+        pageTypes: 3,
+        prefix: ["tmp", 1],
+      } as unknown as RuleDefinition)
+    ).toEqual([
+      "forbiddenSubstrings must be a list of strings",
+      "categories must be a list of strings",
+      "stepTypes must be a list of strings",
+      "pageTypes must be a list of strings",
+      "forbiddenSubstrings cannot contain an empty string",
+      "prefix must be a string or a list of strings",
+    ])
+  })
+
+  it("requires the parameters of fixers that need them", () => {
+    expect(
+      compiler.validate({
+        name: "r",
+        message: "m",
+        pattern: ".",
+        fix: "convert-casing",
+      })
+    ).toEqual(['fixer "convert-casing" requires casing'])
+  })
+})
+
+describe("RuleCompiler.compile", () => {
+  it("throws on invalid definitions", () => {
+    expect(() => compile({})).toThrow(
+      'Invalid rule definition "test-rule": at least one constraint is required'
+    )
+  })
+
+  it("copies priority, severity and message", () => {
+    const rule = compile({ pattern: ".", priority: 5, severity: "warning" })
+
+    expect(rule).toMatchObject({
+      name: "test-rule",
+      message: "Test message",
+      priority: 5,
+      severity: "warning",
+    })
+  })
+
+  it("requires every constraint to pass", () => {
+    const rule = compile({ prefix: ["Is", "Has"], maxLength: 8 })
+
+    expect(rule.check("IsActive")).toBe(true)
+    expect(rule.check("HasOrders")).toBe(false)
+    expect(rule.check("Active")).toBe(false)
+  })
+
+  it("matches whole names against allowed characters", () => {
+    const rule = compile({ allowedCharacters: ["upper", "lower", "digit"] })
+
+    expect(rule.check("Order2")).toBe(true)
+    expect(rule.check("Order_2")).toBe(false)
+    expect(rule.check("")).toBe(false)
+    expect(rule.locate?.("Order 2")).toEqual({ start: 5, end: 6 })
+  })
+
+  it("locates forbidden patterns, substrings and excess length", () => {
+    expect(
+      compile({ forbiddenPattern: "_{2,}", flags: "g" }).locate?.("A__B")
+    ).toEqual({ start: 1, end: 3 })
+    expect(
+      compile({ forbiddenSubstrings: ["Temp"] }).locate?.("MyTempValue")
+    ).toEqual({ start: 2, end: 6 })
+    expect(compile({ maxLength: 4 }).locate?.("Customer")).toEqual({
+      start: 4,
+      end: 8,
+    })
+  })
+
+  it("gives the same result for repeated checks with global flags", () => {
+    const rule = compile({ pattern: "^[A-Z]", flags: "g" })
+
+    expect(rule.check("Name")).toBe(true)
+    expect(rule.check("Name")).toBe(true)
+  })
+
+  it("checks reserved words by scope and names the pack version", () => {
+    const keywords = compile({
+      reservedWords: ["sql"],
+      reservedWordScope: "keywords",
+    })
+    const common = compile({
+      reservedWords: ["sql"],
+      reservedWordScope: "common",
+    })
+
+    expect(keywords.check("Select")).toBe(false)
+    expect(keywords.check("Date")).toBe(true)
+    expect(common.check("Date")).toBe(false)
+    expect(common.check("Select")).toBe(true)
+    expect(keywords.explain?.("Select")).toBe(
+      `"Select" is a reserved word in SQL (reserved words v${RESERVED_WORD_PACK.version})`
+    )
+  })
+
+  it("matches reserved words case-sensitively when asked", () => {
+    const rule = compile({ reservedWords: ["sql"], caseSensitive: true })
+
+    expect(rule.check("SELECT")).toBe(true)
+    expect(rule.check("select")).toBe(false)
+  })
+
+  it("flags banned abbreviations with the current glossary", () => {
+    const compiler = new RuleCompiler()
+    const rule = compiler.compile({
+      name: "glossary",
+      message: "Use approved abbreviations",
+      glossary: true,
+      fix: "replace-abbreviations",
+    })
+
+    expect(rule.check("OrderNum")).toBe(false)
+    expect(rule.locate?.("OrderNum")).toEqual({ start: 5, end: 8 })
+    expect(rule.fix?.("OrderNum")).toBe("OrderNbr")
+
+    compiler.setGlossary([])
+    expect(rule.check("OrderNum")).toBe(true)
+  })
+
+  it("flags abbreviations missing from the glossary", () => {
+    const rule = compile({ unapprovedAbbreviations: true })
+
+    expect(rule.check("CustAmt")).toBe(true)
+    expect(rule.check("CustomerId")).toBe(true)
+    expect(rule.check("SrcSystem")).toBe(false)
+    expect(rule.explain?.("SrcSystem")).toBe(
+      '"Src" is not an approved abbreviation'
+    )
+  })
+
+  it("accepts team dictionary words in spelling checks", () => {
+    const compiler = new RuleCompiler()
+    const rule = compiler.compile({
+      name: "spelling",
+      message: "Check spelling",
+      spelling: true,
+    })
+
+    expect(rule.check("Zorblax")).toBe(false)
+    compiler.setTeamDictionary(["zorblax"])
+    expect(rule.check("Zorblax")).toBe(true)
+  })
+
+  it("limits rules to the scopes in the definition", () => {
+    const rule = compile({ pattern: ".", categories: ["temp"] })
+
+    expect(rule.appliesTo?.(context)).toBe(false)
+    expect(rule.appliesTo?.({ ...context, category: "temp" })).toBe(true)
+    expect(compile({ pattern: "." }).appliesTo).toBeUndefined()
+  })
+
+  it("builds fixers from the definition's parameters", () => {
+    expect(compile({ maxLength: 4, fix: "truncate" }).fix?.("Customer")).toBe(
+      "Cust"
+    )
+    expect(
+      compile({
+        allowedCharacters: ["upper", "lower"],
+        fix: "strip-invalid-characters",
+      }).fix?.("Order_Nbr 2")
+    ).toBe("OrderNbr")
+    expect(
+      compile({ casing: "snake_case", fix: "convert-casing" }).fix?.(
+        "OrderDate"
+      )
+    ).toBe("order_date")
+  })
+})
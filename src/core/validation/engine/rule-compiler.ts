@@ -0,0 +1,694 @@
+import {
+  CasingConvention,
+  CharacterClass,
+  FieldCategory,
+  FieldDataType,
+  GlossaryTerm,
+  PageType,
+  ReservedWordScope,
+  ReservedWordTechnology,
+  RuleDefinition,
+  RuleFixer,
+  RuleSeverity,
+  RuleSpan,
+  ValidationContext,
+  ValidationRule,
+} from "@/shared/types/validation"
+import { DEFAULT_GLOSSARY } from "@/shared/config/glossary-defaults"
+import { RESERVED_WORD_PACK } from "@/shared/config/reserved-words"
+import { SPELLING_DICTIONARY } from "@/shared/config/spelling-dictionary"
+import { Glossary } from "@/shared/utils/glossary"
+import { NameTokenizer } from "@/shared/utils/name-tokenizer"
+import { SpellChecker } from "@/shared/utils/spell-checker"
+
+/**
+ * A single compiled check, optionally able to locate the offending characters
+ * and to explain a failure in value-specific terms
+ */
+interface Constraint {
+  check: (value: string) => boolean
+  locate?: (value: string) => RuleSpan | null
+  explain?: (value: string) => string
+}
+
+/**
+ * Severities accepted in declarative definitions
+ */
+const RULE_SEVERITIES: RuleSeverity[] = ["error", "warning", "info"]
+
+/**
+ * Fixers accepted in declarative definitions
+ */
+const RULE_FIXERS: RuleFixer[] = [
+  "capitalize",
+  "join-words",
+  "strip-invalid-characters",
+  "truncate",
+  "trim-trailing-underscores",
+  "collapse-underscores",
+  "strip-leading-digits",
+  "convert-casing",
+  "replace-abbreviations",
+  "correct-spelling",
+]
+
+/**
+ * Reserved-word scopes accepted in declarative definitions
+ */
+const RESERVED_WORD_SCOPES: ReservedWordScope[] = ["all", "keywords", "common"]
+
+/**
+ * Casing conventions accepted in declarative definitions
+ */
+const CASING_CONVENTIONS: CasingConvention[] = [
+  "PascalCase",
+  "camelCase",
+  "snake_case",
+  "UPPER_SNAKE",
+]
+
+/**
+ * Field categories accepted in declarative definitions
+ */
+const FIELD_CATEGORIES: FieldCategory[] = [
+  "process",
+  "input",
+  "output",
+  "temp",
+  "other",
+]
+
+/**
+ * Page types accepted in declarative definitions
+ */
+const PAGE_TYPES: PageType[] = ["process", "guide", "connection", "unknown"]
+
+/**
+ * Field data types accepted in declarative definitions
+ */
+const FIELD_DATA_TYPES: FieldDataType[] = [
+  "text",
+  "boolean",
+  "integer",
+  "decimal",
+  "date",
+  "datetime",
+  "time",
+  "object",
+  "other",
+]
+
+/**
+ * Regular expression fragments for each declarative character class
+ */
+const CHARACTER_CLASS_PATTERNS: Record<CharacterClass, string> = {
+  upper: "A-Z",
+  lower: "a-z",
+  digit: "0-9",
+  underscore: "_",
+}
+
+/**
+ * Definition keys holding lists of strings
+ */
+const LIST_KEYS = [
+  "allowedCharacters",
+  "forbiddenSubstrings",
+  "reservedWords",
+  "categories",
+  "stepTypes",
+  "pageTypes",
+  "dataTypes",
+] as const
+
+/**
+ * @class
+ * @description Compiles declarative rule definitions into executable rules
+ *
+ * Turns JSON-serializable `RuleDefinition` objects into `ValidationRule`
+ * objects whose `check` function evaluates every constraint present in the
+ * definition, and whose `locate` function reports the character span of the
+ * first failing constraint where one can be determined. Regular expressions
+ * are built once at compile time.
+ *
+ * Glossary and spelling constraints read the compiler's current glossary and
+ * dictionary on every check, so `setGlossary` and `setTeamDictionary` take
+ * effect without recompiling.
+ */
+export class RuleCompiler {
+  private glossary = new Glossary(DEFAULT_GLOSSARY)
+  private teamDictionary: string[] = []
+  private spellChecker = this.buildSpellChecker()
+
+  /**
+   * Replaces the glossary used by `glossary` constraints and the
+   * `replace-abbreviations` fixer
+   *
+   * Glossary abbreviations are also accepted by `spelling` constraints.
+   *
+   * @param terms - Approved and banned abbreviations
+   */
+  setGlossary(terms: GlossaryTerm[]): void {
+    this.glossary = new Glossary(terms)
+    this.spellChecker = this.buildSpellChecker()
+  }
+
+  /**
+   * Replaces the team words accepted by `spelling` constraints in addition
+   * to the bundled dictionary
+   *
+   * @param words - Team-specific words, matched case-insensitively
+   */
+  setTeamDictionary(words: string[]): void {
+    this.teamDictionary = [...words]
+    this.spellChecker = this.buildSpellChecker()
+  }
+
+  /**
+   * Compiles a definition into a validation rule
+   *
+   * @param definition - Declarative rule definition
+   * @returns Validation rule with a compiled `check` function
+   * @throws Error if the definition is invalid
+   */
+  compile(definition: RuleDefinition): ValidationRule {
+    const errors = this.validate(definition)
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid rule definition "${definition.name}": ${errors.join(", ")}`
+      )
+    }
+
+    const constraints = this.buildConstraints(definition)
+    const rule: ValidationRule = {
+      name: definition.name,
+      message: definition.message,
+      check: (value: string) => constraints.every((c) => c.check(value)),
+      locate: (value: string) => {
+        const failed = constraints.find((c) => !c.check(value))
+        return failed?.locate?.(value) ?? null
+      },
+    }
+
+    if (constraints.some((c) => c.explain)) {
+      rule.explain = (value: string) => {
+        const failed = constraints.find((c) => !c.check(value))
+        return failed?.explain?.(value) ?? null
+      }
+    }
+
+    if (definition.priority !== undefined) {
+      rule.priority = definition.priority
+    }
+
+    if (definition.severity !== undefined) {
+      rule.severity = definition.severity
+    }
+
+    if (definition.fix !== undefined) {
+      rule.fix = this.buildFixer(definition.fix, definition)
+    }
+
+    const appliesTo = this.buildScope(definition)
+    if (appliesTo) {
+      rule.appliesTo = appliesTo
+    }
+
+    return rule
+  }
+
+  /**
+   * Validates the shape of a definition without compiling it
+   *
+   * @param definition - Declarative rule definition to validate
+   * @returns List of problems found (empty if the definition is valid)
+   */
+  validate(definition: RuleDefinition): string[] {
+    const errors: string[] = []
+
+    if (!definition.name || typeof definition.name !== "string") {
+      errors.push("name is required")
+    }
+
+    if (!definition.message || typeof definition.message !== "string") {
+      errors.push("message is required")
+    }
+
+    if (
+      definition.severity !== undefined &&
+      !RULE_SEVERITIES.includes(definition.severity)
+    ) {
+      errors.push(`unknown severity "${definition.severity}"`)
+    }
+
+    for (const key of ["pattern", "forbiddenPattern"] as const) {
+      const source = definition[key]
+      if (source !== undefined) {
+        try {
+          new RegExp(source, definition.flags)
+        } catch {
+          errors.push(`${key} is not a valid regular expression`)
+        }
+      }
+    }
+
+    for (const key of ["minLength", "maxLength"] as const) {
+      const length = definition[key]
+      if (length !== undefined && (!Number.isInteger(length) || length < 0)) {
+        errors.push(`${key} must be a non-negative integer`)
+      }
+    }
+
+    if (
+      definition.minLength !== undefined &&
+      definition.maxLength !== undefined &&
+      definition.minLength > definition.maxLength
+    ) {
+      errors.push("minLength cannot exceed maxLength")
+    }
+
+    for (const key of LIST_KEYS) {
+      const list: unknown = definition[key]
+      if (
+        list !== undefined &&
+        (!Array.isArray(list) || list.some((item) => typeof item !== "string"))
+      ) {
+        errors.push(`${key} must be a list of strings`)
+      }
+    }
+
+    if (this.listItems(definition.forbiddenSubstrings).includes("")) {
+      errors.push("forbiddenSubstrings cannot contain an empty string")
+    }
+
+    if (definition.fix !== undefined && !RULE_FIXERS.includes(definition.fix)) {
+      errors.push(`unknown fixer "${definition.fix}"`)
+    }
+
+    if (
+      definition.casing !== undefined &&
+      !CASING_CONVENTIONS.includes(definition.casing)
+    ) {
+      errors.push(`unknown casing convention "${definition.casing}"`)
+    }
+
+    if (definition.fix === "correct-spelling" && !definition.spelling) {
+      errors.push('fixer "correct-spelling" requires spelling')
+    }
+
+    if (
+      definition.fix === "convert-casing" &&
+      definition.casing === undefined
+    ) {
+      errors.push('fixer "convert-casing" requires casing')
+    }
+
+    for (const category of this.listItems(definition.categories)) {
+      if (!FIELD_CATEGORIES.includes(category)) {
+        errors.push(`unknown field category "${category}"`)
+      }
+    }
+
+    for (const pageType of this.listItems(definition.pageTypes)) {
+      if (!PAGE_TYPES.includes(pageType)) {
+        errors.push(`unknown page type "${pageType}"`)
+      }
+    }
+
+    for (const technology of this.listItems(definition.reservedWords)) {
+      if (!(technology in RESERVED_WORD_PACK.words)) {
+        errors.push(`unknown reserved-word technology "${technology}"`)
+      }
+    }
+
+    if (
+      definition.reservedWordScope !== undefined &&
+      !RESERVED_WORD_SCOPES.includes(definition.reservedWordScope)
+    ) {
+      errors.push(
+        `unknown reserved-word scope "${definition.reservedWordScope}"`
+      )
+    }
+
+    for (const dataType of this.listItems(definition.dataTypes)) {
+      if (!FIELD_DATA_TYPES.includes(dataType)) {
+        errors.push(`unknown data type "${dataType}"`)
+      }
+    }
+
+    for (const key of ["prefix", "suffix"] as const) {
+      const affix: unknown = definition[key]
+      if (Array.isArray(affix) && affix.length === 0) {
+        errors.push(`${key} list cannot be empty`)
+      } else if (
+        affix !== undefined &&
+        typeof affix !== "string" &&
+        !(
+          Array.isArray(affix) &&
+          affix.every((item) => typeof item === "string")
+        )
+      ) {
+        errors.push(`${key} must be a string or a list of strings`)
+      }
+    }
+
+    for (const charClass of this.listItems(definition.allowedCharacters)) {
+      if (!(charClass in CHARACTER_CLASS_PATTERNS)) {
+        errors.push(`unknown character class "${charClass}"`)
+      }
+    }
+
+    if (errors.length === 0 && this.buildConstraints(definition).length === 0) {
+      errors.push("at least one constraint is required")
+    }
+
+    return errors
+  }
+
+  /**
+   * Builds one constraint per check present in the definition
+   *
+   * @param definition - Declarative rule definition
+   * @returns Constraints that must all pass for a value to be valid
+   * @private
+   */
+  private buildConstraints(definition: RuleDefinition): Constraint[] {
+    const constraints: Constraint[] = []
+
+    if (definition.pattern !== undefined) {
+      const regex = new RegExp(definition.pattern, definition.flags)
+      constraints.push({ check: (value) => this.test(regex, value) })
+    }
+
+    if (definition.forbiddenPattern !== undefined) {
+      const regex = new RegExp(definition.forbiddenPattern, definition.flags)
+      constraints.push({
+        check: (value) => !this.test(regex, value),
+        locate: (value) => {
+          regex.lastIndex = 0
+          const match = regex.exec(value)
+          return match
+            ? { start: match.index, end: match.index + match[0].length }
+            : null
+        },
+      })
+    }
+
+    if (definition.minLength !== undefined) {
+      const minLength = definition.minLength
+      constraints.push({ check: (value) => value.length >= minLength })
+    }
+
+    if (definition.maxLength !== undefined) {
+      const maxLength = definition.maxLength
+      constraints.push({
+        check: (value) => value.length <= maxLength,
+        locate: (value) => ({ start: maxLength, end: value.length }),
+      })
+    }
+
+    if (definition.allowedCharacters && definition.allowedCharacters.length) {
+      const classes = definition.allowedCharacters
+        .map((charClass) => CHARACTER_CLASS_PATTERNS[charClass])
+        .join("")
+      const allowed = new RegExp(`^[${classes}]+$`)
+      const disallowed = new RegExp(`[^${classes}]`)
+      constraints.push({
+        check: (value) => allowed.test(value),
+        locate: (value) => {
+          const match = disallowed.exec(value)
+          return match ? { start: match.index, end: match.index + 1 } : null
+        },
+      })
+    }
+
+    if (definition.forbiddenSubstrings?.length) {
+      const substrings = definition.forbiddenSubstrings
+      constraints.push({
+        check: (value) => !substrings.some((s) => value.includes(s)),
+        locate: (value) => {
+          for (const substring of substrings) {
+            const index = value.indexOf(substring)
+            if (index >= 0) {
+              return { start: index, end: index + substring.length }
+            }
+          }
+          return null
+        },
+      })
+    }
+
+    if (definition.prefix !== undefined) {
+      const prefixes = ([] as string[]).concat(definition.prefix)
+      constraints.push({
+        check: (value) => prefixes.some((prefix) => value.startsWith(prefix)),
+      })
+    }
+
+    if (definition.suffix !== undefined) {
+      const suffixes = ([] as string[]).concat(definition.suffix)
+      constraints.push({
+        check: (value) => suffixes.some((suffix) => value.endsWith(suffix)),
+      })
+    }
+
+    if (definition.reservedWords?.length) {
+      const reservedBy = this.buildReservedWordIndex(
+        definition.reservedWords,
+        definition.caseSensitive ?? false,
+        definition.reservedWordScope ?? "all"
+      )
+      const key = (value: string) =>
+        definition.caseSensitive ? value : value.toLowerCase()
+
+      constraints.push({
+        check: (value) => !reservedBy.has(key(value)),
+        locate: (value) =>
+          reservedBy.has(key(value)) ? { start: 0, end: value.length } : null,
+        explain: (value) =>
+          `"${value}" is a reserved word in ${(reservedBy.get(key(value)) ?? [])
+            .map((technology) => RESERVED_WORD_PACK.labels[technology])
+            .join(", ")} (reserved words v${RESERVED_WORD_PACK.version})`,
+      })
+    }
+
+    if (definition.glossary) {
+      constraints.push({
+        check: (value) => this.glossary.findBanned(value).length === 0,
+        locate: (value) => {
+          const [match] = this.glossary.findBanned(value)
+          return match ? { start: match.start, end: match.end } : null
+        },
+        explain: (value) =>
+          this.glossary
+            .findBanned(value)
+            .map((match) => this.glossary.explain(match))
+            .join("; "),
+      })
+    }
+
+    if (definition.unapprovedAbbreviations) {
+      const findUnapproved = (value: string) =>
+        this.glossary.findUnapproved(value, (word) =>
+          this.spellChecker.isKnown(word)
+        )
+
+      constraints.push({
+        check: (value) => findUnapproved(value).length === 0,
+        locate: (value) => {
+          const [token] = findUnapproved(value)
+          return token ? { start: token.start, end: token.end } : null
+        },
+        explain: (value) =>
+          findUnapproved(value)
+            .map((token) => this.glossary.explainUnapproved(token))
+            .join("; "),
+      })
+    }
+
+    if (definition.spelling) {
+      constraints.push({
+        check: (value) => this.spellChecker.check(value).length === 0,
+        locate: (value) => {
+          const [issue] = this.spellChecker.check(value)
+          return issue ? { start: issue.start, end: issue.end } : null
+        },
+        explain: (value) =>
+          this.spellChecker
+            .check(value)
+            .map((issue) => this.spellChecker.explain(issue))
+            .join("; "),
+      })
+    }
+
+    if (definition.casing !== undefined) {
+      const casing = definition.casing
+      constraints.push({
+        check: (value) => NameTokenizer.matches(value, casing),
+      })
+    }
+
+    return constraints
+  }
+
+  /**
+   * Maps each reserved word to the technologies that reserve it
+   *
+   * @param technologies - Technologies whose word lists to include
+   * @param caseSensitive - Whether words keep their case as keys
+   * @param scope - Whether to include keywords, common words or both
+   * @returns Technologies reserving each word, keyed by word
+   * @private
+   */
+  private buildReservedWordIndex(
+    technologies: ReservedWordTechnology[],
+    caseSensitive: boolean,
+    scope: ReservedWordScope
+  ): Map<string, ReservedWordTechnology[]> {
+    const index = new Map<string, ReservedWordTechnology[]>()
+    const common = new Set(RESERVED_WORD_PACK.common)
+
+    for (const technology of technologies) {
+      for (const word of RESERVED_WORD_PACK.words[technology] ?? []) {
+        if (scope !== "all" && common.has(word) !== (scope === "common")) {
+          continue
+        }
+
+        const key = caseSensitive ? word : word.toLowerCase()
+        index.set(key, [...(index.get(key) ?? []), technology])
+      }
+    }
+
+    return index
+  }
+
+  /**
+   * Builds a spell checker accepting the bundled dictionary, the team
+   * dictionary and every glossary abbreviation
+   *
+   * @private
+   */
+  private buildSpellChecker(): SpellChecker {
+    return new SpellChecker([
+      ...SPELLING_DICTIONARY,
+      ...this.teamDictionary,
+      ...this.glossary.getTerms().map((term) => term.abbreviation),
+    ])
+  }
+
+  /**
+   * Builds the filter limiting which fields a rule runs on
+   *
+   * @param definition - Declarative rule definition
+   * @returns Filter matching every scope present in the definition, or
+   * `null` if the rule applies to all fields
+   * @private
+   */
+  private buildScope(
+    definition: RuleDefinition
+  ): ((context: ValidationContext) => boolean) | null {
+    const { categories, stepTypes, pageTypes, dataTypes } = definition
+    if (!categories && !stepTypes && !pageTypes && !dataTypes) {
+      return null
+    }
+
+    return (context) =>
+      (!categories || categories.includes(context.category)) &&
+      (!stepTypes ||
+        (context.stepType !== null && stepTypes.includes(context.stepType))) &&
+      (!pageTypes || pageTypes.includes(context.pageType)) &&
+      (!dataTypes ||
+        (context.dataType !== null && dataTypes.includes(context.dataType)))
+  }
+
+  /**
+   * Builds the fix function for a built-in fixer
+   *
+   * @param fixer - Name of the built-in fixer
+   * @param definition - Definition the fixer belongs to, for its parameters
+   * @returns Function returning a value that satisfies the rule
+   * @private
+   */
+  private buildFixer(
+    fixer: RuleFixer,
+    definition: RuleDefinition
+  ): (value: string) => string {
+    switch (fixer) {
+      case "capitalize":
+        return (value) => value.charAt(0).toUpperCase() + value.slice(1)
+
+      case "join-words":
+        return (value) =>
+          value
+            .trim()
+            .split(/\s+/)
+            .map((word, index) =>
+              index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)
+            )
+            .join("")
+
+      case "strip-invalid-characters": {
+        const classes = (
+          definition.allowedCharacters ?? [
+            "upper",
+            "lower",
+            "digit",
+            "underscore",
+          ]
+        )
+          .map((charClass) => CHARACTER_CLASS_PATTERNS[charClass])
+          .join("")
+        const disallowed = new RegExp(`[^${classes}]`, "g")
+        return (value) => value.replace(disallowed, "")
+      }
+
+      case "truncate": {
+        const maxLength = definition.maxLength
+        return (value) =>
+          maxLength === undefined ? value : value.slice(0, maxLength)
+      }
+
+      case "trim-trailing-underscores":
+        return (value) => value.replace(/_+$/, "")
+
+      case "collapse-underscores":
+        return (value) => value.replace(/_{2,}/g, "_")
+
+      case "strip-leading-digits":
+        return (value) => value.replace(/^[0-9]+/, "")
+
+      case "convert-casing": {
+        const casing = definition.casing ?? "PascalCase"
+        return (value) => NameTokenizer.convert(value, casing)
+      }
+
+      case "replace-abbreviations":
+        return (value) => this.glossary.replaceBanned(value)
+
+      case "correct-spelling":
+        return (value) => this.spellChecker.correct(value)
+    }
+  }
+
+  /**
+   * Gets the string items of a definition list, ignoring malformed lists
+   * and items that `validate` reports separately
+   *
+   * @private
+   */
+  private listItems<T extends string>(list: T[] | undefined): T[] {
+    return Array.isArray(list)
+      ? list.filter((item) => typeof item === "string")
+      : []
+  }
+
+  /**
+   * Tests a regular expression, resetting state for global/sticky flags
+   *
+   * @private
+   */
+  private test(regex: RegExp, value: string): boolean {
+    regex.lastIndex = 0
+    return regex.test(value)
+  }
+}
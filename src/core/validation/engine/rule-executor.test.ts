@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_CONFIG } from "@/shared/config/config-defaults"
+import { EXECUTION_STRATEGIES } from "@/shared/config/execution-strategies"
+import { ValidationRule } from "@/shared/types/validation"
+import { RuleExecutor } from "./rule-executor"
+
+const failing = (name: string, priority: number): ValidationRule => ({
+  name,
+  message: `${name} failed`,
+  priority,
+  check: () => false,
+})
+
+const rules: ValidationRule[] = [
+  failing("no-spaces", 1),
+  failing("alphanumeric", 2),
+  { ...failing("casing", 3), severity: "warning" },
+  failing("max-length", 4),
+  failing("glossary", 12),
+  failing("type-prefix", 25),
+]
+
+const executor = new RuleExecutor()
+
+function run(strategy = {}): string[] {
+  return executor
+    .executeRules("Order Date", rules, undefined, strategy)
+    .map((violation) => violation.rule)
+}
+
+describe("RuleExecutor", () => {
+  it("runs every rule without a strategy or in complete mode", () => {
+    const all = rules.map((rule) => rule.name)
+
+    expect(run()).toEqual(all)
+    expect(run(EXECUTION_STRATEGIES.complete(DEFAULT_CONFIG))).toEqual(all)
+  })
+
+  it("stops once a field has the maximum number of errors", () => {
+    expect(run({ maxErrorsPerField: 2 })).toEqual(["no-spaces", "alphanumeric"])
+    expect(run({ maxErrorsPerField: 3 })).toEqual([
+      "no-spaces",
+      "alphanumeric",
+      "casing",
+      "max-length",
+    ])
+    expect(run({ stopOnFirstError: true })).toEqual(["no-spaces"])
+  })
+
+  it("skips later priority tiers once a tier reported an error", () => {
+    expect(run({ priorityTierSize: 10 })).toEqual([
+      "no-spaces",
+      "alphanumeric",
+      "casing",
+      "max-length",
+    ])
+    expect(
+      executor
+        .executeRules("Order Date", rules.slice(2), undefined, {
+          priorityTierSize: 10,
+        })
+        .map((violation) => violation.rule)
+    ).toEqual(["casing", "max-length"])
+  })
+
+  it("keeps running tiers that only reported warnings", () => {
+    const warnings = rules.map((rule) => ({
+      ...rule,
+      severity: "info" as const,
+    }))
+
+    expect(
+      executor.executeRules("Order Date", warnings, undefined, {
+        priorityTierSize: 10,
+        maxErrorsPerField: 1,
+      })
+    ).toHaveLength(rules.length)
+  })
+
+  it("takes the fast mode options from the stored settings", () => {
+    expect(
+      run(
+        EXECUTION_STRATEGIES.fast({
+          ...DEFAULT_CONFIG,
+          maxErrorsPerField: 1,
+          priorityTierSize: 0,
+        })
+      )
+    ).toEqual(["no-spaces"])
+    expect(run(EXECUTION_STRATEGIES.fast(DEFAULT_CONFIG))).toEqual([
+      "no-spaces",
+      "alphanumeric",
+      "casing",
+      "max-length",
+    ])
+  })
+})
@@ -1,23 +1,69 @@
-import { ValidationRule } from "@/shared/types/validation"
+import {
+  ExecutionStrategy,
+  RuleViolation,
+  ValidationContext,
+  ValidationRule,
+} from "@/shared/types/validation"
 
 /**
  * @class
  * @description Executes validation rules with optimized error handling
+ *
+ * Rules are expected in priority order. The execution strategy can cut a run
+ * short: at the first error, after a number of errors, or after the first
+ * priority tier that reported an error. Without a strategy every rule runs.
  */
 export class RuleExecutor {
   /**
-   * Executes all rules against a field value
+   * Executes rules against a field value
+   *
+   * @param value - Trimmed field value
+   * @param rules - Rules to run, in priority order
+   * @param context - Where the field sits on the page
+   * @param strategy - When to stop running rules (defaults to never)
    */
-  executeRules(value: string, rules: ValidationRule[]): string[] {
-    const errors: string[] = []
+  executeRules(
+    value: string,
+    rules: ValidationRule[],
+    context?: ValidationContext,
+    strategy: ExecutionStrategy = {}
+  ): RuleViolation[] {
+    const {
+      stopOnFirstError = false,
+      maxErrorsPerField = Number.POSITIVE_INFINITY,
+      priorityTierSize = 0,
+    } = strategy
+    const violations: RuleViolation[] = []
+    let errorCount = 0
+    let tier: number | null = null
+    let tierHasError = false
 
     for (const rule of rules) {
-      if (!rule.check(value)) {
-        errors.push(rule.message)
+      const ruleTier = this.getTier(rule, priorityTierSize)
+      if (ruleTier !== tier) {
+        if (tierHasError) {
+          break
+        }
+        tier = ruleTier
+      }
+
+      if (rule.check(value, context)) {
+        continue
+      }
+
+      const violation = this.createViolation(value, rule)
+      violations.push(violation)
+
+      if (violation.severity === "error") {
+        errorCount++
+        tierHasError = true
+        if (stopOnFirstError || errorCount >= maxErrorsPerField) {
+          break
+        }
       }
     }
 
-    return errors
+    return violations
   }
 
   /**
@@ -26,19 +72,58 @@ export class RuleExecutor {
   executeRulesExcluding(
     value: string,
     rules: ValidationRule[],
-    excludedNames: string[]
-  ): string[] {
+    excludedNames: string[],
+    context?: ValidationContext,
+    strategy: ExecutionStrategy = {}
+  ): RuleViolation[] {
     const filteredRules = rules.filter(
       (rule) => !excludedNames.includes(rule.name)
     )
 
-    return this.executeRules(value, filteredRules)
+    return this.executeRules(value, filteredRules, context, strategy)
   }
 
   /**
    * Validates a single rule
    */
-  validateRule(value: string, rule: ValidationRule): boolean {
-    return rule.check(value)
+  validateRule(
+    value: string,
+    rule: ValidationRule,
+    context?: ValidationContext
+  ): boolean {
+    return rule.check(value, context)
+  }
+
+  /**
+   * Gets the priority tier of a rule; rules without a priority share the
+   * last tier
+   */
+  private getTier(rule: ValidationRule, tierSize: number): number {
+    if (tierSize <= 0) {
+      return 0
+    }
+
+    return Math.floor((rule.priority ?? Number.MAX_SAFE_INTEGER) / tierSize)
+  }
+
+  /**
+   * Builds a violation for a failed rule, including the offending span when
+   * the rule can locate it and a value-specific message when it can explain
+   * the failure
+   */
+  private createViolation(value: string, rule: ValidationRule): RuleViolation {
+    const violation: RuleViolation = {
+      rule: rule.name,
+      message: rule.explain?.(value) ?? rule.message,
+      severity: rule.severity ?? "error",
+    }
+
+    const span = rule.locate?.(value)
+    if (span) {
+      violation.start = span.start
+      violation.end = span.end
+    }
+
+    return violation
   }
 }
@@ -1,4 +1,12 @@
-import { ValidationRule as SharedValidationRule } from "@/shared/types/validation"
+import {
+  ExecutionStrategy,
+  ValidationRule as SharedValidationRule,
+} from "@/shared/types/validation"
+
+export type {
+  ExecutionStrategy,
+  ValidationContext,
+} from "@/shared/types/validation"
 
 /**
  * @interface
@@ -13,18 +21,6 @@ export interface ValidationRule extends SharedValidationRule {
  * @interface
  * @description Engine configuration options
  */
-export interface ValidatorEngineConfig {
+export interface ValidatorEngineConfig extends ExecutionStrategy {
   enableEmptyFieldOptimization?: boolean
-  stopOnFirstError?: boolean
-  maxErrorsPerField?: number
-}
-
-/**
- * @type
- * @description Validation context for rule execution
- */
-export type ValidationContext = {
-  fieldType?: string
-  isRequired?: boolean
-  customData?: Record<string, unknown>
 }
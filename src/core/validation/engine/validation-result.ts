@@ -1,4 +1,8 @@
-import { FieldData } from "@/shared/types/validation"
+import {
+  FieldData,
+  RuleSeverity,
+  RuleViolation,
+} from "@/shared/types/validation"
 
 /**
  * @interface
@@ -6,51 +10,83 @@ import { FieldData } from "@/shared/types/validation"
  */
 export interface ValidationResult {
   isValid: boolean
-  errors: string[]
+  errors: RuleViolation[]
+  suggestion?: string
   fieldId?: string
   timestamp?: number
 }
 
+/**
+ * Severities ordered from most to least severe
+ */
+const SEVERITY_ORDER: RuleSeverity[] = ["error", "warning", "info"]
+
 /**
  * @class
  * @description Processes and analyzes validation results
  */
 export class ResultProcessor {
   /**
-   * Creates a validation result object
+   * Creates a validation result object from rule violations
+   *
+   * Only `error` violations make the result invalid; warnings and info are
+   * carried along in `errors` without failing validation.
    */
-  createResult(isValid: boolean, errors: string[] = []): ValidationResult {
+  createResult(errors: RuleViolation[] = []): ValidationResult {
     return {
-      isValid,
+      isValid: !errors.some((violation) => violation.severity === "error"),
       errors,
       timestamp: Date.now(),
     }
   }
 
+  /**
+   * Gets the most severe level among violations
+   *
+   * @returns Highest severity, or `null` if there are no violations
+   */
+  getHighestSeverity(violations: RuleViolation[]): RuleSeverity | null {
+    for (const severity of SEVERITY_ORDER) {
+      if (violations.some((violation) => violation.severity === severity)) {
+        return severity
+      }
+    }
+
+    return null
+  }
+
   /**
    * Generates summary statistics from field data
+   *
+   * `errorsByType` counts invalid fields' violations by rule name.
    */
   generateSummary(fields: FieldData[]): {
     total: number
     valid: number
     invalid: number
+    warnings: number
     errorsByType: Record<string, number>
   } {
     const summary = {
       total: fields.length,
       valid: 0,
       invalid: 0,
+      warnings: 0,
       errorsByType: {} as Record<string, number>,
     }
 
     for (const fieldData of fields) {
       if (fieldData.isValid === true) {
-        summary.valid++
+        if (this.getHighestSeverity(fieldData.errors) === "warning") {
+          summary.warnings++
+        } else {
+          summary.valid++
+        }
       } else if (fieldData.isValid === false) {
         summary.invalid++
 
-        for (const error of fieldData.errors) {
-          summary.errorsByType[error] = (summary.errorsByType[error] || 0) + 1
+        for (const { rule } of fieldData.errors) {
+          summary.errorsByType[rule] = (summary.errorsByType[rule] || 0) + 1
         }
       }
     }
@@ -60,6 +96,8 @@ export class ResultProcessor {
 
   /**
    * Merges multiple validation results
+   *
+   * `errorDistribution` counts `error` violations by rule name.
    */
   mergeResults(results: ValidationResult[]): {
     allValid: boolean
@@ -75,11 +113,12 @@ export class ResultProcessor {
     for (const result of results) {
       if (!result.isValid) {
         merged.allValid = false
-        merged.totalErrors += result.errors.length
+        const errors = result.errors.filter((e) => e.severity === "error")
+        merged.totalErrors += errors.length
 
-        for (const error of result.errors) {
-          merged.errorDistribution[error] =
-            (merged.errorDistribution[error] || 0) + 1
+        for (const { rule } of errors) {
+          merged.errorDistribution[rule] =
+            (merged.errorDistribution[rule] || 0) + 1
         }
       }
     }
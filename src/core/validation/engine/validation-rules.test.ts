@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest"
+import { RuleDefinition } from "@/shared/types/validation"
+import { ValidationRules } from "./validation-rules"
+
+const maxLength: RuleDefinition = {
+  name: "max-length",
+  message: "Too long",
+  priority: 20,
+  maxLength: 50,
+}
+
+const noSpaces: RuleDefinition = {
+  name: "no-spaces",
+  message: "No spaces allowed",
+  priority: 10,
+  forbiddenSubstrings: [" "],
+}
+
+const corporate = { name: "Corporate", rules: [noSpaces, maxLength] }
+
+describe("ValidationRules.loadLayers", () => {
+  it("merges each layer's overrides over the rules below it", () => {
+    const rules = new ValidationRules()
+    const conflicts = rules.loadLayers([
+      corporate,
+      {
+        name: "Project",
+        rules: [
+          { name: "max-length", maxLength: 50 },
+          { name: "tmp-prefix", message: "Use Tmp", prefix: "Tmp" },
+        ],
+      },
+    ])
+
+    expect(conflicts).toEqual([])
+    expect(rules.getDefinitions()).toEqual([
+      noSpaces,
+      maxLength,
+      { name: "tmp-prefix", message: "Use Tmp", prefix: "Tmp" },
+    ])
+    expect(rules.getOrigins("max-length")).toEqual(["Corporate", "Project"])
+    expect(rules.getOrigins("tmp-prefix")).toEqual(["Project"])
+  })
+
+  it("reports overrides that disable, weaken or redefine a rule", () => {
+    const rules = new ValidationRules()
+    const conflicts = rules.loadLayers([
+      corporate,
+      {
+        name: "Project",
+        rules: [
+          { name: "no-spaces", enabled: false },
+          { name: "max-length", severity: "warning", maxLength: 40 },
+        ],
+      },
+      { name: "Team", rules: [{ name: "max-length", maxLength: 30 }] },
+    ])
+
+    expect(conflicts).toEqual([
+      {
+        rule: "no-spaces",
+        layer: "Project",
+        baseLayer: "Corporate",
+        kind: "disabled",
+        message: '"no-spaces" from Corporate is disabled by Project',
+      },
+      {
+        rule: "max-length",
+        layer: "Project",
+        baseLayer: "Corporate",
+        kind: "weakened",
+        message:
+          '"max-length" from Corporate is lowered from error to warning by Project',
+      },
+      {
+        rule: "max-length",
+        layer: "Team",
+        baseLayer: "Project",
+        kind: "overridden",
+        message: '"max-length" from Project is redefined by Team',
+      },
+    ])
+    expect(rules.get("no-spaces")?.enabled).toBe(false)
+    expect(rules.getDefinitions()[1]).toEqual({
+      ...maxLength,
+      severity: "warning",
+      maxLength: 30,
+    })
+  })
+
+  it("skips rules that are invalid once merged", () => {
+    const rules = new ValidationRules()
+    const conflicts = rules.loadLayers([
+      corporate,
+      {
+        name: "Project",
+        rules: [
+          { name: "max-length", minLength: 60 },
+          { name: "incomplete", maxLength: 10 },
+        ],
+      },
+    ])
+
+    expect(conflicts.filter((c) => c.kind === "invalid")).toEqual([
+      {
+        rule: "max-length",
+        layer: "Project",
+        kind: "invalid",
+        message:
+          'Invalid rule definition "max-length": minLength cannot exceed maxLength',
+      },
+      {
+        rule: "incomplete",
+        layer: "Project",
+        kind: "invalid",
+        message: 'Invalid rule definition "incomplete": message is required',
+      },
+    ])
+    expect(rules.getAll().map((rule) => rule.name)).toEqual(["no-spaces"])
+  })
+})
@@ -1,13 +1,48 @@
-import { ValidationRule } from "@/shared/types/validation"
+import { DEFAULT_RULE_DEFINITIONS } from "@/shared/config/rule-defaults"
+import {
+  GlossaryTerm,
+  RuleConflict,
+  RuleConflictKind,
+  RuleDefinition,
+  RuleLayer,
+  RuleSeverity,
+  ValidationContext,
+} from "@/shared/types/validation"
 import logger from "@/shared/utils/logger"
+import { RuleCompiler } from "./rule-compiler"
+import { ValidationRule } from "./types"
+
+/**
+ * Relative strictness of each severity, used to detect weakened overrides
+ */
+const SEVERITY_RANKS: Record<RuleSeverity, number> = {
+  info: 0,
+  warning: 1,
+  error: 2,
+}
 
 /**
  * @class ValidationRules
  * @description Manages validation rules registry with priority-based
  * ordering
+ *
+ * Rules are normally declared as JSON-serializable `RuleDefinition` objects
+ * and compiled on load, so a ruleset can be persisted and replaced at runtime.
+ * Closure-based rules can still be registered through `add`, but they have no
+ * definition and are not persistable.
+ *
+ * Disabled rules stay registered, so they can be listed and re-enabled, but
+ * are never returned for execution.
+ *
+ * A ruleset can also be built from layers (e.g. a corporate standard and a
+ * project's overrides), in which case the layers each rule came from are
+ * kept for display.
  */
 export class ValidationRules {
   private rules: ValidationRule[] = []
+  private definitions = new Map<string, RuleDefinition>()
+  private origins = new Map<string, string[]>()
+  private readonly compiler = new RuleCompiler()
 
   constructor() {
     this.initializeDefaultRules()
@@ -27,10 +62,142 @@ export class ValidationRules {
     return this.rules.find((rule) => rule.name === name)
   }
 
+  /**
+   * Gets the declarative definitions of all data-driven rules
+   */
+  getDefinitions(): RuleDefinition[] {
+    return this.rules
+      .map((rule) => this.definitions.get(rule.name))
+      .filter((definition): definition is RuleDefinition => !!definition)
+      .map((definition) => ({ ...definition }))
+  }
+
+  /**
+   * Replaces the whole ruleset with compiled definitions
+   *
+   * Invalid definitions are skipped and logged so that one bad entry in
+   * storage cannot disable every other rule.
+   */
+  loadDefinitions(definitions: RuleDefinition[]): void {
+    const rules: ValidationRule[] = []
+    const compiled = new Map<string, RuleDefinition>()
+
+    for (const definition of definitions) {
+      try {
+        rules.push(this.compile(definition))
+        compiled.set(definition.name, { ...definition })
+      } catch (error) {
+        logger.warn(`Skipped rule definition: ${(error as Error).message}`)
+      }
+    }
+
+    this.rules = rules
+    this.definitions = compiled
+    this.origins = new Map()
+    this.sortByPriority()
+    logger.info(`Loaded ${rules.length} validation rules`)
+  }
+
+  /**
+   * Replaces the whole ruleset with the merged rules of several layers
+   *
+   * Layers are applied lowest first. A rule new to a layer must be a
+   * complete definition; a rule already defined below is merged with the
+   * properties the layer sets, so `{ name: "max-length", maxLength: 40 }`
+   * tightens a limit and `{ name: "no-spaces", enabled: false }` disables a
+   * rule. Rules that still fail to compile after merging are skipped.
+   *
+   * @param layers - Layers from the base standard up to the most specific
+   * @returns Overrides that disable, weaken or redefine an inherited rule,
+   * and rules that could not be compiled
+   */
+  loadLayers(layers: RuleLayer[]): RuleConflict[] {
+    const merged = new Map<string, RuleDefinition>()
+    const origins = new Map<string, string[]>()
+    const conflicts: RuleConflict[] = []
+
+    for (const layer of layers) {
+      for (const override of layer.rules) {
+        const base = merged.get(override.name)
+        const layerNames = origins.get(override.name) ?? []
+        const baseLayer = layerNames[layerNames.length - 1]
+        const definition = { ...base, ...override } as RuleDefinition
+
+        if (base && baseLayer) {
+          const change = this.describeOverride(base, definition)
+          if (change) {
+            conflicts.push({
+              rule: override.name,
+              layer: layer.name,
+              baseLayer,
+              kind: change.kind,
+              message:
+                `"${override.name}" from ${baseLayer} ` +
+                `${change.description} by ${layer.name}`,
+            })
+          }
+        }
+
+        merged.set(override.name, definition)
+        origins.set(override.name, [...layerNames, layer.name])
+      }
+    }
+
+    const rules: ValidationRule[] = []
+    const compiled = new Map<string, RuleDefinition>()
+    for (const [name, definition] of merged) {
+      try {
+        rules.push(this.compile(definition))
+        compiled.set(name, definition)
+      } catch (error) {
+        const layerNames = origins.get(name) ?? []
+        conflicts.push({
+          rule: name,
+          layer: layerNames[layerNames.length - 1] ?? "",
+          kind: "invalid",
+          message: (error as Error).message,
+        })
+      }
+    }
+
+    this.rules = rules
+    this.definitions = compiled
+    this.origins = origins
+    this.sortByPriority()
+
+    for (const conflict of conflicts) {
+      logger.warn(`Rule conflict: ${conflict.message}`)
+    }
+    logger.info(
+      `Loaded ${rules.length} validation rules from ${layers.length} layers`
+    )
+    return conflicts
+  }
+
+  /**
+   * Gets the layers that defined or overrode a rule, lowest first
+   *
+   * @returns Layer names, or an empty list if the ruleset is not layered
+   */
+  getOrigins(name: string): string[] {
+    return [...(this.origins.get(name) ?? [])]
+  }
+
+  /**
+   * Compiles and adds or updates a rule from its definition
+   *
+   * @throws Error if the definition is invalid
+   */
+  addDefinition(definition: RuleDefinition): void {
+    this.add(this.compile(definition))
+    this.definitions.set(definition.name, { ...definition })
+  }
+
   /**
    * Adds or updates a rule
    */
   add(rule: ValidationRule): void {
+    this.definitions.delete(rule.name)
     const existingIndex = this.rules.findIndex((r) => r.name === rule.name)
 
     if (existingIndex >= 0) {
@@ -52,6 +219,8 @@ export class ValidationRules {
 
     if (index >= 0) {
       this.rules.splice(index, 1)
+      this.definitions.delete(name)
+      this.origins.delete(name)
       logger.info(`Removed validation rule: ${name}`)
       return true
     }
@@ -60,10 +229,104 @@ export class ValidationRules {
   }
 
   /**
-   * Gets rules excluding specific names
+   * Enables or disables a rule by name
+   *
+   * @returns True if the rule exists
+   */
+  setEnabled(name: string, enabled: boolean): boolean {
+    const rule = this.get(name)
+    if (!rule) {
+      return false
+    }
+
+    rule.enabled = enabled
+    rule.lastModified = Date.now()
+
+    const definition = this.definitions.get(name)
+    if (definition) {
+      definition.enabled = enabled
+    }
+
+    logger.info(`${enabled ? "Enabled" : "Disabled"} validation rule: ${name}`)
+    return true
+  }
+
+  /**
+   * Gets enabled rules excluding specific names
    */
   getExcluding(excludedNames: string[]): ValidationRule[] {
-    return this.rules.filter((rule) => !excludedNames.includes(rule.name))
+    return this.rules.filter(
+      (rule) => rule.enabled !== false && !excludedNames.includes(rule.name)
+    )
+  }
+
+  /**
+   * Replaces the abbreviation glossary used by glossary rules
+   */
+  setGlossary(terms: GlossaryTerm[]): void {
+    this.compiler.setGlossary(terms)
+    logger.info(`Loaded glossary with ${terms.length} terms`)
+  }
+
+  /**
+   * Replaces the team dictionary used by spelling rules
+   */
+  setTeamDictionary(words: string[]): void {
+    this.compiler.setTeamDictionary(words)
+    logger.info(`Loaded team dictionary with ${words.length} words`)
+  }
+
+  /**
+   * Gets rules that apply to a field's context, excluding specific names
+   *
+   * Rules without `appliesTo` apply to every field.
+   */
+  getForContext(
+    context: ValidationContext,
+    excludedNames: string[] = []
+  ): ValidationRule[] {
+    return this.getExcluding(excludedNames).filter(
+      (rule) => !rule.appliesTo || rule.appliesTo(context)
+    )
+  }
+
+  /**
+   * Describes how an override changes an inherited rule
+   *
+   * @returns The kind of change and a description such as "is disabled",
+   * or `null` if the override leaves the rule unchanged
+   */
+  private describeOverride(
+    base: RuleDefinition,
+    override: RuleDefinition
+  ): { kind: RuleConflictKind; description: string } | null {
+    if (base.enabled !== false && override.enabled === false) {
+      return { kind: "disabled", description: "is disabled" }
+    }
+
+    const baseSeverity = base.severity ?? "error"
+    const overrideSeverity = override.severity ?? "error"
+    if (SEVERITY_RANKS[overrideSeverity] < SEVERITY_RANKS[baseSeverity]) {
+      return {
+        kind: "weakened",
+        description: `is lowered from ${baseSeverity} to ${overrideSeverity}`,
+      }
+    }
+
+    const changed = (Object.keys(override) as (keyof RuleDefinition)[]).some(
+      (key) => JSON.stringify(base[key]) !== JSON.stringify(override[key])
+    )
+    return changed ? { kind: "overridden", description: "is redefined" } : null
+  }
+
+  /**
+   * Compiles a definition, carrying over whether it is enabled
+   */
+  private compile(definition: RuleDefinition): ValidationRule {
+    return {
+      ...this.compiler.compile(definition),
+      enabled: definition.enabled ?? true,
+    }
   }
 
   private sortByPriority(): void {
@@ -75,64 +338,6 @@ export class ValidationRules {
   }
 
   private initializeDefaultRules(): void {
-    const defaultRules: ValidationRule[] = [
-      {
-        name: "not-empty",
-        check: (value: string) => value.length > 0,
-        message: "Field cannot be empty",
-        priority: 1,
-      },
-      {
-        name: "starts-with-capital",
-        check: (value: string) => /^[A-Z]/.test(value),
-        message: "Must start with capital letter",
-        priority: 2,
-      },
-      {
-        name: "no-spaces",
-        check: (value: string) => !/\s/.test(value),
-        message: "No spaces allowed",
-        priority: 3,
-      },
-      {
-        name: "alphanumeric-underscore",
-        check: (value: string) => /^[A-Za-z0-9_]+$/.test(value),
-        message: "Only letters, numbers, and underscore allowed",
-        priority: 4,
-      },
-      {
-        name: "min-length",
-        check: (value: string) => value.length >= 3,
-        message: "Must be at least 3 characters",
-        priority: 5,
-      },
-      {
-        name: "max-length",
-        check: (value: string) => value.length <= 50,
-        message: "Cannot exceed 50 characters",
-        priority: 6,
-      },
-      {
-        name: "no-trailing-underscore",
-        check: (value: string) => !/_$/.test(value),
-        message: "Cannot end with underscore",
-        priority: 7,
-      },
-      {
-        name: "no-consecutive-underscores",
-        check: (value: string) => !/__/.test(value),
-        message: "No consecutive underscores",
-        priority: 8,
-      },
-      {
-        name: "no-leading-number",
-        check: (value: string) => !/^[0-9]/.test(value),
-        message: "Cannot start with number",
-        priority: 9,
-      },
-    ]
-
-    this.rules = defaultRules
-    this.sortByPriority()
+    this.loadDefinitions(DEFAULT_RULE_DEFINITIONS)
   }
 }
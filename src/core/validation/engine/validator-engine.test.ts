@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest"
+import { ErrorHandler } from "@/shared/utils/error-handler"
+import { PerformanceMonitor } from "@/shared/utils/performance"
+import { validationContext } from "@/test/fixtures"
+import { ValidatorEngine } from "./validator-engine"
+
+const engine = new ValidatorEngine(
+  new PerformanceMonitor(),
+  new ErrorHandler({ show: () => undefined })
+)
+
+function rulesOf(name: string, context = {}) {
+  return engine.validateName(name, context).errors.map((v) => v.rule)
+}
+
+describe("ValidatorEngine.validateName", () => {
+  it("validates names without a DOM or a context", () => {
+    const result = engine.validateName("CustomerName")
+
+    expect(result.isValid).toBe(true)
+    expect(result.errors).toEqual([])
+    expect(result).not.toHaveProperty("suggestion")
+  })
+
+  it("reports violations with spans into the name as given", () => {
+    const result = engine.validateName("  customer name")
+
+    expect(result.isValid).toBe(false)
+    expect(result.errors).toContainEqual({
+      rule: "no-spaces",
+      message: "No spaces allowed",
+      severity: "error",
+      start: 10,
+      end: 11,
+    })
+    expect(result.suggestion).toBe("CustomerName")
+  })
+
+  it("only checks that empty names are not empty", () => {
+    expect(rulesOf("")).toEqual(["not-empty"])
+    expect(rulesOf("   ")).toEqual(["not-empty"])
+  })
+
+  it("runs the rules of the name's context", () => {
+    expect(rulesOf("tmp_total")).toContain("casing-other")
+    expect(
+      rulesOf("tmp_total", validationContext({ category: "temp" }))
+    ).toEqual([
+      "starts-with-capital",
+      "casing-temp",
+      "unapproved-abbreviations",
+    ])
+  })
+
+  it("keys batch results by input ID", () => {
+    const results = engine.validateNames([
+      { id: "a", name: "CustomerName" },
+      { id: "b", name: "customer name", context: { category: "temp" } },
+    ])
+
+    expect([...results.keys()]).toEqual(["a", "b"])
+    expect(results.get("a")?.isValid).toBe(true)
+    expect(results.get("b")?.suggestion).toBe("CustomerName")
+  })
+})
+
+describe("ValidatorEngine.suggestFix", () => {
+  it("applies fixers until the name passes every error rule", () => {
+    expect(engine.suggestFix("customer name_")).toBe("CustomerName")
+    expect(engine.suggestFix("Order__Total", validationContext())).toBe(
+      "OrderTotal"
+    )
+  })
+
+  it("returns null for names it cannot change or fix", () => {
+    expect(engine.suggestFix("CustomerName")).toBeNull()
+    expect(engine.suggestFix("123")).toBeNull()
+    expect(engine.validateName("123")).not.toHaveProperty("suggestion")
+  })
+})
@@ -1,10 +1,29 @@
 import { ValidationRules } from "./validation-rules"
 import { RuleExecutor } from "./rule-executor"
+import { CrossFieldValidator } from "./cross-field-validator"
 import { ResultProcessor, ValidationResult } from "./validation-result"
 import { ValidatorEngineConfig } from "./types"
+import { DEFAULT_CONFIG } from "@/shared/config/config-defaults"
+import { EXECUTION_STRATEGIES } from "@/shared/config/execution-strategies"
 import { PerformanceMonitor } from "@/shared/utils/performance"
 import { ErrorHandler } from "@/shared/utils/error-handler"
-import { FieldData } from "@/shared/types/validation"
+import {
+  CrossFieldRule,
+  FieldData,
+  GlossaryTerm,
+  NameInput,
+  NamedField,
+  RuleConflict,
+  RuleDefinition,
+  RuleLayer,
+  RuleViolation,
+  ValidationContext,
+} from "@/shared/types/validation"
+
+/**
+ * Maximum number of times fixers are re-applied when suggesting a name
+ */
+const MAX_FIX_PASSES = 3
 
 /**
  * @class
@@ -23,16 +42,31 @@ import { FieldData } from "@/shared/types/validation"
  * const validator = new ValidatorEngine(perfMonitor, errorHandler);
  * const result = validator.validate(fieldElement);
  *
+ * // Names without a DOM field
+ * const named = validator.validateName("CustomerName", { category: "temp" });
+ *
+ * // Context-aware validation
+ * const context = fieldManager.buildContext(fieldElement);
+ * const contextual = validator.validate(fieldElement, context);
+ *
  * // Batch validation
  * const results = validator.validateBatch([field, field2]);
  *
+ * // Name collisions between fields
+ * const collisions = validator.validateAcrossFields(namedFields);
+ *
+ * // Stop early on fields that already have errors
+ * validator.updateConfig(EXECUTION_STRATEGIES.fast(config));
+ *
  * // Dynamic rules
  * validator.addRule(customRule);
+ * validator.loadRuleDefinitions(storedDefinitions);
  * ```
  */
 export class ValidatorEngine {
   private readonly rules: ValidationRules
   private readonly executor: RuleExecutor
+  private readonly crossField: CrossFieldValidator
   private readonly processor: ResultProcessor
   private readonly config: ValidatorEngineConfig
 
@@ -43,60 +77,222 @@ export class ValidatorEngine {
   ) {
     this.rules = new ValidationRules()
     this.executor = new RuleExecutor()
+    this.crossField = new CrossFieldValidator()
     this.processor = new ResultProcessor()
     this.config = {
       enableEmptyFieldOptimization: true,
-      stopOnFirstError: false,
-      maxErrorsPerField: 10,
+      ...EXECUTION_STRATEGIES.complete(DEFAULT_CONFIG),
       ...config,
     }
   }
 
   /**
-   * Validates a single field against all configured rules
+   * Validates a single field against the rules that apply to its context
+   *
+   * Thin DOM adapter over `validateName`.
+   *
+   * @param field - Field to validate
+   * @param context - Where the field sits on the page; when omitted, only
+   * the field's ID and element type are known
    */
   public validate(
-    field: HTMLInputElement | HTMLTextAreaElement
+    field: HTMLInputElement | HTMLTextAreaElement,
+    context: ValidationContext = this.createContext(field)
+  ): ValidationResult {
+    return this.validateName(field.value, context)
+  }
+
+  /**
+   * Validates a name against the rules that apply to its context
+   *
+   * Needs no DOM, so names can be checked from scripts, the popup or tests.
+   * Leading and trailing whitespace is ignored; violation offsets still point
+   * into `name` as given.
+   *
+   * @param name - Name to validate
+   * @param context - Where the name is used; omitted properties get neutral
+   * defaults (no label or step, `other` category)
+   * @returns Validation result with violations and a suggested fix, if any
+   *
+   * @example
+   * ```typescript
+   * const result = validator.validateName("customer name", {
+   *   category: "temp",
+   *   stepType: "assignment",
+   * });
+   * ```
+   */
+  public validateName(
+    name: string,
+    context: Partial<ValidationContext> = {}
   ): ValidationResult {
     const end = this.perfMonitor.start("field-validation")
 
     try {
-      const value = field.value.trim()
-      if (value.length === 0) {
-        if (this.config.enableEmptyFieldOptimization) {
-          return this.processor.createResult(false, ["Field cannot be empty"])
-        }
+      const fullContext = { ...this.createContext(), ...context }
+      const value = name.trim()
+      if (value.length === 0 && this.config.enableEmptyFieldOptimization) {
+        // Only the stored `not-empty` rule can fail on an empty value; a
+        // removed, disabled or out-of-scope rule reports nothing
+        const notEmpty = this.rules
+          .getForContext(fullContext)
+          .filter((rule) => rule.name === "not-empty")
+        return this.processor.createResult(
+          this.executor.executeRules(value, notEmpty, fullContext)
+        )
       }
 
       const rulesToExecute = this.config.enableEmptyFieldOptimization
-        ? this.rules.getExcluding(["not-empty"])
-        : this.rules.getAll()
+        ? this.rules.getForContext(fullContext, ["not-empty"])
+        : this.rules.getForContext(fullContext)
+
+      const violations = this.executor.executeRules(
+        value,
+        rulesToExecute,
+        fullContext,
+        this.config
+      )
+      const offset = name.length - name.trimStart().length
+      if (offset > 0) {
+        for (const violation of violations) {
+          if (violation.start !== undefined && violation.end !== undefined) {
+            violation.start += offset
+            violation.end += offset
+          }
+        }
+      }
+
+      const result = this.processor.createResult(violations)
+      if (violations.length > 0) {
+        const suggestion = this.suggestFix(value, fullContext)
+        if (suggestion !== null) {
+          result.suggestion = suggestion
+        }
+      }
 
-      const errors = this.executor.executeRules(value, rulesToExecute)
-      return this.processor.createResult(errors.length === 0, errors)
+      return result
     } catch (error) {
       this.errorHandler.handle(error as Error, "validation-check", false)
-      return this.processor.createResult(false, ["Validation error occurred"])
+      return this.processor.createResult([
+        {
+          rule: "validation-error",
+          message: "Validation error occurred",
+          severity: "error",
+        },
+      ])
     } finally {
       end()
     }
   }
 
+  /**
+   * Suggests a compliant name by applying the fixers of failing rules
+   *
+   * Fixers run in rule priority order and are re-applied for a few passes,
+   * since one fix can expose another violation (e.g. `customer name_` →
+   * `Customer name_` → `CustomerName_` → `CustomerName`).
+   *
+   * @param value - Name to fix
+   * @param context - Field context selecting the rules to satisfy
+   * @returns Suggested name, or `null` if it cannot be fixed to pass every
+   * `error` rule or is unchanged
+   */
+  public suggestFix(
+    value: string,
+    context: ValidationContext = this.createContext()
+  ): string | null {
+    const rules = this.rules.getForContext(context)
+    let candidate = value
+
+    for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+      const before = candidate
+      for (const rule of rules) {
+        if (rule.fix && !rule.check(candidate, context)) {
+          candidate = rule.fix(candidate)
+        }
+      }
+
+      if (candidate === before) {
+        break
+      }
+    }
+
+    if (candidate === value || candidate.length === 0) {
+      return null
+    }
+
+    const remaining = this.executor.executeRules(candidate, rules, context)
+    return remaining.some((violation) => violation.severity === "error")
+      ? null
+      : candidate
+  }
+
   /**
    * Validates multiple fields in batch
+   *
+   * Thin DOM adapter over `validateNames`; results are keyed by field ID.
    */
   public validateBatch(
     fields: (HTMLInputElement | HTMLTextAreaElement)[]
   ): Map<string, ValidationResult> {
+    return this.validateNames(
+      fields.map((field) => ({
+        id: field.id,
+        name: field.value,
+        context: this.createContext(field),
+      }))
+    )
+  }
+
+  /**
+   * Validates multiple names in batch
+   *
+   * @param names - Names to validate; an input without a `fieldId` in its
+   * context is validated with its `id` as field ID
+   * @returns Results keyed by input `id`, in input order
+   *
+   * @example
+   * ```typescript
+   * const results = validator.validateNames([
+   *   { id: "a", name: "CustomerName" },
+   *   { id: "b", name: "tmp_total", context: { category: "temp" } },
+   * ]);
+   * ```
+   */
+  public validateNames(names: NameInput[]): Map<string, ValidationResult> {
     const results = new Map<string, ValidationResult>()
-    for (const field of fields) {
-      const result = this.validate(field)
-      results.set(field.id, result)
+    for (const { id, name, context } of names) {
+      results.set(id, this.validateName(name, { fieldId: id, ...context }))
     }
 
     return results
   }
 
+  /**
+   * Validates names across a set of fields (duplicates, case-only collisions
+   * and near-duplicates)
+   *
+   * @param fields - Every field of the container, with trimmed values
+   * @param focusFieldId - Only check collisions involving this field, e.g.
+   * the one being edited
+   * @returns Violations keyed by field ID, for fields with collisions only
+   */
+  public validateAcrossFields(
+    fields: NamedField[],
+    focusFieldId?: string
+  ): Map<string, RuleViolation[]> {
+    const end = this.perfMonitor.start("cross-field-validation")
+
+    try {
+      return this.crossField.validate(fields, focusFieldId)
+    } catch (error) {
+      this.errorHandler.handle(error as Error, "validation-check", false)
+      return new Map()
+    } finally {
+      end()
+    }
+  }
+
   /**
    * Rule management delegates to ValidationRules
    */
@@ -116,6 +312,50 @@ export class ValidatorEngine {
     return this.rules.remove(name)
   }
 
+  public setRuleEnabled(name: string, enabled: boolean): boolean {
+    return this.rules.setEnabled(name, enabled)
+  }
+
+  public addRuleDefinition(definition: RuleDefinition) {
+    this.rules.addDefinition(definition)
+  }
+
+  public getRuleDefinitions(): RuleDefinition[] {
+    return this.rules.getDefinitions()
+  }
+
+  public loadRuleDefinitions(definitions: RuleDefinition[]): void {
+    this.rules.loadDefinitions(definitions)
+  }
+
+  public loadRuleLayers(layers: RuleLayer[]): RuleConflict[] {
+    return this.rules.loadLayers(layers)
+  }
+
+  public getRuleOrigins(name: string): string[] {
+    return this.rules.getOrigins(name)
+  }
+
+  public setGlossary(terms: GlossaryTerm[]): void {
+    this.rules.setGlossary(terms)
+  }
+
+  public setTeamDictionary(words: string[]): void {
+    this.rules.setTeamDictionary(words)
+  }
+
+  public getCrossFieldRules(): CrossFieldRule[] {
+    return this.crossField.getAll()
+  }
+
+  public addCrossFieldRule(rule: CrossFieldRule): void {
+    this.crossField.add(rule)
+  }
+
+  public removeCrossFieldRule(name: string): boolean {
+    return this.crossField.remove(name)
+  }
+
   /**
    * Statistics and summary
    */
@@ -133,4 +373,26 @@ export class ValidatorEngine {
   public getConfig(): ValidatorEngineConfig {
     return { ...this.config }
   }
+
+  // Helper methods
+
+  /**
+   * Creates a minimal context for callers that don't provide one
+   *
+   * @private
+   */
+  private createContext(
+    field?: HTMLInputElement | HTMLTextAreaElement
+  ): ValidationContext {
+    return {
+      fieldId: field?.id ?? "",
+      label: null,
+      stepType: null,
+      fieldType: field?.tagName === "TEXTAREA" ? "textarea" : "input",
+      pageType: "unknown",
+      category: "other",
+      dataType: null,
+      isRequired: field?.required ?? false,
+    }
+  }
 }
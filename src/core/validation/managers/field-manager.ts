@@ -1,10 +1,60 @@
-import { FieldData, ValidatorConfig } from "@/shared/types/validation"
+import { DATA_TYPE_KEYWORDS } from "@/shared/config/data-type-keywords"
+import {
+  FieldCategory,
+  FieldData,
+  FieldDataType,
+  PageType,
+  ValidationContext,
+  ValidatorConfig,
+} from "@/shared/types/validation"
 import { FIELD_SELECTOR, FIELD_SELECTOR_FALLBACK } from "@/shared/types/types"
 import { Debouncer } from "@/shared/utils/debouncer"
 import { ErrorHandler } from "@/shared/utils/error-handler"
 import logger from "@/shared/utils/logger"
 import { PerformanceMonitor } from "@/shared/utils/performance"
 
+/**
+ * Keywords identifying each field category, checked in order against the
+ * field's attributes and the label of its enclosing panel
+ */
+const CATEGORY_KEYWORDS: [FieldCategory, RegExp][] = [
+  ["temp", /(?<![a-z])temp(orary)?(?![a-z])/i],
+  ["output", /(?<![a-z])outputs?(?![a-z])/i],
+  ["input", /(?<![a-z])inputs?(?![a-z])/i],
+  ["process", /(?<![a-z])process(?![a-z])/i],
+]
+
+/**
+ * Containers whose label describes the fields inside them
+ */
+const CATEGORY_CONTAINER_SELECTOR = '[role="tabpanel"], fieldset, section'
+
+/**
+ * Process step types recognized in step panel headings, longest first so
+ * that e.g. "Parallel Paths" wins over shorter names
+ */
+const STEP_TYPE_PATTERN =
+  /(?<![a-z])(parallel[\s-]paths|assignment|subprocess|milestone|decision|service|create|throw|start|jump|wait|end)(?![a-z])/i
+
+/**
+ * Row of the Process Designer fields grid holding a field and its type
+ */
+const FIELD_ROW_SELECTOR = 'tr, [role="row"]'
+
+/**
+ * Data type selector next to a field in the fields grid
+ */
+const TYPE_SELECTOR = 'select, [role="combobox"]'
+
+/**
+ * Keywords in the page URL identifying each page type
+ */
+const PAGE_TYPE_KEYWORDS: [PageType, RegExp][] = [
+  ["guide", /guide/i],
+  ["connection", /connection|connector/i],
+  ["process", /process/i],
+]
+
 /**
  * @class FieldManager
  * @description Manages field registration, tracking, and lifecycle
@@ -22,6 +72,14 @@ export class FieldManager {
   private readonly registeredFields: Map<string, FieldData> = new Map()
   private intersectionObserver: IntersectionObserver | null = null
   private lastValues: Map<string, string> = new Map()
+  private readonly typeChangeHandlers = new WeakMap<
+    HTMLElement,
+    { selector: HTMLElement; handler: () => void }
+  >()
+  private readonly validateHandlers = new WeakMap<HTMLElement, () => void>()
+  private validateCallback:
+    | ((field: HTMLInputElement | HTMLTextAreaElement, silent: boolean) => void)
+    | null = null
 
   /**
    * Creates a new `FieldManager` instance
@@ -48,7 +106,7 @@ export class FieldManager {
       silent: boolean
     ) => void
   ): void {
-    ;(this as any).validateCallback = validateCallback
+    this.validateCallback = validateCallback
   }
 
   /**
@@ -120,7 +178,69 @@ export class FieldManager {
     return false
   }
 
+  /**
+   * Writes a new value into a field the way a user edit would
+   *
+   * Uses the native value setter so framework-managed inputs notice the
+   * change, then dispatches bubbling `input` and `change` events so IICS
+   * registers the edit.
+   *
+   * @param field - The form field element to write to
+   * @param value - New value for the field
+   */
+  public setFieldValue(
+    field: HTMLInputElement | HTMLTextAreaElement,
+    value: string
+  ): void {
+    const prototype =
+      field instanceof HTMLTextAreaElement
+        ? HTMLTextAreaElement.prototype
+        : HTMLInputElement.prototype
+    const setter = Object.getOwnPropertyDescriptor(prototype, "value")?.set
+
+    if (setter) {
+      setter.call(field, value)
+    } else {
+      field.value = value
+    }
+
+    field.dispatchEvent(new Event("input", { bubbles: true }))
+    field.dispatchEvent(new Event("change", { bubbles: true }))
+    logger.debug(`Field value written: ${field.id}`)
+  }
+
   // Public methods
+  /**
+   * Builds the validation context of a field from the surrounding DOM
+   *
+   * @param field - The form field element
+   * @returns Context passed to validation rules alongside the field's value
+   */
+  public buildContext(
+    field: HTMLInputElement | HTMLTextAreaElement
+  ): ValidationContext {
+    const container = field.closest(CATEGORY_CONTAINER_SELECTOR)
+    const containerLabel = [
+      container?.getAttribute("aria-label"),
+      container?.querySelector("legend, h1, h2, h3, h4")?.textContent,
+    ]
+      .filter((hint): hint is string => !!hint)
+      .join(" ")
+    const label = this.detectLabel(field)
+
+    return {
+      fieldId: field.id,
+      label,
+      stepType: this.detectStepType(field, containerLabel),
+      fieldType: field instanceof HTMLTextAreaElement ? "textarea" : "input",
+      pageType: this.detectPageType(),
+      category: this.detectCategory(field, label, containerLabel),
+      dataType: this.detectDataType(field),
+      isRequired:
+        field.required || field.getAttribute("aria-required") === "true",
+    }
+  }
+
   /**
    * Scans a container for fields and registers any new ones
    *
@@ -201,6 +321,35 @@ export class FieldManager {
     return fields
   }
 
+  /**
+   * Applies configuration changes to the registered fields
+   *
+   * The configuration object is shared and already updated; this attaches
+   * or detaches the auto-validation listeners of every registered field
+   * when `autoValidate` changes.
+   *
+   * @param changes - Settings that changed
+   */
+  public applyConfig(changes: Partial<ValidatorConfig>): void {
+    if (changes.autoValidate === undefined) {
+      return
+    }
+
+    for (const { element } of this.registeredFields.values()) {
+      if (changes.autoValidate) {
+        this.attachValidateHandler(element)
+      } else {
+        this.detachValidateHandler(element)
+      }
+    }
+
+    logger.info(
+      `Auto-validation ${changes.autoValidate ? "enabled" : "disabled"} on ${
+        this.registeredFields.size
+      } fields`
+    )
+  }
+
   /**
    * Cleans up all registered fields
    *
@@ -267,27 +416,32 @@ export class FieldManager {
     try {
       const fieldData: FieldData = {
         element: field,
+        context: this.buildContext(field),
         isValid: null,
         errors: [],
+        suggestion: null,
         lastValidated: 0,
       }
 
       this.registeredFields.set(field.id, fieldData)
       if (this.config.autoValidate) {
-        const validateHandler = (): void => {
-          this.debouncer.debounce(
-            `validate-${field.id}`,
-            () => {
-              const callback = (this as any).validateCallback
-              if (callback) callback(field, true)
-            },
-            this.config.debounceDelay
-          )
+        this.attachValidateHandler(field)
+      }
+
+      const typeSelector = this.findTypeSelector(field)
+      if (typeSelector) {
+        const typeChangeHandler = (): void => {
+          fieldData.context = this.buildContext(field)
+          this.validateCallback?.(field, true)
         }
 
-        field.addEventListener("input", validateHandler, { passive: true })
-        field.addEventListener("blur", validateHandler, { passive: true })
-        ;(field as any)._iicsValidateHandler = validateHandler
+        typeSelector.addEventListener("change", typeChangeHandler, {
+          passive: true,
+        })
+        this.typeChangeHandlers.set(field, {
+          selector: typeSelector,
+          handler: typeChangeHandler,
+        })
       }
 
       logger.debug(`Registered field: ${field.id}`)
@@ -296,6 +450,181 @@ export class FieldManager {
     }
   }
 
+  /**
+   * Validates a field as the user types or leaves it, debounced by
+   * `config.debounceDelay` (read on every event, so changes apply at once)
+   *
+   * @param field - The form field element
+   */
+  private attachValidateHandler(
+    field: HTMLInputElement | HTMLTextAreaElement
+  ): void {
+    if (this.validateHandlers.has(field)) {
+      return
+    }
+
+    const validateHandler = (): void => {
+      this.debouncer.debounce(
+        `validate-${field.id}`,
+        () => this.validateCallback?.(field, true),
+        this.config.debounceDelay
+      )
+    }
+
+    field.addEventListener("input", validateHandler, { passive: true })
+    field.addEventListener("blur", validateHandler, { passive: true })
+    this.validateHandlers.set(field, validateHandler)
+  }
+
+  /**
+   * Removes the auto-validation listeners of a field, if any
+   *
+   * @param field - The form field element
+   */
+  private detachValidateHandler(
+    field: HTMLInputElement | HTMLTextAreaElement
+  ): void {
+    const handler = this.validateHandlers.get(field)
+    if (handler) {
+      field.removeEventListener("input", handler)
+      field.removeEventListener("blur", handler)
+      this.debouncer.cancel(`validate-${field.id}`)
+
+      this.validateHandlers.delete(field)
+    }
+  }
+
+  /**
+   * Finds the label text of a field from `<label>`, `aria-labelledby` or
+   * `aria-label`
+   *
+   * @param field - The form field element
+   * @returns Trimmed label text, or `null` if the field has no label
+   */
+  private detectLabel(
+    field: HTMLInputElement | HTMLTextAreaElement
+  ): string | null {
+    const labelledBy = field.getAttribute("aria-labelledby")
+    const label =
+      field.labels?.[0]?.textContent ??
+      (labelledBy && document.getElementById(labelledBy)?.textContent) ??
+      field.getAttribute("aria-label")
+
+    return label?.trim() || null
+  }
+
+  /**
+   * Finds the type of the process step whose panel contains a field
+   *
+   * Uses a `data-step-type` attribute when IICS provides one, otherwise the
+   * step name in the enclosing panel's heading (e.g. "Assignment Properties").
+   *
+   * @param field - The form field element
+   * @param containerLabel - Label of the field's enclosing panel
+   * @returns Step type in kebab case, or `null` if unknown
+   */
+  private detectStepType(
+    field: HTMLInputElement | HTMLTextAreaElement,
+    containerLabel: string
+  ): string | null {
+    const stepType =
+      field.closest("[data-step-type]")?.getAttribute("data-step-type") ??
+      STEP_TYPE_PATTERN.exec(containerLabel)?.[1]
+
+    return stepType ? stepType.trim().toLowerCase().replace(/\s+/g, "-") : null
+  }
+
+  /**
+   * Finds the data type selector in a field's row of the fields grid
+   *
+   * @param field - The form field element
+   * @returns The selector element, or `null` if the field is not in the grid
+   */
+  private findTypeSelector(
+    field: HTMLInputElement | HTMLTextAreaElement
+  ): HTMLElement | null {
+    const row = field.closest(FIELD_ROW_SELECTOR)
+    if (!row) {
+      return null
+    }
+
+    const selectors = row.querySelectorAll<HTMLElement>(TYPE_SELECTOR)
+    return Array.from(selectors).find((el) => el !== field) ?? null
+  }
+
+  /**
+   * Reads the data type selected next to a field
+   *
+   * @param field - The form field element
+   * @returns Detected data type, or `null` if there is no type selector
+   */
+  private detectDataType(
+    field: HTMLInputElement | HTMLTextAreaElement
+  ): FieldDataType | null {
+    const selector = this.findTypeSelector(field)
+    if (!selector) {
+      return null
+    }
+
+    const selected =
+      selector instanceof HTMLSelectElement
+        ? selector.selectedOptions[0]?.textContent
+        : selector instanceof HTMLInputElement
+        ? selector.value
+        : selector.textContent
+
+    for (const [dataType, keywords] of DATA_TYPE_KEYWORDS) {
+      if (selected && keywords.test(selected)) {
+        return dataType
+      }
+    }
+
+    return "other"
+  }
+
+  /**
+   * Guesses the kind of IICS page from its URL
+   *
+   * @returns Detected page type, or `"unknown"` if nothing matches
+   */
+  private detectPageType(): PageType {
+    const location = `${window.location.pathname}${window.location.hash}`
+
+    for (const [pageType, keywords] of PAGE_TYPE_KEYWORDS) {
+      if (keywords.test(location)) {
+        return pageType
+      }
+    }
+
+    return "unknown"
+  }
+
+  /**
+   * Guesses a field's category from its attributes, label and enclosing panel
+   *
+   * @param field - The form field element to categorize
+   * @param label - Label text of the field
+   * @param containerLabel - Label of the field's enclosing panel
+   * @returns Detected category, or `"other"` if nothing matches
+   */
+  private detectCategory(
+    field: HTMLInputElement | HTMLTextAreaElement,
+    label: string | null,
+    containerLabel: string
+  ): FieldCategory {
+    const hints = [field.id, field.name, label, containerLabel]
+      .filter((hint): hint is string => !!hint)
+      .join(" ")
+
+    for (const [category, keywords] of CATEGORY_KEYWORDS) {
+      if (keywords.test(hints)) {
+        return category
+      }
+    }
+
+    return "other"
+  }
+
   /**
    * Unregisters a field and cleans up its resources
    *
@@ -308,12 +637,12 @@ export class FieldManager {
         return
       }
 
-      const handler = (fieldData.element as any)._iicsValidateHandler
-      if (handler) {
-        fieldData.element.removeEventListener("input", handler)
-        fieldData.element.removeEventListener("blur", handler)
+      this.detachValidateHandler(fieldData.element)
 
-        delete (fieldData.element as any)._iicsValidateHandler
+      const typeChange = this.typeChangeHandlers.get(fieldData.element)
+      if (typeChange) {
+        typeChange.selector.removeEventListener("change", typeChange.handler)
+        this.typeChangeHandlers.delete(fieldData.element)
       }
 
       this.debouncer.cancel(`validate-${fieldId}`)
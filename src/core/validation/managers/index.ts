@@ -1,4 +1,5 @@
 export { FieldManager } from "./field-manager"
+export { SaveGuard } from "./save-guard"
 export { StatsManager } from "./stats-manager"
 export { UIManager } from "./ui-manager"
 export { ValidationOrchestrator } from "./validation-orchestrator"
@@ -0,0 +1,154 @@
+import { SaveGuardMode } from "@/shared/types/validation"
+import { ErrorHandler } from "@/shared/utils/error-handler"
+import logger from "@/shared/utils/logger"
+import { ToastManager } from "@/shared/utils/toast"
+import { ValidationOrchestrator } from "./validation-orchestrator"
+
+/**
+ * Clickable elements that may be the designer's save button
+ */
+const BUTTON_SELECTOR = 'button, [role="button"]'
+
+/**
+ * Accessible name, title or text of the designer's save button
+ */
+const SAVE_LABEL_PATTERN = /^save$/i
+
+/**
+ * @class SaveGuard
+ * @description Checks the field names before the designer saves an asset
+ *
+ * Enforced through the managed policy's `saveGuard` setting. Clicks on the
+ * save button and Ctrl+S / Cmd+S are intercepted in the capture phase, so
+ * they are seen before the designer handles them. While any field has an
+ * `error` violation, `block` cancels the save and `warn` lets it through;
+ * both show a toast and highlight the invalid fields.
+ *
+ * @example
+ * ```typescript
+ * const saveGuard = new SaveGuard(orchestrator, toast, errorHandler);
+ * saveGuard.setMode("block");
+ * ```
+ */
+export class SaveGuard {
+  private mode: SaveGuardMode = "off"
+  private readonly clickHandler = (e: MouseEvent): void => {
+    if (this.isSaveButton(e.target)) {
+      this.check(e)
+    }
+  }
+  private readonly keyHandler = (e: KeyboardEvent): void => {
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "s") {
+      this.check(e)
+    }
+  }
+
+  /**
+   * Creates a new SaveGuard instance
+   * @param orchestrator - Validates the fields when a save is attempted
+   * @param toast - Tells the user why a save was blocked or flagged
+   * @param errorHandler - Handles errors while checking a save
+   */
+  constructor(
+    private readonly orchestrator: ValidationOrchestrator,
+    private readonly toast: ToastManager,
+    private readonly errorHandler: ErrorHandler
+  ) {}
+
+  /**
+   * Sets how saves with invalid field names are handled
+   *
+   * @param mode - `block`, `warn`, or `off` to stop watching saves
+   */
+  public setMode(mode: SaveGuardMode): void {
+    if (mode === this.mode) {
+      return
+    }
+
+    const wasOff = this.mode === "off"
+    this.mode = mode
+    if (mode === "off") {
+      this.removeListeners()
+    } else if (wasOff) {
+      document.addEventListener("click", this.clickHandler, true)
+      document.addEventListener("keydown", this.keyHandler, true)
+    }
+
+    logger.info(`Save guard: ${mode}`)
+  }
+
+  /**
+   * Stops watching saves
+   */
+  public destroy(): void {
+    this.mode = "off"
+    this.removeListeners()
+  }
+
+  // Helper methods
+
+  /**
+   * Blocks or flags a save while fields have `error` violations
+   *
+   * @param e - Event that would save the asset
+   * @private
+   */
+  private check(e: Event): void {
+    try {
+      const invalidFields = this.orchestrator.countInvalidFields()
+      if (invalidFields === 0) {
+        return
+      }
+
+      if (this.mode === "block") {
+        e.preventDefault()
+        e.stopImmediatePropagation()
+        this.toast.show(
+          `Save blocked: ${invalidFields} field(s) have naming errors`,
+          "error",
+          5000
+        )
+      } else {
+        this.toast.show(
+          `Saved with ${invalidFields} field(s) that have naming errors`,
+          "warning",
+          5000
+        )
+      }
+
+      this.orchestrator.runFullValidation()
+    } catch (error) {
+      this.errorHandler.handle(error as Error, "save-guard", false)
+    }
+  }
+
+  /**
+   * Checks if a click landed on the designer's save button
+   *
+   * @private
+   */
+  private isSaveButton(target: EventTarget | null): boolean {
+    const buttonEl =
+      target instanceof Element ? target.closest(BUTTON_SELECTOR) : null
+    if (!buttonEl) {
+      return false
+    }
+
+    const label =
+      buttonEl.getAttribute("aria-label") ??
+      buttonEl.getAttribute("title") ??
+      buttonEl.textContent ??
+      ""
+    return SAVE_LABEL_PATTERN.test(label.trim())
+  }
+
+  /**
+   * Removes the save listeners
+   *
+   * @private
+   */
+  private removeListeners(): void {
+    document.removeEventListener("click", this.clickHandler, true)
+    document.removeEventListener("keydown", this.keyHandler, true)
+  }
+}
@@ -1,6 +1,11 @@
-import { FieldData, ValidationStats } from "@/shared/types/validation"
+import {
+  FieldData,
+  RuleViolation,
+  ValidationStats,
+} from "@/shared/types/validation"
 import { DateFormatter } from "@/shared/utils/date-formatter"
 import { ErrorHandler } from "@/shared/utils/error-handler"
+import { JUnitTestCase, JUnitWriter } from "@/shared/utils/junit-writer"
 import logger from "@/shared/utils/logger"
 import { ToastManager } from "@/shared/utils/toast"
 
@@ -8,8 +13,9 @@ import { ToastManager } from "@/shared/utils/toast"
  * Manages validation statistics and reporting
  *
  * Tracks validation metrics, generates reports, and provides summary
- * information about field validation results. Supports CSV export and
- * real-time statistics updates with user-friendly toast notifications.
+ * information about field validation results. Supports CSV and JUnit XML
+ * export and real-time statistics updates with user-friendly toast
+ * notifications.
  *
  * @example
  * ```typescript
@@ -18,6 +24,7 @@ import { ToastManager } from "@/shared/utils/toast"
  * statsManager.updateFromFields(fieldMap)
  * statsManager.showSummary()
  * statsManager.exportCSV(fieldMap)
+ * statsManager.exportJUnit(fieldMap)
  * ```
  */
 export class StatsManager {
@@ -25,6 +32,7 @@ export class StatsManager {
     totalFields: 0,
     validFields: 0,
     invalidFields: 0,
+    warningFields: 0,
     lastValidated: null,
   }
 
@@ -47,7 +55,7 @@ export class StatsManager {
    * @example
    * ```typescript
    * statsManager.reset();
-   * // stats now: { totalFields: 0, validFields: 0, invalidFields: 0, lastValidated: null }
+   * // stats now: { totalFields: 0, validFields: 0, invalidFields: 0, warningFields: 0, lastValidated: null }
    * ```
    */
   public reset(): void {
@@ -55,6 +63,7 @@ export class StatsManager {
       totalFields: 0,
       validFields: 0,
       invalidFields: 0,
+      warningFields: 0,
       lastValidated: null,
     }
   }
@@ -65,6 +74,7 @@ export class StatsManager {
    * Analyzes all fields in the provided map and recalculates statistics:
    * - Total field count
    * - Valid field count
+   * - Warning field count (valid, but with warning violations)
    * - Invalid field count
    * - Last validation timestamp
    *
@@ -81,7 +91,11 @@ export class StatsManager {
 
     for (const fieldData of fields.values()) {
       if (fieldData.isValid === true) {
-        this.stats.validFields++
+        if (this.hasWarnings(fieldData)) {
+          this.stats.warningFields++
+        } else {
+          this.stats.validFields++
+        }
       } else if (fieldData.isValid === false) {
         this.stats.invalidFields++
       }
@@ -122,6 +136,22 @@ export class StatsManager {
     this.stats.invalidFields++
   }
 
+  /**
+   * Increments the warning field count by one
+   *
+   * Used for fields that pass validation but have `warning` violations, so
+   * new conventions can be rolled out without failing existing fields.
+   *
+   * @example
+   * ```typescript
+   * // When a field passes with warnings
+   * statsManager.incrementWarning();
+   * ```
+   */
+  public incrementWarning(): void {
+    this.stats.warningFields++
+  }
+
   /**
    * Sets the total field count
    *
@@ -175,8 +205,9 @@ export class StatsManager {
   /**
    * Calculates the validation success percentage
    *
-   * Computes the percentage of valid fields relative to total fields.
-   * Returns 0 if there are no fields to avoid division by zero.
+   * Computes the percentage of fields passing validation (including those
+   * with warnings) relative to total fields. Returns 0 if there are no fields
+   * to avoid division by zero.
    *
    * @returns Percentage of valid fields (0-100)
    *
@@ -191,7 +222,8 @@ export class StatsManager {
       return 0
     }
 
-    return (this.stats.validFields / this.stats.totalFields) * 100
+    const passing = this.stats.validFields + this.stats.warningFields
+    return (passing / this.stats.totalFields) * 100
   }
 
   /**
@@ -212,19 +244,20 @@ export class StatsManager {
    * ```
    */
   public showSummary(): void {
-    const { totalFields, validFields, invalidFields } = this.stats
+    const { totalFields, validFields, invalidFields, warningFields } =
+      this.stats
 
     let message: string
     let type: "success" | "warning" | "error"
 
-    if (invalidFields === 0 && totalFields > 0) {
+    if (invalidFields === 0 && warningFields === 0 && totalFields > 0) {
       message = `Perfect! All ${totalFields} fields are valid`
       type = "success"
-    } else if (validFields === 0 && totalFields > 0) {
+    } else if (invalidFields === totalFields && totalFields > 0) {
       message = `All ${totalFields} fields need attention`
       type = "error"
     } else if (totalFields > 0) {
-      message = `Validated ${totalFields} fields: ${validFields} valid, ${invalidFields} invalid`
+      message = `Validated ${totalFields} fields: ${validFields} valid, ${warningFields} with warnings, ${invalidFields} invalid`
       type = "warning"
     } else {
       message = "No fields found to validate"
@@ -240,8 +273,11 @@ export class StatsManager {
    * Generates a comprehensive CSV report with the following columns:
    * - Field ID: The unique identifier of the field
    * - Field Value: The current value of the field (quoted and escaped)
-   * - Status: "Valid" or "Invalid"
-   * - Errors: Semicolon-separated list of validation errors
+   * - Status: "Valid", "Warning" or "Invalid"
+   * - Severity: Highest severity among the field's violations
+   * - Rules: Semicolon-separated names of the rules that fired
+   * - Errors: Semicolon-separated list of violations, prefixed by severity
+   *   and followed by the offending character range when known
    * - Last Validated: Timestamp of last validation
    *
    * Includes UTF-8 BOM for Excel compatibility and automatically triggers
@@ -264,41 +300,87 @@ export class StatsManager {
 
       const BOM = "\uFEFF"
       const csvRows: string[] = []
-      csvRows.push("Field ID,Field Value,Status,Errors,Last Validated")
+      csvRows.push(
+        "Field ID,Field Value,Status,Severity,Rules,Errors,Last Validated"
+      )
 
       fields.forEach((fieldData, id) => {
         const value = fieldData.element.value.trim().replace(/"/g, '""')
-        const status = fieldData.isValid ? "Valid" : "Invalid"
-        const errors = fieldData.errors.join("; ").replace(/"/g, '""')
+        const status = !fieldData.isValid
+          ? "Invalid"
+          : this.hasWarnings(fieldData)
+          ? "Warning"
+          : "Valid"
+        const severity = this.getHighestSeverity(fieldData)
+        const rules = fieldData.errors
+          .map((violation) => violation.rule)
+          .join("; ")
+          .replace(/"/g, '""')
+        const errors = fieldData.errors
+          .map((violation) => this.formatViolation(violation))
+          .join("; ")
+          .replace(/"/g, '""')
         const lastValidated = fieldData.lastValidated
           ? new Date(fieldData.lastValidated).toLocaleString()
           : "Never"
 
         csvRows.push(
-          `"${id}","${value}","${status}","${errors}","${lastValidated}"`
+          `"${id}","${value}","${status}","${severity}","${rules}","${errors}","${lastValidated}"`
         )
       })
 
-      const csvContent = BOM + csvRows.join("\n")
-      const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" })
-      const url = URL.createObjectURL(blob)
+      this.download(BOM + csvRows.join("\n"), "text/csv;charset=utf-8;", "csv")
+    } catch (error) {
+      this.errorHandler.handle(error as Error, "export")
+    }
+  }
 
-      const link = document.createElement("a")
-      const timestamp = DateFormatter.toFileName()
-      link.href = url
+  /**
+   * Exports field validation data as a JUnit XML file
+   *
+   * Writes the page as one test suite, named after the document title, with
+   * one test case per field, so CI servers and test dashboards can import
+   * manual audits alongside pipeline results. Only `error` violations fail a
+   * test case, one failure each; warnings and info go to its output. Fields
+   * that were never validated are written as skipped.
+   *
+   * @param fields - Map of field IDs to FieldData objects to export
+   *
+   * @example
+   * ```typescript
+   * statsManager.exportJUnit(fieldManager.getAllFields());
+   * // Downloads: iics-validation-2024-12-20-143045.xml
+   * ```
+   */
+  public exportJUnit(fields: Map<string, FieldData>): void {
+    try {
+      if (fields.size === 0) {
+        this.toast.show("No fields to export", "warning", 3000)
+        return
+      }
 
-      const randomSuffix = Math.random().toString(36).substring(2, 6)
-      link.download = `iics-validation-${timestamp}-${randomSuffix}.csv`
-      link.style.display = "none"
+      const suiteName = document.title.trim() || location.hostname
+      const testCases: JUnitTestCase[] = []
 
-      document.body.appendChild(link)
-      link.click()
-      document.body.removeChild(link)
+      fields.forEach((fieldData, id) => {
+        const testCase: JUnitTestCase = {
+          name: fieldData.element.value.trim() || id,
+          classname: suiteName,
+          violations: fieldData.errors,
+          output: `Field ID: ${id}`,
+        }
+        if (fieldData.isValid === null) {
+          testCase.skipped = "Not validated yet"
+        }
 
-      setTimeout(() => URL.revokeObjectURL(url), 100)
+        testCases.push(testCase)
+      })
 
-      this.toast.show("Report exported successfully", "success", 3000)
-      logger.info("Report exported")
+      this.download(
+        JUnitWriter.write("iics-validation", [{ name: suiteName, testCases }]),
+        "application/xml;charset=utf-8;",
+        "xml"
+      )
     } catch (error) {
       this.errorHandler.handle(error as Error, "export")
     }
@@ -319,20 +401,27 @@ export class StatsManager {
    * // Validation Statistics:
    * //   Total Fields: 15
    * //   Valid Fields: 12
+   * //   Warning Fields: 0
    * //   Invalid Fields: 3
    * //   Validation Rate: 80.0%
    * //   Last Validated: 2024-12-20 14:30:45
    * ```
    */
   public toString(): string {
-    const { totalFields, validFields, invalidFields, lastValidated } =
-      this.stats
+    const {
+      totalFields,
+      validFields,
+      invalidFields,
+      warningFields,
+      lastValidated,
+    } = this.stats
     const percentage = this.getValidationPercentage()
 
     return `
       Validation Statistics:
       Total Fields: ${totalFields}
       Valid Fields: ${validFields}
+      Warning Fields: ${warningFields}
       Invalid Fields: ${invalidFields}
       Validation Rate: ${percentage.toFixed(1)}%
       Last Validated: ${
@@ -340,4 +429,83 @@ export class StatsManager {
       }
         `.trim()
   }
+
+  // Helper methods
+  /**
+   * Downloads a report with a timestamped filename
+   *
+   * @param content - Report contents
+   * @param type - MIME type of the report
+   * @param extension - File extension, without the dot
+   * @private
+   */
+  private download(content: string, type: string, extension: string): void {
+    const blob = new Blob([content], { type })
+    const url = URL.createObjectURL(blob)
+
+    const link = document.createElement("a")
+    const timestamp = DateFormatter.toFileName()
+    link.href = url
+
+    const randomSuffix = Math.random().toString(36).substring(2, 6)
+    link.download = `iics-validation-${timestamp}-${randomSuffix}.${extension}`
+    link.style.display = "none"
+
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+
+    setTimeout(() => URL.revokeObjectURL(url), 100)
+
+    this.toast.show("Report exported successfully", "success", 3000)
+    logger.info("Report exported")
+  }
+
+  /**
+   * Checks whether a field has any `warning` violations
+   *
+   * @param fieldData - Field to inspect
+   * @private
+   */
+  private hasWarnings(fieldData: FieldData): boolean {
+    return fieldData.errors.some(
+      (violation) => violation.severity === "warning"
+    )
+  }
+
+  /**
+   * Formats a violation for reports as "severity: message (chars a-b)", or
+   * "severity: message (fields x, y)" for cross-field violations
+   *
+   * @param violation - Violation to format
+   * @private
+   */
+  private formatViolation(violation: RuleViolation): string {
+    const text = `${violation.severity}: ${violation.message}`
+    if (violation.relatedFieldIds?.length) {
+      return `${text} (fields ${violation.relatedFieldIds.join(" ")})`
+    }
+
+    if (violation.start === undefined || violation.end === undefined) {
+      return text
+    }
+
+    return `${text} (chars ${violation.start}-${violation.end})`
+  }
+
+  /**
+   * Gets the most severe violation level of a field for reporting
+   *
+   * @param fieldData - Field to inspect
+   * @returns "error", "warning", "info" or an empty string
+   * @private
+   */
+  private getHighestSeverity(fieldData: FieldData): string {
+    const severities = fieldData.errors.map((v) => v.severity)
+    return (
+      (["error", "warning", "info"] as const).find((severity) =>
+        severities.includes(severity)
+      ) ?? ""
+    )
+  }
 }
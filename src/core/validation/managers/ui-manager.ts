@@ -1,4 +1,9 @@
-import { ValidationStats } from "@/shared/types/validation"
+import {
+  FieldFix,
+  RuleViolation,
+  ValidationStats,
+} from "@/shared/types/validation"
+import { ReportFormat } from "@/shared/types/types"
 import { ErrorHandler } from "@/shared/utils/error-handler"
 import logger from "@/shared/utils/logger"
 
@@ -16,6 +21,12 @@ const UI_STYLES = `
     transition: outline 0.2s ease;
   }
 
+  .iics-warning {
+    outline: 2px solid #ff9800 !important;
+    outline-offset: 2px;
+    transition: outline 0.2s ease;
+  }
+
   /* Validation Button */
   .iics-validator-btn {
     position: fixed;
@@ -120,6 +131,11 @@ const UI_STYLES = `
     color: #c62828;
   }
 
+  .stat-item.warning {
+    background: #fff3e0;
+    color: #e65100;
+  }
+
   .stat-label {
     font-weight: 500;
     font-size: 14px;
@@ -165,6 +181,126 @@ const UI_STYLES = `
     background: #e0e0e0;
   }
 
+  /* Fix Suggestion Popover */
+  .iics-fix-popover {
+    position: fixed;
+    z-index: 10001;
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    padding: 8px 10px;
+    background: white;
+    border-left: 4px solid #667eea;
+    border-radius: 6px;
+    box-shadow: 0 4px 12px rgba(0,0,0,0.15);
+    font-family: system-ui, -apple-system, sans-serif;
+    font-size: 12px;
+    color: #333;
+  }
+
+  .iics-fix-popover.hidden {
+    display: none;
+  }
+
+  .iics-fix-value {
+    font-family: ui-monospace, monospace;
+    font-weight: 600;
+  }
+
+  .iics-fix-apply {
+    padding: 4px 10px;
+    background: #667eea;
+    color: white;
+    border: none;
+    border-radius: 4px;
+    cursor: pointer;
+    font-size: 12px;
+    font-weight: 500;
+  }
+
+  .iics-fix-apply:hover {
+    background: #5568d3;
+  }
+
+  .btn-fix {
+    background: #4caf50;
+    color: white;
+  }
+
+  .btn-fix:hover {
+    background: #43a047;
+  }
+
+  .stats-actions button:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+
+  /* Fix All Preview */
+  .iics-fix-preview-overlay {
+    position: fixed;
+    inset: 0;
+    z-index: 10002;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    background: rgba(0,0,0,0.4);
+    font-family: system-ui, -apple-system, sans-serif;
+  }
+
+  .iics-fix-preview {
+    width: 640px;
+    max-width: 90vw;
+    max-height: 80vh;
+    display: flex;
+    flex-direction: column;
+    background: white;
+    border-radius: 10px;
+    box-shadow: 0 8px 30px rgba(0,0,0,0.25);
+    overflow: hidden;
+  }
+
+  .iics-fix-preview-body {
+    overflow: auto;
+    padding: 0 20px;
+  }
+
+  .iics-fix-preview table {
+    width: 100%;
+    border-collapse: collapse;
+    font-size: 13px;
+  }
+
+  .iics-fix-preview th,
+  .iics-fix-preview td {
+    padding: 8px 6px;
+    border-bottom: 1px solid #f0f0f0;
+    text-align: left;
+    vertical-align: top;
+  }
+
+  .iics-fix-preview th {
+    position: sticky;
+    top: 0;
+    background: white;
+    font-weight: 600;
+  }
+
+  .iics-fix-old {
+    color: #c62828;
+    font-family: ui-monospace, monospace;
+  }
+
+  .iics-fix-new {
+    color: #2e7d32;
+    font-family: ui-monospace, monospace;
+  }
+
+  .iics-fix-rules {
+    color: #666;
+    font-size: 11px;
+  }
+
   /* GPU acceleration */
   .iics-validator-btn, .iics-stats-panel {
     transform: translateZ(0);
@@ -185,37 +321,94 @@ const STATS_INNTER_HTML = `
     <span class="stat-label">✓ Valid:</span>
     <span class="stat-value" id="iics-valid-fields">0</span>
   </div>
+  <div class="stat-item warning">
+    <span class="stat-label">⚠ Warnings:</span>
+    <span class="stat-value" id="iics-warning-fields">0</span>
+  </div>
   <div class="stat-item invalid">
     <span class="stat-label">✗ Invalid:</span>
     <span class="stat-value" id="iics-invalid-fields">0</span>
   </div>
 </div>
 <div class="stats-actions">
-  <button class="btn-export" id="iics-btn-export">Export</button>
+  <button class="btn-fix" id="iics-btn-fix-all">Fix All</button>
+  <button class="btn-clear" id="iics-btn-undo-fix" disabled>Undo</button>
+</div>
+<div class="stats-actions">
+  <button class="btn-export" id="iics-btn-export">CSV</button>
+  <button class="btn-export" id="iics-btn-export-junit">JUnit</button>
   <button class="btn-clear" id="iics-btn-clear">Clear</button>
 </div>
 `
 
+const FIX_PREVIEW_INNER_HTML = `
+<div class="iics-fix-preview" role="dialog" aria-label="Fix all fields">
+  <div class="stats-header">
+    <span>Fix All Fields</span>
+    <button class="stats-close" aria-label="Close">×</button>
+  </div>
+  <div class="iics-fix-preview-body">
+    <table>
+      <thead>
+        <tr>
+          <th><input type="checkbox" id="iics-fix-select-all" checked /></th>
+          <th>Current Name</th>
+          <th>New Name</th>
+          <th>Rules</th>
+        </tr>
+      </thead>
+      <tbody></tbody>
+    </table>
+  </div>
+  <div class="stats-actions" style="padding-top: 16px">
+    <button class="btn-fix" id="iics-btn-fix-apply">Apply Selected</button>
+    <button class="btn-clear" id="iics-btn-fix-cancel">Cancel</button>
+  </div>
+</div>
+`
+
+const FIX_POPOVER_INNER_HTML = `
+<span>Suggested:</span>
+<span class="iics-fix-value"></span>
+<button class="iics-fix-apply" aria-label="Apply suggested name">Apply</button>
+`
+
 /**
  *
  */
 export class UIManager {
   private validationButton: HTMLButtonElement | null = null
   private statsPanel: HTMLDivElement | null = null
+  private fixPopover: HTMLDivElement | null = null
+  private fixPreview: HTMLDivElement | null = null
+  private popoverField: HTMLInputElement | HTMLTextAreaElement | null = null
+  private popoverHideTimer: number | null = null
+  private readonly suggestions = new WeakMap<HTMLElement, string>()
+  private readonly hoverBoundFields = new WeakSet<HTMLElement>()
 
   /**
    * Creates a new `UIManager` instance
    *
    * @param errorHandler - Error handling utility for managing UI errors
    * @param onValidate - Callback invoked when validation is triggered via UI
-   * @param onExport - Callback when invoked when export functionality is requested
+   * @param onExport - Callback invoked when a report export is requested, with
+   *   the chosen report format
    * @param onClear - Callback invoked when field highlights should be cleared
+   * @param onApplyFix - Callback invoked when a suggested name is applied
+   * @param onFixAll - Callback invoked when the bulk fix preview is requested
+   * @param onUndoFix - Callback invoked when the last bulk fix should be undone
    */
   constructor(
     private readonly errorHandler: ErrorHandler,
     private readonly onValidate: () => void,
-    private readonly onExport: () => void,
-    private readonly onClear: () => void
+    private readonly onExport: (format: ReportFormat) => void,
+    private readonly onClear: () => void,
+    private readonly onApplyFix: (
+      field: HTMLInputElement | HTMLTextAreaElement,
+      suggestion: string
+    ) => void,
+    private readonly onFixAll: () => void,
+    private readonly onUndoFix: () => void
   ) {}
 
   /**
@@ -225,6 +418,7 @@ export class UIManager {
    * 1. Injecting necessary CSS styles
    * 2. Creating the validation button
    * 3. Creating the statistics panel
+   * 4. Creating the fix suggestion popover
    *
    * Should be called once during application startup.
    */
@@ -232,6 +426,7 @@ export class UIManager {
     this.injectStyles()
     this.createValidationButton()
     this.createStatsPanel()
+    this.createFixPopover()
   }
 
   /**
@@ -239,36 +434,58 @@ export class UIManager {
    *
    * Applies CSS classes and accessibility attributes to indicate validation state:
    * - Green outline for valid fields with success tooltip
+   * - Amber outline for valid fields with warnings, listed in tooltip
    * - Red outline for invalid fields with error details in tooltip
    * - ARIA attributes for screen reader compatibility
    * - Smooth transitions for visual feedback
    *
    * @param field - The form field element to highlight
    * @param isValid - Whether the field passed validation
-   * @param errors - Array of error messages for invalid fields
+   * @param violations - Rule violations of any severity for the field; the
+   * offending characters are bracketed in the tooltip when a span is known
+   * @param suggestion - Suggested compliant name, offered with an "Apply"
+   * action when hovering or focusing the field
    *
    * @example
    * ```typescript
    * uiManager.updateFieldHighlight(field, true, []);
-   * uiManager.updateFieldHighlight(field, false, ["Must start with capital letter"]);
+   * uiManager.updateFieldHighlight(field, false, [
+   *   { rule: "starts-with-capital", message: "Must start with capital letter", severity: "error" },
+   * ]);
    * ```
    */
   public updateFieldHighlight(
     field: HTMLInputElement | HTMLTextAreaElement,
     isValid: boolean,
-    errors: string[]
+    violations: RuleViolation[],
+    suggestion: string | null = null
   ): void {
     try {
-      field.classList.remove("iics-valid", "iics-invalid")
-      if (isValid) {
-        field.classList.add("iics-valid")
-        field.title = "Valid - Meets naming standards"
-        field.setAttribute("aria-invalid", "false")
-      } else {
+      this.setSuggestion(field, suggestion)
+
+      field.classList.remove("iics-valid", "iics-invalid", "iics-warning")
+      const hasWarnings = violations.some((v) => v.severity === "warning")
+
+      if (!isValid) {
         field.classList.add("iics-invalid")
         field.title =
-          errors.length > 0 ? "Invalid:\n" + errors.join("\n -") : "Invalid"
+          violations.length > 0
+            ? "Invalid:\n" + this.formatViolations(field.value, violations)
+            : "Invalid"
         field.setAttribute("aria-invalid", "true")
+      } else if (hasWarnings) {
+        field.classList.add("iics-warning")
+        field.title =
+          "Warning:\n" + this.formatViolations(field.value, violations)
+        field.setAttribute("aria-invalid", "false")
+      } else {
+        field.classList.add("iics-valid")
+        field.title =
+          violations.length > 0
+            ? "Valid - Meets naming standards\n" +
+              this.formatViolations(field.value, violations)
+            : "Valid - Meets naming standards"
+        field.setAttribute("aria-invalid", "false")
       }
     } catch (error) {
       this.errorHandler.handle(error as Error, "highligh-update", false)
@@ -288,8 +505,9 @@ export class UIManager {
     field: HTMLInputElement | HTMLTextAreaElement
   ): void {
     try {
-      field.classList.remove("iics-valid", "iics-invalid")
+      field.classList.remove("iics-valid", "iics-invalid", "iics-warning")
       field.title = ""
+      this.setSuggestion(field, null)
       field.removeAttribute("aria-invalid")
     } catch (error) {
       this.errorHandler.handle(error as Error, "highlight-clear", false)
@@ -309,7 +527,8 @@ export class UIManager {
    * ```typescript
    * uiManager.updateStatsPanel({
    *   totalFields: 15,
-   *   validFields: 12,
+   *   validFields: 10,
+   *   warningFields: 2,
    *   invalidFields: 3
    * });
    * ```
@@ -319,8 +538,9 @@ export class UIManager {
       const totalEl = document.getElementById("iics-total-fields")
       const validEl = document.getElementById("iics-valid-fields")
       const invalidEl = document.getElementById("iics-invalid-fields")
+      const warningEl = document.getElementById("iics-warning-fields")
 
-      if (!totalEl || !validEl || !invalidEl) {
+      if (!totalEl || !validEl || !invalidEl || !warningEl) {
         logger.warn("Stats panel elements not found")
         return
       }
@@ -328,6 +548,7 @@ export class UIManager {
       totalEl.textContent = stats.totalFields.toString()
       validEl.textContent = stats.validFields.toString()
       invalidEl.textContent = stats.invalidFields.toString()
+      warningEl.textContent = stats.warningFields.toString()
     } catch (error) {
       this.errorHandler.handle(error as Error, "stats-update", false)
     }
@@ -353,6 +574,130 @@ export class UIManager {
     this.statsPanel?.classList.add("hidden")
   }
 
+  /**
+   * Enables or disables the stats panel "Undo" button
+   *
+   * @param available - Whether there is a bulk fix to undo
+   */
+  public setUndoAvailable(available: boolean): void {
+    const button =
+      this.statsPanel?.querySelector<HTMLButtonElement>("#iics-btn-undo-fix")
+    if (button) {
+      button.disabled = !available
+    }
+  }
+
+  /**
+   * Shows the bulk fix preview table
+   *
+   * Lists each proposed rename (old name → new name, with the rules it
+   * fixes) with a checkbox, all selected by default. "Apply" passes the
+   * selected renames to `onApply`; "Cancel" or a click outside closes it.
+   *
+   * @param fixes - Proposed renames to preview
+   * @param onApply - Callback invoked with the renames the user kept selected
+   *
+   * @example
+   * ```typescript
+   * uiManager.showFixPreview(fixes, (selected) => orchestrator.applyFixes(selected));
+   * ```
+   */
+  public showFixPreview(
+    fixes: FieldFix[],
+    onApply: (selected: FieldFix[]) => void
+  ): void {
+    try {
+      this.hideFixPreview()
+
+      const overlay = document.createElement("div")
+      overlay.className = "iics-fix-preview-overlay"
+      overlay.innerHTML = FIX_PREVIEW_INNER_HTML
+      overlay.addEventListener("click", (e) => {
+        if (e.target === overlay) {
+          this.hideFixPreview()
+        }
+      })
+
+      const title = overlay.querySelector(".stats-header span")
+      if (title) {
+        title.textContent = `Fix All Fields (${fixes.length})`
+      }
+
+      const tbody = overlay.querySelector("tbody")
+      const checkboxes: HTMLInputElement[] = []
+
+      for (const fix of fixes) {
+        const row = document.createElement("tr")
+        const checkbox = document.createElement("input")
+        checkbox.type = "checkbox"
+        checkbox.checked = true
+        checkboxes.push(checkbox)
+
+        const cells = [
+          { text: fix.oldName, className: "iics-fix-old" },
+          { text: fix.newName, className: "iics-fix-new" },
+          { text: fix.rules.join(", "), className: "iics-fix-rules" },
+        ]
+
+        const checkCell = document.createElement("td")
+        checkCell.appendChild(checkbox)
+        row.appendChild(checkCell)
+
+        for (const cell of cells) {
+          const td = document.createElement("td")
+          td.className = cell.className
+          td.textContent = cell.text
+          row.appendChild(td)
+        }
+
+        tbody?.appendChild(row)
+      }
+
+      const selectAll = overlay.querySelector<HTMLInputElement>(
+        "#iics-fix-select-all"
+      )
+      selectAll?.addEventListener("change", () => {
+        checkboxes.forEach((checkbox) => {
+          checkbox.checked = selectAll.checked
+        })
+      })
+
+      overlay
+        .querySelector(".stats-close")
+        ?.addEventListener("click", () => this.hideFixPreview())
+
+      overlay
+        .querySelector("#iics-btn-fix-cancel")
+        ?.addEventListener("click", () => this.hideFixPreview())
+
+      overlay
+        .querySelector("#iics-btn-fix-apply")
+        ?.addEventListener("click", () => {
+          const selected = fixes.filter((_, i) => checkboxes[i]?.checked)
+          this.hideFixPreview()
+
+          try {
+            onApply(selected)
+          } catch (error) {
+            this.errorHandler.handle(error as Error, "apply-fix")
+          }
+        })
+
+      document.body.appendChild(overlay)
+      this.fixPreview = overlay
+    } catch (error) {
+      this.errorHandler.handle(error as Error, "fix-preview", false)
+    }
+  }
+
+  /**
+   * Closes the bulk fix preview if it is open
+   */
+  public hideFixPreview(): void {
+    this.fixPreview?.remove()
+    this.fixPreview = null
+  }
+
   /**
    * Cleans up and removes all UI elements
    *
@@ -367,11 +712,51 @@ export class UIManager {
     this.statsPanel?.remove()
     this.statsPanel = null
 
+    this.hideFixPreview()
+    this.clearPopoverHideTimer()
+    this.fixPopover?.remove()
+    this.fixPopover = null
+    this.popoverField = null
+
     document.getElementById("iics-validator-styles")?.remove()
     logger.info("UI elements removed")
   }
 
   // Helper methods
+  /**
+   * Formats violations as tooltip lines, most severe first
+   *
+   * Violations with a known span show the value with the offending
+   * characters bracketed, e.g. `Customer[ ]Name`. Cross-field violations
+   * list the IDs of the other fields involved.
+   *
+   * @param value - Current field value the spans refer to
+   * @param violations - Violations to format
+   * @private
+   */
+  private formatViolations(value: string, violations: RuleViolation[]): string {
+    const order = { error: 0, warning: 1, info: 2 }
+    return [...violations]
+      .sort((a, b) => order[a.severity] - order[b.severity])
+      .map((v) => {
+        const line = v.relatedFieldIds?.length
+          ? ` - [${v.severity}] ${v.message} (${v.relatedFieldIds.join(", ")})`
+          : ` - [${v.severity}] ${v.message}`
+        if (v.start === undefined || v.end === undefined) {
+          return line
+        }
+
+        const marked =
+          value.slice(0, v.start) +
+          "[" +
+          value.slice(v.start, v.end) +
+          "]" +
+          value.slice(v.end)
+        return `${line}: ${marked}`
+      })
+      .join("\n")
+  }
+
   /**
    * Injects CSS styles into the document head
    *
@@ -456,12 +841,42 @@ export class UIManager {
       .querySelector("#iics-btn-export")
       ?.addEventListener("click", () => {
         try {
-          this.onExport()
+          this.onExport("csv")
+        } catch (error) {
+          this.errorHandler.handle(error as Error, "export")
+        }
+      })
+
+    this.statsPanel
+      .querySelector("#iics-btn-export-junit")
+      ?.addEventListener("click", () => {
+        try {
+          this.onExport("junit")
         } catch (error) {
           this.errorHandler.handle(error as Error, "export")
         }
       })
 
+    this.statsPanel
+      .querySelector("#iics-btn-fix-all")
+      ?.addEventListener("click", () => {
+        try {
+          this.onFixAll()
+        } catch (error) {
+          this.errorHandler.handle(error as Error, "apply-fix")
+        }
+      })
+
+    this.statsPanel
+      .querySelector("#iics-btn-undo-fix")
+      ?.addEventListener("click", () => {
+        try {
+          this.onUndoFix()
+        } catch (error) {
+          this.errorHandler.handle(error as Error, "apply-fix")
+        }
+      })
+
     this.statsPanel
       .querySelector("#iics-btn-clear")
       ?.addEventListener("click", () => {
@@ -474,4 +889,152 @@ export class UIManager {
 
     logger.info("Stats panel created")
   }
+
+  /**
+   * Creates the floating popover used to offer fix suggestions
+   *
+   * A single popover is shared by all fields and positioned under whichever
+   * field is hovered or focused. Applying writes the suggestion through the
+   * `onApplyFix` callback.
+   *
+   * @private
+   */
+  private createFixPopover(): void {
+    this.fixPopover = document.createElement("div")
+    this.fixPopover.className = "iics-fix-popover hidden"
+    this.fixPopover.setAttribute("role", "tooltip")
+    this.fixPopover.innerHTML = FIX_POPOVER_INNER_HTML
+
+    this.fixPopover.addEventListener("mouseenter", () => {
+      this.clearPopoverHideTimer()
+    })
+
+    this.fixPopover.addEventListener("mouseleave", () => {
+      this.scheduleHideFixPopover()
+    })
+
+    this.fixPopover
+      .querySelector(".iics-fix-apply")
+      ?.addEventListener("click", () => {
+        const field = this.popoverField
+        const suggestion = field ? this.suggestions.get(field) : undefined
+
+        this.hideFixPopover()
+        if (!field || !suggestion) {
+          return
+        }
+
+        try {
+          this.onApplyFix(field, suggestion)
+        } catch (error) {
+          this.errorHandler.handle(error as Error, "apply-fix")
+        }
+      })
+
+    document.body.appendChild(this.fixPopover)
+    logger.info("Fix popover created")
+  }
+
+  /**
+   * Records or removes the suggestion offered for a field
+   *
+   * Hover and focus listeners are bound once per field; they look the
+   * suggestion up when fired, so fields without one show nothing.
+   *
+   * @param field - The form field element
+   * @param suggestion - Suggested name, or `null` to remove it
+   * @private
+   */
+  private setSuggestion(
+    field: HTMLInputElement | HTMLTextAreaElement,
+    suggestion: string | null
+  ): void {
+    if (!suggestion) {
+      this.suggestions.delete(field)
+      if (this.popoverField === field) {
+        this.hideFixPopover()
+      }
+      return
+    }
+
+    this.suggestions.set(field, suggestion)
+    if (this.popoverField === field) {
+      this.showFixPopover(field)
+    }
+
+    if (this.hoverBoundFields.has(field)) {
+      return
+    }
+
+    const show = () => this.showFixPopover(field)
+    const hide = () => this.scheduleHideFixPopover()
+
+    field.addEventListener("mouseenter", show, { passive: true })
+    field.addEventListener("focus", show, { passive: true })
+    field.addEventListener("mouseleave", hide, { passive: true })
+    field.addEventListener("blur", hide, { passive: true })
+    this.hoverBoundFields.add(field)
+  }
+
+  /**
+   * Shows the fix popover under a field if it has a suggestion
+   *
+   * @param field - The form field element
+   * @private
+   */
+  private showFixPopover(field: HTMLInputElement | HTMLTextAreaElement): void {
+    const suggestion = this.suggestions.get(field)
+    if (!this.fixPopover || !suggestion) {
+      return
+    }
+
+    this.clearPopoverHideTimer()
+
+    const valueEl = this.fixPopover.querySelector(".iics-fix-value")
+    if (valueEl) {
+      valueEl.textContent = suggestion
+    }
+
+    const rect = field.getBoundingClientRect()
+    this.fixPopover.style.top = `${rect.bottom + 4}px`
+    this.fixPopover.style.left = `${rect.left}px`
+    this.fixPopover.classList.remove("hidden")
+    this.popoverField = field
+  }
+
+  /**
+   * Hides the fix popover after a short delay so it can be reached
+   * with the mouse
+   *
+   * @private
+   */
+  private scheduleHideFixPopover(): void {
+    this.clearPopoverHideTimer()
+    this.popoverHideTimer = window.setTimeout(() => {
+      this.hideFixPopover()
+    }, 300)
+  }
+
+  /**
+   * Hides the fix popover immediately
+   *
+   * @private
+   */
+  private hideFixPopover(): void {
+    this.clearPopoverHideTimer()
+    this.fixPopover?.classList.add("hidden")
+    this.popoverField = null
+  }
+
+  /**
+   * Cancels a pending popover hide
+   *
+   * @private
+   */
+  private clearPopoverHideTimer(): void {
+    if (this.popoverHideTimer !== null) {
+      window.clearTimeout(this.popoverHideTimer)
+      this.popoverHideTimer = null
+    }
+  }
 }
@@ -1,6 +1,8 @@
 import { PerformanceMonitor } from "@/shared/utils/performance"
-import { FieldData } from "../engine"
+import { FieldData, ValidationResult } from "../engine"
 import { ValidatorEngine } from "../engine"
+import { FieldFix, RuleViolation } from "@/shared/types/validation"
+import { ReportFormat } from "@/shared/types/types"
 import { FieldManager } from "./field-manager"
 import { StatsManager } from "./stats-manager"
 import { UIManager } from "./ui-manager"
@@ -37,6 +39,12 @@ import logger from "@/shared/utils/logger"
  * ```
  */
 export class ValidationOrchestrator {
+  /** Applied bulk renames, most recent last, for undo */
+  private readonly fixHistory: FieldFix[][] = []
+
+  /** Maximum number of bulk renames kept for undo */
+  private readonly maxFixHistory: number = 10
+
   /**
    * Creates a new ValidationOrchestrator instance
    * @param fieldManager - Manages field registration and lifecycle
@@ -61,6 +69,7 @@ export class ValidationOrchestrator {
    * Runs full validation on all registered fields
    *
    * Performs comprehensive validation across all discovered fields with:
+   * - A cross-field pass flagging duplicate and colliding names
    * - Performance monitoring for timing analysis
    * - Batch processing to prevent UI blocking
    * - Statistical tracking and reporting
@@ -97,6 +106,28 @@ export class ValidationOrchestrator {
     }
   }
 
+  /**
+   * Counts the registered fields whose names have `error` violations
+   *
+   * Runs the per-field and cross-field rules synchronously, without
+   * touching highlights or statistics, so a save can be checked before the
+   * designer handles it.
+   *
+   * @returns Number of invalid fields
+   */
+  public countInvalidFields(): number {
+    const fields = Array.from(this.fieldManager.getAllFields().values())
+    const crossFieldViolations = this.validateAcrossFields()
+
+    return fields.filter(
+      (fieldData) =>
+        !this.withCrossFieldViolations(
+          this.validatorEngine.validate(fieldData.element, fieldData.context),
+          crossFieldViolations.get(fieldData.element.id)
+        ).isValid
+    ).length
+  }
+
   /**
    * Validates a single field and updates all related systems
    *
@@ -106,6 +137,9 @@ export class ValidationOrchestrator {
    * - UIManager: Updates visual highlighting and accessibility attributes
    *
    * Uses requestAnimationFrame for visual updates to ensure smooth rendering.
+   * Only name collisions involving this field are checked. Fields it collided
+   * with before or collides with now are re-validated too, so a collision
+   * fixed in one field is cleared from its partner.
    *
    * @param field - The form field element to validate
    * @param silent - If true, suppresses statistical updates (for auto-validation)
@@ -125,29 +159,21 @@ export class ValidationOrchestrator {
     silent: boolean = false
   ): boolean {
     try {
-      const result = this.validatorEngine.validate(field)
-      this.fieldManager.updateFieldData(field.id, {
-        isValid: result.isValid,
-        errors: result.errors,
-        lastValidated: Date.now(),
-      })
+      const previousErrors = this.fieldManager.getField(field.id)?.errors ?? []
+      const result = this.refreshField(field, silent)
 
-      if (!silent) {
-        if (result.isValid) {
-          this.statsManager.incrementValid()
-        } else {
-          this.statsManager.incrementInvalid()
+      const partners = new Set([
+        ...this.getRelatedFieldIds(previousErrors),
+        ...this.getRelatedFieldIds(result.errors),
+      ])
+      partners.delete(field.id)
+      for (const partnerId of partners) {
+        const partner = this.fieldManager.getField(partnerId)
+        if (partner) {
+          this.refreshField(partner.element, true)
         }
       }
 
-      requestAnimationFrame(() => {
-        this.uiManager.updateFieldHighlight(
-          field,
-          result.isValid,
-          result.errors
-        )
-      })
-
       return result.isValid
     } catch (error) {
       this.errorHandler.handle(error as Error, "field-validation", false)
@@ -155,6 +181,198 @@ export class ValidationOrchestrator {
     }
   }
 
+  /**
+   * Renames a field to a suggested compliant name
+   *
+   * Writes the value through `FieldManager` so IICS registers the edit, then
+   * re-validates the field so its highlight and suggestion are refreshed.
+   *
+   * @param field - The form field element to rename
+   * @param suggestion - The suggested name to apply
+   * @returns True if the renamed field passed validation, false otherwise
+   *
+   * @example
+   * ```typescript
+   * orchestrator.applySuggestion(field, "CustomerName");
+   * ```
+   */
+  public applySuggestion(
+    field: HTMLInputElement | HTMLTextAreaElement,
+    suggestion: string
+  ): boolean {
+    try {
+      const previous = field.value
+      this.fieldManager.setFieldValue(field, suggestion)
+      logger.info(`Applied suggestion: "${previous}" -> "${suggestion}"`)
+
+      const isValid = this.validateSingleField(field, true)
+      this.toast.show(`Renamed to ${suggestion}`, "success", 2000)
+      return isValid
+    } catch (error) {
+      this.errorHandler.handle(error as Error, "apply-fix")
+      return false
+    }
+  }
+
+  /**
+   * Collects suggested renames for every registered field
+   *
+   * Re-validates each field's current value so the preview reflects what is
+   * on screen, and keeps only fields with a fixable suggestion. Renames that
+   * would duplicate another field's name, or differ from it only by case,
+   * are left out.
+   *
+   * @returns Proposed renames, in field registration order
+   *
+   * @example
+   * ```typescript
+   * const fixes = orchestrator.collectFixes();
+   * console.table(fixes.map((f) => [f.oldName, f.newName]));
+   * ```
+   */
+  public collectFixes(): FieldFix[] {
+    const fixes: FieldFix[] = []
+
+    for (const [fieldId, fieldData] of this.fieldManager.getAllFields()) {
+      const result = this.validatorEngine.validate(
+        fieldData.element,
+        fieldData.context
+      )
+      if (!result.suggestion) {
+        continue
+      }
+
+      fixes.push({
+        fieldId,
+        element: fieldData.element,
+        oldName: fieldData.element.value,
+        newName: result.suggestion,
+        rules: result.errors
+          .map((violation) => violation.rule)
+          .filter((rule) => !!this.validatorEngine.getRule(rule)?.fix),
+      })
+    }
+
+    const safe = this.withoutCollisions(fixes)
+    if (safe.length < fixes.length) {
+      logger.warn(
+        `Skipped ${
+          fixes.length - safe.length
+        } renames that collide with other field names`
+      )
+    }
+
+    return safe
+  }
+
+  /**
+   * Opens the bulk "fix all" preview for the active container
+   *
+   * Shows every suggested rename (old name → new name, per rule) and applies
+   * the ones the user keeps selected.
+   *
+   * @example
+   * ```typescript
+   * orchestrator.previewFixAll();
+   * ```
+   */
+  public previewFixAll(): void {
+    try {
+      const fixes = this.collectFixes()
+      if (fixes.length === 0) {
+        this.toast.show("No automatic fixes available", "info", 3000)
+        return
+      }
+
+      this.uiManager.showFixPreview(fixes, (selected) =>
+        this.applyFixes(selected)
+      )
+    } catch (error) {
+      this.errorHandler.handle(error as Error, "apply-fix")
+    }
+  }
+
+  /**
+   * Applies a set of renames in batches and records them for undo
+   *
+   * Fields are renamed in batches (like `validateInBatches`) to keep the
+   * page responsive, then a full validation refreshes highlights and stats.
+   * Renames that would collide with another field's name, such as one kept
+   * after a conflicting rename was deselected, are skipped and reported.
+   *
+   * @param selected - Renames to apply
+   */
+  public applyFixes(selected: FieldFix[]): void {
+    const fixes = this.withoutCollisions(selected)
+    const skipped = selected.length - fixes.length
+    if (skipped > 0) {
+      this.toast.show(
+        `Skipped ${skipped} renames that would duplicate other field names`,
+        "warning",
+        4000
+      )
+    }
+
+    if (fixes.length === 0) {
+      return
+    }
+
+    this.processInBatches(
+      fixes,
+      (fix) => {
+        if (fix.element.isConnected) {
+          this.fieldManager.setFieldValue(fix.element, fix.newName)
+        }
+      },
+      () => {
+        this.fixHistory.push(fixes)
+        if (this.fixHistory.length > this.maxFixHistory) {
+          this.fixHistory.shift()
+        }
+
+        this.uiManager.setUndoAvailable(true)
+        this.toast.show(`Renamed ${fixes.length} fields`, "success", 3000)
+        logger.info(`Applied ${fixes.length} bulk renames`)
+        this.runFullValidation()
+      }
+    )
+  }
+
+  /**
+   * Restores the original values of the most recent bulk rename
+   *
+   * @returns True if there was a rename to undo, false otherwise
+   *
+   * @example
+   * ```typescript
+   * orchestrator.undoLastFix();
+   * ```
+   */
+  public undoLastFix(): boolean {
+    const fixes = this.fixHistory.pop()
+    if (!fixes) {
+      this.toast.show("Nothing to undo", "info", 2000)
+      return false
+    }
+
+    this.processInBatches(
+      fixes,
+      (fix) => {
+        if (fix.element.isConnected) {
+          this.fieldManager.setFieldValue(fix.element, fix.oldName)
+        }
+      },
+      () => {
+        this.uiManager.setUndoAvailable(this.fixHistory.length > 0)
+        this.toast.show(`Restored ${fixes.length} fields`, "info", 3000)
+        logger.info(`Undid ${fixes.length} bulk renames`)
+        this.runFullValidation()
+      }
+    )
+
+    return true
+  }
+
   /**
    * Automatically validates fields that need re-validation
    *
@@ -219,25 +437,36 @@ export class ValidationOrchestrator {
   }
 
   /**
-   * Exports validation results as a CSV report
+   * Exports validation results as a CSV or JUnit XML report
    *
-   * Triggers the CSV export process through the StatsManager, which
-   * generates a comprehensive report including:
+   * Triggers the export process through the StatsManager. The CSV report
+   * includes:
    * - Field identifiers and current values
-   * - Validation status (valid/invalid)
-   * - Error messages for invalid fields
+   * - Validation status (valid/warning/invalid) and highest severity
+   * - Violation messages prefixed by severity
    * - Last validation timestamps
    *
-   * The export process includes automatic download with timestamped filename.
+   * The JUnit report lists every field as a test case, failing once per
+   * `error` violation; warnings and info are written to its output. The
+   * export process includes automatic download with timestamped filename.
+   *
+   * @param format - Report format (default: "csv")
    *
    * @example
    * ```typescript
    * // Export current validation results
    * orchestrator.exportReport();
+   * orchestrator.exportReport("junit");
    * ```
    */
-  public exportReport(): void {
-    this.statsManager.exportCSV(this.fieldManager.getAllFields())
+  public exportReport(format: ReportFormat = "csv"): void {
+    const fields = this.fieldManager.getAllFields()
+    if (format === "junit") {
+      this.statsManager.exportJUnit(fields)
+      return
+    }
+
+    this.statsManager.exportCSV(fields)
   }
 
   /**
@@ -274,6 +503,7 @@ export class ValidationOrchestrator {
   private validateInBatches(fields: FieldData[]): void {
     const batchSize: number = 20
     let currentBatch: number = 0
+    const crossFieldViolations = this.validateAcrossFields()
 
     const validateBatch = (): void => {
       const start = currentBatch * batchSize
@@ -281,29 +511,30 @@ export class ValidationOrchestrator {
       const updates: Array<{
         field: HTMLInputElement | HTMLTextAreaElement
         isValid: boolean
-        errors: string[]
+        errors: RuleViolation[]
+        suggestion: string | null
       }> = []
 
       for (let i = start; i < end; i++) {
         const fieldData = fields[i]
         if (fieldData) {
-          const result = this.validatorEngine.validate(fieldData.element)
+          const result = this.withCrossFieldViolations(
+            this.validatorEngine.validate(fieldData.element, fieldData.context),
+            crossFieldViolations.get(fieldData.element.id)
+          )
           this.fieldManager.updateFieldData(fieldData.element.id, {
             isValid: result.isValid,
             errors: result.errors,
+            suggestion: result.suggestion ?? null,
             lastValidated: Date.now(),
           })
 
-          if (!result.isValid) {
-            this.statsManager.incrementValid()
-          } else {
-            this.statsManager.incrementInvalid()
-          }
-
+          this.recordResult(result)
           updates.push({
             field: fieldData.element,
             isValid: result.isValid,
             errors: result.errors,
+            suggestion: result.suggestion ?? null,
           })
         }
       }
@@ -313,7 +544,8 @@ export class ValidationOrchestrator {
           this.uiManager.updateFieldHighlight(
             update.field,
             update.isValid,
-            update.errors
+            update.errors,
+            update.suggestion
           )
         }
       })
@@ -329,6 +561,206 @@ export class ValidationOrchestrator {
     validateBatch()
   }
 
+  /**
+   * Runs the cross-field pass over every registered field
+   *
+   * Checks the current values of all fields in the container for duplicate,
+   * case-only and near-duplicate names.
+   *
+   * @param focusFieldId - Only check collisions involving this field
+   * @returns Violations keyed by field ID, for fields with collisions only
+   * @private
+   */
+  private validateAcrossFields(
+    focusFieldId?: string
+  ): Map<string, RuleViolation[]> {
+    const fields = Array.from(this.fieldManager.getAllFields().values()).map(
+      (fieldData) => ({
+        fieldId: fieldData.element.id,
+        value: fieldData.element.value.trim(),
+      })
+    )
+
+    return this.validatorEngine.validateAcrossFields(fields, focusFieldId)
+  }
+
+  /**
+   * Validates one field, including its collisions with other fields, and
+   * updates its stored data and highlight
+   *
+   * @param field - The form field element to validate
+   * @param silent - If true, the result is not counted in the statistics
+   * @returns Result of the per-field and cross-field rules
+   * @private
+   */
+  private refreshField(
+    field: HTMLInputElement | HTMLTextAreaElement,
+    silent: boolean
+  ): ValidationResult {
+    const context =
+      this.fieldManager.getField(field.id)?.context ??
+      this.fieldManager.buildContext(field)
+    const result = this.withCrossFieldViolations(
+      this.validatorEngine.validate(field, context),
+      this.validateAcrossFields(field.id).get(field.id)
+    )
+    this.fieldManager.updateFieldData(field.id, {
+      isValid: result.isValid,
+      errors: result.errors,
+      suggestion: result.suggestion ?? null,
+      lastValidated: Date.now(),
+    })
+
+    if (!silent) {
+      this.recordResult(result)
+    }
+
+    requestAnimationFrame(() => {
+      this.uiManager.updateFieldHighlight(
+        field,
+        result.isValid,
+        result.errors,
+        result.suggestion ?? null
+      )
+    })
+
+    return result
+  }
+
+  /**
+   * Drops renames whose new name collides with the name another field would
+   * have afterwards
+   *
+   * Checks the names every field would have once the renames are applied.
+   * Dropping a rename restores its field's old name, which can collide with
+   * another rename, so this repeats until no remaining rename collides.
+   *
+   * @param fixes - Proposed renames
+   * @returns The renames that can be applied together without collisions
+   * @private
+   */
+  private withoutCollisions(fixes: FieldFix[]): FieldFix[] {
+    let remaining = fixes
+
+    for (;;) {
+      const renames = new Map(remaining.map((fix) => [fix.fieldId, fix]))
+      const fields = Array.from(this.fieldManager.getAllFields()).map(
+        ([fieldId, fieldData]) => ({
+          fieldId,
+          value: (
+            renames.get(fieldId)?.newName ?? fieldData.element.value
+          ).trim(),
+        })
+      )
+      const collisions = this.validatorEngine.validateAcrossFields(fields)
+      const safe = remaining.filter(
+        (fix) =>
+          !collisions
+            .get(fix.fieldId)
+            ?.some((violation) => violation.severity === "error")
+      )
+
+      if (safe.length === remaining.length) {
+        return safe
+      }
+      remaining = safe
+    }
+  }
+
+  /**
+   * Gets the IDs of the fields a field's violations link it to
+   *
+   * @private
+   */
+  private getRelatedFieldIds(violations: RuleViolation[]): string[] {
+    return violations.flatMap((violation) => violation.relatedFieldIds ?? [])
+  }
+
+  /**
+   * Adds a field's cross-field violations to its per-field result
+   *
+   * @param result - Result of the per-field rules
+   * @param violations - Cross-field violations of the same field, if any
+   * @returns Result including both, invalid if either has an `error`
+   * @private
+   */
+  private withCrossFieldViolations(
+    result: ValidationResult,
+    violations: RuleViolation[] = []
+  ): ValidationResult {
+    if (violations.length === 0) {
+      return result
+    }
+
+    return {
+      ...result,
+      isValid:
+        result.isValid && !violations.some((v) => v.severity === "error"),
+      errors: [...result.errors, ...violations],
+    }
+  }
+
+  /**
+   * Processes items in batches across animation frames
+   *
+   * @param items - Items to process
+   * @param handler - Function invoked for each item
+   * @param onComplete - Function invoked once every item has been processed
+   * @private
+   */
+  private processInBatches<T>(
+    items: T[],
+    handler: (item: T) => void,
+    onComplete: () => void
+  ): void {
+    const batchSize: number = 20
+    let currentBatch: number = 0
+
+    const processBatch = (): void => {
+      const start = currentBatch * batchSize
+      const end = Math.min(start + batchSize, items.length)
+
+      for (let i = start; i < end; i++) {
+        const item = items[i]
+        if (item !== undefined) {
+          try {
+            handler(item)
+          } catch (error) {
+            this.errorHandler.handle(error as Error, "apply-fix", false)
+          }
+        }
+      }
+
+      currentBatch++
+      if (end < items.length) {
+        requestAnimationFrame(processBatch)
+      } else {
+        onComplete()
+      }
+    }
+
+    processBatch()
+  }
+
+  /**
+   * Records a validation result in the statistics
+   *
+   * Invalid fields count as invalid, valid fields with `warning` violations
+   * count as warnings, and everything else counts as valid.
+   *
+   * @param result - Validation result to record
+   * @private
+   */
+  private recordResult(result: ValidationResult): void {
+    if (!result.isValid) {
+      this.statsManager.incrementInvalid()
+    } else if (result.errors.some((v) => v.severity === "warning")) {
+      this.statsManager.incrementWarning()
+    } else {
+      this.statsManager.incrementValid()
+    }
+  }
+
   /**
    * Handles completion of validation process
    *
@@ -350,7 +782,7 @@ export class ValidationOrchestrator {
     this.statsManager.showSummary()
 
     logger.info(
-      `Validation complete: ${stats.validFields} valid, ${stats.invalidFields} invalid`
+      `Validation complete: ${stats.validFields} valid, ${stats.warningFields} warnings, ${stats.invalidFields} invalid`
     )
   }
 }
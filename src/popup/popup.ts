@@ -1,8 +1,30 @@
+import {
+  ConfigStore,
+  MANAGED_POLICY_LAYER,
+  MANAGED_RULES_MESSAGE,
+  PresetManager,
+  PresetStore,
+  RuleStore,
+  StorageManager,
+} from "@/core/storage"
+import { ValidationRules } from "@/core/validation/engine"
+import { RESERVED_WORD_PACK } from "@/shared/config/reserved-words"
 import { DateFormatter } from "@/shared/utils/date-formatter"
 import logger from "@/shared/utils/logger"
 import type {
+  GlossaryTerm,
+  GlossaryTermStatus,
+  PresetDiff,
+  PresetImportMode,
+  RuleDefinition,
+  RuleConflict,
+  RuleLayer,
+  RulePreset,
+  RuleSeverity,
+  ValidationMode,
   ValidationStats,
   ValidatorConfig,
+  ValidatorSettings,
 } from "@/shared/types/validation"
 
 /**
@@ -20,6 +42,51 @@ class PopupController {
   /** ID of the currently active tab for communication with content script */
   private currentTabId: number | null = null
 
+  /** Namespaced storage shared by the stores below */
+  private readonly storage = new StorageManager()
+
+  /**
+   * Store for settings managed through `ConfigStore` (the glossary and team
+   * dictionary)
+   */
+  private readonly configStore = new ConfigStore(this.storage)
+
+  /** Store for the rule definitions edited in the Rules section */
+  private readonly ruleStore = new RuleStore(this.storage)
+
+  /** Exports, validates and imports team presets */
+  private readonly presetManager = new PresetManager(
+    this.configStore,
+    this.ruleStore
+  )
+
+  /** Named presets that other presets can extend */
+  private readonly presetStore = new PresetStore(this.storage)
+
+  /** Preset selected for import, awaiting confirmation */
+  private pendingPreset: RulePreset | null = null
+
+  /** Glossary terms currently shown in the popup */
+  private glossary: GlossaryTerm[] = []
+
+  /** Rule definitions currently shown in the popup */
+  private rules: RuleDefinition[] = []
+
+  /**
+   * Layers each shown rule came from, when the active preset is layered;
+   * rules without an entry come from the local ruleset
+   */
+  private ruleOrigins = new Map<string, string[]>()
+
+  /** Conflicts found while layering the active preset */
+  private ruleConflicts: RuleConflict[] = []
+
+  /** Whether the rules shown come from a stored preset (read-only) */
+  private isPresetActive = false
+
+  /** Whether the rules shown are enforced by the managed policy (read-only) */
+  private areRulesManaged = false
+
   /**
    * Creates a new `PopupController` instance and initializes the popup
    */
@@ -47,9 +114,12 @@ class PopupController {
     logger.info("Popup initializing...")
 
     this.getCurrentTab()
-    this.loadConfig()
+    void this.loadConfig()
     this.setupEventListeners()
     this.loadStats()
+    void this.loadRules()
+    void this.loadGlossary()
+    void this.loadDictionary()
   }
 
   /**
@@ -95,7 +165,12 @@ class PopupController {
    * @private
    */
   private toggleButtons(enabled: boolean): void {
-    const buttons = ["btn-validate", "btn-clear", "btn-export"]
+    const buttons = [
+      "btn-validate",
+      "btn-clear",
+      "btn-export",
+      "btn-export-junit",
+    ]
     buttons.forEach((id) => {
       const btn = document.getElementById(id) as HTMLButtonElement
       if (btn) btn.disabled = !enabled
@@ -119,6 +194,12 @@ class PopupController {
       this.sendMessage({ action: "exportReport" })
     })
 
+    document
+      .getElementById("btn-export-junit")
+      ?.addEventListener("click", () => {
+        this.sendMessage({ action: "exportReport", format: "junit" })
+      })
+
     document.getElementById("btn-refresh")?.addEventListener("click", () => {
       this.loadStats()
     })
@@ -127,7 +208,7 @@ class PopupController {
       .getElementById("toggle-auto-validate")
       ?.addEventListener("change", (e) => {
         const checked = (e.target as HTMLInputElement).checked
-        this.updateConfig("autoValidate", checked)
+        void this.updateConfig("autoValidate", checked)
       })
 
     document
@@ -135,29 +216,144 @@ class PopupController {
       ?.addEventListener("change", (e) => {
         const value = parseInt((e.target as HTMLInputElement).value)
         if (value >= 1000 && value <= 10000) {
-          this.updateConfig("pollInterval", value)
+          void this.updateConfig("pollInterval", value)
         }
       })
 
+    document
+      .getElementById("validation-mode")
+      ?.addEventListener("change", (e) => {
+        const value = (e.target as HTMLSelectElement).value
+        void this.updateConfig("validationMode", value as ValidationMode)
+      })
+
     document
       .getElementById("toggle-keyboard")
       ?.addEventListener("change", (e) => {
         const checked = (e.target as HTMLInputElement).checked
-        this.updateConfig("enableKeyboardShortcut", checked)
+        void this.updateConfig("enableKeyboardShortcut", checked)
+      })
+
+    document
+      .getElementById("btn-rules-reset")
+      ?.addEventListener("click", () => {
+        void this.resetRules()
+      })
+
+    document
+      .getElementById("active-preset")
+      ?.addEventListener("change", (e) => {
+        void this.activatePreset((e.target as HTMLSelectElement).value)
+      })
+
+    document
+      .getElementById("btn-preset-export")
+      ?.addEventListener("click", () => {
+        void this.exportPreset()
+      })
+
+    document
+      .getElementById("btn-preset-import")
+      ?.addEventListener("click", () => {
+        document.getElementById("preset-file")?.click()
+      })
+
+    document.getElementById("preset-file")?.addEventListener("change", (e) => {
+      const input = e.target as HTMLInputElement
+      const file = input.files?.[0]
+      input.value = ""
+      if (file) {
+        void this.previewPreset(file)
+      }
+    })
+
+    document
+      .getElementById("btn-preset-apply")
+      ?.addEventListener("click", () => {
+        void this.applyPreset()
+      })
+
+    document
+      .getElementById("btn-preset-cancel")
+      ?.addEventListener("click", () => {
+        this.closePresetDiff()
+      })
+
+    document
+      .getElementById("glossary-status")
+      ?.addEventListener("change", (e) => {
+        const replacement = document.getElementById(
+          "glossary-replacement"
+        ) as HTMLInputElement
+        if (replacement) {
+          replacement.disabled =
+            (e.target as HTMLSelectElement).value !== "banned"
+        }
+      })
+
+    document
+      .getElementById("btn-glossary-add")
+      ?.addEventListener("click", () => {
+        void this.addGlossaryTerm()
+      })
+
+    document
+      .getElementById("btn-dictionary-save")
+      ?.addEventListener("click", () => {
+        void this.saveDictionary()
       })
   }
 
   /**
-   * Loads configuration from storage and updates the UI
+   * Loads configuration from `ConfigStore` and updates the UI
    * @private
    */
-  private loadConfig(): void {
-    chrome.storage.sync.get(["config"], (result) => {
-      const config = result["config"] as Partial<ValidatorConfig> | undefined
-      if (config) {
-        this.updateConfigUI(config)
+  private async loadConfig(): Promise<void> {
+    this.updateConfigUI(await this.configStore.load())
+    this.applyPolicy()
+  }
+
+  /**
+   * Makes the settings locked by the managed policy read-only
+   *
+   * Each setting's row or section is found by its `data-config-key`
+   * attribute.
+   * @private
+   */
+  private applyPolicy(): void {
+    for (const key of this.configStore.getPolicy().lockedConfig ?? []) {
+      const settingEl = document.querySelector(`[data-config-key="${key}"]`)
+      if (settingEl) {
+        this.markManaged(settingEl)
       }
-    })
+    }
+  }
+
+  /**
+   * Disables every control of a setting row or section and adds a
+   * "managed by your organization" hint below its label
+   *
+   * @param containerEl - Setting row or section
+   * @private
+   */
+  private markManaged(containerEl: Element): void {
+    containerEl
+      .querySelectorAll<
+        | HTMLInputElement
+        | HTMLSelectElement
+        | HTMLTextAreaElement
+        | HTMLButtonElement
+      >("input, select, textarea, button")
+      .forEach((controlEl) => {
+        controlEl.disabled = true
+      })
+
+    if (containerEl.querySelector(".managed-hint")) return
+
+    const hintEl = document.createElement("div")
+    hintEl.className = "managed-hint"
+    hintEl.textContent = "🔒 Managed by your organization"
+    containerEl.querySelector(".setting-label, .section-title")?.after(hintEl)
   }
 
   /**
@@ -181,6 +377,13 @@ class PopupController {
       pollInterval.value = config.pollInterval.toString()
     }
 
+    const validationMode = document.getElementById(
+      "validation-mode"
+    ) as HTMLSelectElement
+    if (validationMode && config.validationMode) {
+      validationMode.value = config.validationMode
+    }
+
     const keyboard = document.getElementById(
       "toggle-keyboard"
     ) as HTMLInputElement
@@ -190,23 +393,718 @@ class PopupController {
   }
 
   /**
-   * Updates a configuration value and persists it to storage
+   * Updates a configuration value and persists it through `ConfigStore`
+   *
+   * Open IICS pages pick the change up from storage and apply it at once.
    *
    * @param key - Configuration key to update
    * @param value - New value for the configuration key
+   * @returns True if the value was saved, false if it was rejected
+   * @private
+   */
+  private async updateConfig<K extends keyof ValidatorConfig>(
+    key: K,
+    value: ValidatorConfig[K]
+  ): Promise<boolean> {
+    const update = { [key]: value } as Partial<ValidatorConfig>
+
+    try {
+      await this.configStore.update(update)
+    } catch (error) {
+      this.showMessage((error as Error).message, "error")
+      return false
+    }
+
+    logger.info(`Config updated: ${key} = ${String(value)}`)
+    this.showMessage("Settings saved", "success")
+    return true
+  }
+
+  /**
+   * Loads the rule definitions from `RuleStore` and renders them
+   * @private
+   */
+  private async loadRules(): Promise<void> {
+    const settings = await this.loadSettings()
+    const { activePreset } = settings.config
+    void this.loadPresets(activePreset)
+
+    this.rules = settings.rules
+    this.ruleOrigins = new Map()
+    this.ruleConflicts = []
+    this.isPresetActive = false
+    this.areRulesManaged = false
+
+    const { rules: managedRules } = this.configStore.getPolicy()
+    if (managedRules) {
+      const rules = new ValidationRules()
+      this.ruleConflicts = rules.loadLayers([
+        { name: MANAGED_POLICY_LAYER, rules: managedRules },
+      ])
+      this.rules = rules.getDefinitions()
+      this.ruleOrigins = new Map(
+        this.rules.map((rule) => [rule.name, [MANAGED_POLICY_LAYER]])
+      )
+      this.areRulesManaged = true
+    } else if (activePreset) {
+      try {
+        const layers = await this.presetStore.resolveLayers(activePreset)
+        const rules = new ValidationRules()
+        this.ruleConflicts = rules.loadLayers(layers)
+        this.rules = rules.getDefinitions()
+        this.ruleOrigins = new Map(
+          this.rules.map((rule) => [rule.name, rules.getOrigins(rule.name)])
+        )
+        this.isPresetActive = true
+      } catch (error) {
+        this.showMessage((error as Error).message, "error")
+      }
+    }
+
+    this.renderRules()
+  }
+
+  /**
+   * Fills the active preset selector with the stored presets
+   *
+   * @param activePreset - Name of the preset to select
    * @private
    */
-  private updateConfig(key: string, value: any): void {
-    chrome.storage.sync.get(["config"], (result) => {
-      const config = (result["config"] as Record<string, any>) || {}
-      config[key] = value
+  private async loadPresets(activePreset: string): Promise<void> {
+    const selectEl = document.getElementById(
+      "active-preset"
+    ) as HTMLSelectElement | null
+    if (!selectEl) return
 
-      chrome.storage.sync.set({ config }, () => {
-        logger.info(`Config updated: ${key} = ${value}`)
-        this.sendMessage({ action: "updateConfig", config: { [key]: value } })
-        this.showMessage("Settings saved", "success")
+    const presets = await this.presetStore.list()
+    selectEl.replaceChildren(
+      new Option("None (local rules)", ""),
+      ...presets.map((preset) => {
+        const label = preset.extends
+          ? `${preset.name} (extends ${preset.extends})`
+          : preset.name ?? ""
+        return new Option(label, preset.name ?? "")
+      })
+    )
+    selectEl.value = activePreset
+  }
+
+  /**
+   * Renders each rule with the layer it came from, an enable toggle, its
+   * severity and any length limits it defines
+   *
+   * Rules enforced by the managed policy or an active stored preset are
+   * read-only; layering conflicts are listed below the rules.
+   * @private
+   */
+  private renderRules(): void {
+    const listEl = document.getElementById("rule-list")
+    if (!listEl) return
+
+    const isReadOnly = this.isPresetActive || this.areRulesManaged
+    listEl.replaceChildren()
+    for (const rule of this.rules) {
+      const enabled = rule.enabled ?? true
+
+      const itemEl = document.createElement("div")
+      itemEl.className = enabled ? "rule-item" : "rule-item disabled"
+
+      const headerEl = document.createElement("div")
+      headerEl.className = "rule-header"
+
+      const nameEl = document.createElement("span")
+      nameEl.className = "rule-name"
+      nameEl.textContent = rule.name
+
+      const layerEl = document.createElement("span")
+      layerEl.className = "rule-layer"
+      layerEl.textContent =
+        this.ruleOrigins.get(rule.name)?.join(" → ") ?? "local"
+      nameEl.appendChild(layerEl)
+
+      const toggleEl = document.createElement("label")
+      toggleEl.className = "toggle"
+      toggleEl.title = enabled ? `Disable ${rule.name}` : `Enable ${rule.name}`
+
+      const checkboxEl = document.createElement("input")
+      checkboxEl.type = "checkbox"
+      checkboxEl.checked = enabled
+      checkboxEl.disabled = isReadOnly
+      checkboxEl.addEventListener("change", () => {
+        void this.updateRule(rule.name, { enabled: checkboxEl.checked })
+      })
+
+      const sliderEl = document.createElement("span")
+      sliderEl.className = "toggle-slider"
+
+      toggleEl.append(checkboxEl, sliderEl)
+      headerEl.append(nameEl, toggleEl)
+
+      const messageEl = document.createElement("div")
+      messageEl.className = "rule-message"
+      messageEl.textContent = rule.reservedWords
+        ? `${rule.message} (reserved words v${RESERVED_WORD_PACK.version})`
+        : rule.message
+
+      const paramsEl = document.createElement("div")
+      paramsEl.className = "rule-params"
+
+      const severityEl = document.createElement("select")
+      severityEl.className = "input-small"
+      severityEl.title = "Severity"
+      for (const severity of ["error", "warning", "info"]) {
+        severityEl.add(new Option(severity, severity))
+      }
+      severityEl.value = rule.severity ?? "error"
+      severityEl.disabled = isReadOnly
+      severityEl.addEventListener("change", () => {
+        void this.updateRule(rule.name, {
+          severity: severityEl.value as RuleSeverity,
+        })
       })
+      paramsEl.appendChild(severityEl)
+
+      for (const key of ["minLength", "maxLength"] as const) {
+        const limit = rule[key]
+        if (limit === undefined) continue
+
+        const inputEl = document.createElement("input")
+        inputEl.type = "number"
+        inputEl.className = "input-small"
+        inputEl.min = "0"
+        inputEl.value = limit.toString()
+        inputEl.disabled = isReadOnly
+        inputEl.title =
+          key === "minLength" ? "Minimum length" : "Maximum length"
+        inputEl.addEventListener("change", () => {
+          const value = Number(inputEl.value)
+          if (inputEl.value === "" || !Number.isInteger(value)) {
+            this.showMessage("Enter a whole number", "error")
+            inputEl.value = limit.toString()
+            return
+          }
+
+          void this.updateRule(rule.name, { [key]: value })
+        })
+        paramsEl.appendChild(inputEl)
+      }
+
+      itemEl.append(headerEl, messageEl, paramsEl)
+      listEl.appendChild(itemEl)
+    }
+
+    const conflictsEl = document.getElementById("rule-conflicts")
+    if (conflictsEl) {
+      conflictsEl.replaceChildren(
+        ...this.ruleConflicts.map((conflict) => {
+          const itemEl = document.createElement("li")
+          itemEl.textContent = conflict.message
+          return itemEl
+        })
+      )
+    }
+
+    const resetEl = document.getElementById(
+      "btn-rules-reset"
+    ) as HTMLButtonElement | null
+    if (resetEl) resetEl.disabled = isReadOnly
+
+    if (this.areRulesManaged) {
+      const sectionEl = document
+        .getElementById("rule-list")
+        ?.closest(".section")
+      if (sectionEl) this.markManaged(sectionEl)
+
+      const presetEl = document.querySelector(
+        '[data-config-key="activePreset"]'
+      )
+      if (presetEl) this.markManaged(presetEl)
+
+      this.closePresetDiff()
+      for (const id of ["btn-preset-import", "btn-preset-apply"]) {
+        const buttonEl = document.getElementById(id) as HTMLButtonElement | null
+        if (buttonEl) buttonEl.disabled = true
+      }
+    }
+  }
+
+  /**
+   * Applies changes to one rule and saves the whole ruleset
+   *
+   * @param name - Name of the rule to change
+   * @param changes - Definition properties to overwrite
+   * @private
+   */
+  private async updateRule(
+    name: string,
+    changes: Partial<RuleDefinition>
+  ): Promise<void> {
+    const rules = this.rules.map((rule) =>
+      rule.name === name ? { ...rule, ...changes } : rule
+    )
+
+    await this.saveRules(rules)
+  }
+
+  /**
+   * Persists the ruleset through `RuleStore` and tells the content script
+   * to reload it
+   *
+   * Rejected changes, and any change while the managed policy enforces the
+   * rules, are reverted in the list.
+   *
+   * @param rules - Complete list of rule definitions to save
+   * @private
+   */
+  private async saveRules(rules: RuleDefinition[]): Promise<void> {
+    if (this.areRulesManaged) {
+      this.showMessage(MANAGED_RULES_MESSAGE, "error")
+      this.renderRules()
+      return
+    }
+
+    try {
+      await this.ruleStore.save(rules)
+    } catch (error) {
+      this.showMessage((error as Error).message, "error")
+      this.renderRules()
+      return
+    }
+
+    this.rules = rules
+    this.renderRules()
+    this.sendMessage({ action: "updateRules" })
+    this.showMessage("Rules saved", "success")
+  }
+
+  /**
+   * Restores the bundled default rules
+   * @private
+   */
+  private async resetRules(): Promise<void> {
+    if (this.areRulesManaged) {
+      this.showMessage(MANAGED_RULES_MESSAGE, "error")
+      return
+    }
+
+    this.rules = await this.ruleStore.reset()
+    this.renderRules()
+    this.sendMessage({ action: "updateRules" })
+    this.showMessage("Rules reset to defaults", "success")
+  }
+
+  /**
+   * Gets the stored configuration and the locally edited rule definitions
+   * @private
+   */
+  private async loadSettings(): Promise<ValidatorSettings> {
+    const [config, rules] = await Promise.all([
+      this.configStore.load(),
+      this.ruleStore.load(),
+    ])
+
+    return { config, rules }
+  }
+
+  /**
+   * Gets the settings currently in use, with the rule definitions the
+   * content script validates against: the managed rules, the active
+   * preset's layers or the local rules (see `loadRules`)
+   * @private
+   */
+  private async loadActiveSettings(): Promise<ValidatorSettings> {
+    await this.loadRules()
+    return { config: this.configStore.getConfig(), rules: this.rules }
+  }
+
+  /**
+   * Downloads the current settings as a preset JSON file
+   * @private
+   */
+  private async exportPreset(): Promise<void> {
+    const preset = this.presetManager.create(await this.loadActiveSettings())
+    const blob = new Blob([JSON.stringify(preset, null, 2)], {
+      type: "application/json",
     })
+    const url = URL.createObjectURL(blob)
+
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "iics-validator-preset.json"
+    link.click()
+    URL.revokeObjectURL(url)
+
+    this.showMessage("Preset exported", "success")
+  }
+
+  /**
+   * Validates a preset file and shows how it differs from the current
+   * settings
+   *
+   * @param file - Preset file chosen by the user
+   * @private
+   */
+  private async previewPreset(file: File): Promise<void> {
+    try {
+      this.pendingPreset = this.presetManager.parse(await file.text())
+    } catch (error) {
+      this.pendingPreset = null
+      this.showMessage((error as Error).message, "error")
+      return
+    }
+
+    const settings = await this.loadActiveSettings()
+    const preset = this.pendingPreset
+    if (preset.extends === undefined) {
+      this.renderPresetDiff(preset, this.presetManager.diff(preset, settings))
+      return
+    }
+
+    let layers: RuleLayer[]
+    try {
+      layers = await this.presetStore.resolveLayers(preset.extends)
+    } catch (error) {
+      this.pendingPreset = null
+      this.showMessage((error as Error).message, "error")
+      return
+    }
+
+    const base = new ValidationRules()
+    base.loadLayers(layers)
+    const conflicts = new ValidationRules().loadLayers([
+      ...layers,
+      { name: preset.name ?? "imported preset", rules: preset.rules },
+    ])
+    const diff = this.presetManager.diff(preset, {
+      config: settings.config,
+      rules: base.getDefinitions(),
+    })
+
+    this.renderPresetDiff(
+      preset,
+      { ...diff, config: [], removedRules: [] },
+      conflicts
+    )
+  }
+
+  /**
+   * Renders the changes an import would make
+   *
+   * A preset that extends another is compared with its base and can only
+   * be stored as a layer, so the merge and replace modes are disabled.
+   *
+   * @param preset - Preset awaiting confirmation
+   * @param diff - Differences with the current settings or the base preset
+   * @param conflicts - Inherited rules the preset disables or weakens
+   * @private
+   */
+  private renderPresetDiff(
+    preset: RulePreset,
+    diff: PresetDiff,
+    conflicts: RuleConflict[] = []
+  ): void {
+    const panelEl = document.getElementById("preset-diff")
+    const summaryEl = document.getElementById("preset-summary")
+    const changesEl = document.getElementById("preset-changes")
+    const modeEl = document.getElementById(
+      "preset-mode"
+    ) as HTMLSelectElement | null
+    if (!panelEl || !summaryEl || !changesEl) return
+
+    const isLayer = preset.extends !== undefined
+    if (modeEl) {
+      for (const option of Array.from(modeEl.options)) {
+        option.disabled = isLayer && option.value !== "store"
+      }
+      modeEl.value = isLayer ? "store" : "merge"
+    }
+
+    const format = (value: unknown): string =>
+      Array.isArray(value) ? `${value.length} entries` : String(value)
+
+    const changes = [
+      ...diff.config.map(
+        (change) =>
+          `${change.key}: ${format(change.current)} → ${format(
+            change.incoming
+          )}`
+      ),
+      ...diff.addedRules.map((name) => `+ ${name}`),
+      ...diff.changedRules.map((name) => `~ ${name}`),
+      ...diff.removedRules.map((name) => `− ${name} (replace only)`),
+      ...conflicts.map((conflict) => `! ${conflict.message}`),
+    ]
+
+    const title = isLayer
+      ? `${preset.name ?? "Preset"} (extends ${preset.extends})`
+      : preset.name ?? "Preset"
+    summaryEl.textContent =
+      changes.length > 0
+        ? `${title}: ${changes.length} difference(s)`
+        : `${title} matches the current settings`
+
+    changesEl.replaceChildren(
+      ...changes.map((change) => {
+        const itemEl = document.createElement("li")
+        itemEl.textContent = change
+        return itemEl
+      })
+    )
+    panelEl.hidden = false
+  }
+
+  /**
+   * Imports the pending preset with the chosen mode and pushes the result
+   * to the content script
+   * @private
+   */
+  private async applyPreset(): Promise<void> {
+    if (!this.pendingPreset) return
+    if (this.areRulesManaged) {
+      this.showMessage(MANAGED_RULES_MESSAGE, "error")
+      this.closePresetDiff()
+      return
+    }
+
+    const modeEl = document.getElementById(
+      "preset-mode"
+    ) as HTMLSelectElement | null
+    if (modeEl?.value === "store") {
+      await this.storePreset(this.pendingPreset)
+      return
+    }
+
+    const mode = (modeEl?.value ?? "merge") as PresetImportMode
+
+    let settings: ValidatorSettings
+    try {
+      settings = await this.presetManager.apply(
+        this.pendingPreset,
+        await this.loadActiveSettings(),
+        mode
+      )
+    } catch (error) {
+      this.showMessage((error as Error).message, "error")
+      return
+    }
+
+    this.updateConfigUI(settings.config)
+    this.glossary = settings.config.glossary
+    void this.loadRules()
+    this.renderGlossary()
+    void this.loadDictionary()
+
+    this.sendMessage({ action: "updateRules" })
+    this.closePresetDiff()
+    this.showMessage("Preset imported", "success")
+  }
+
+  /**
+   * Stores the pending preset by name so it can be activated or extended
+   *
+   * @param preset - Validated preset
+   * @private
+   */
+  private async storePreset(preset: RulePreset): Promise<void> {
+    try {
+      await this.presetStore.save(preset)
+    } catch (error) {
+      this.showMessage((error as Error).message, "error")
+      return
+    }
+
+    this.closePresetDiff()
+    await this.loadRules()
+    this.showMessage(`Preset "${preset.name}" stored`, "success")
+  }
+
+  /**
+   * Activates a stored preset, or the local rules for an empty name
+   *
+   * @param name - Name of the stored preset
+   * @private
+   */
+  private async activatePreset(name: string): Promise<void> {
+    if (!(await this.updateConfig("activePreset", name))) return
+
+    await this.loadRules()
+    this.showMessage(
+      name ? `Preset "${name}" active` : "Using local rules",
+      "success"
+    )
+  }
+
+  /**
+   * Hides the import preview and forgets the pending preset
+   * @private
+   */
+  private closePresetDiff(): void {
+    this.pendingPreset = null
+    const panelEl = document.getElementById("preset-diff")
+    if (panelEl) panelEl.hidden = true
+  }
+
+  /**
+   * Loads the abbreviation glossary from `ConfigStore` and renders it
+   * @private
+   */
+  private async loadGlossary(): Promise<void> {
+    const config = await this.configStore.load()
+    this.glossary = config.glossary
+    this.renderGlossary()
+  }
+
+  /**
+   * Renders the glossary terms with a remove button for each
+   * @private
+   */
+  private renderGlossary(): void {
+    const listEl = document.getElementById("glossary-list")
+    if (!listEl) return
+
+    listEl.replaceChildren()
+    if (this.glossary.length === 0) {
+      const emptyEl = document.createElement("div")
+      emptyEl.className = "glossary-empty"
+      emptyEl.textContent = "No glossary terms"
+      listEl.appendChild(emptyEl)
+      return
+    }
+
+    for (const term of this.glossary) {
+      const itemEl = document.createElement("div")
+      itemEl.className = "glossary-item"
+
+      const termEl = document.createElement("span")
+      termEl.className = "glossary-term"
+      termEl.textContent = term.replacement
+        ? `${term.abbreviation} → ${term.replacement} (${term.expansion})`
+        : `${term.abbreviation} (${term.expansion})`
+
+      const statusEl = document.createElement("span")
+      statusEl.className = `glossary-status ${term.status}`
+      statusEl.textContent = term.status
+
+      const removeEl = document.createElement("button")
+      removeEl.className = "glossary-remove"
+      removeEl.title = `Remove ${term.abbreviation}`
+      removeEl.textContent = "×"
+      removeEl.addEventListener("click", () => {
+        void this.saveGlossary(
+          this.glossary.filter((t) => t.abbreviation !== term.abbreviation)
+        )
+      })
+
+      itemEl.append(termEl, statusEl, removeEl)
+      listEl.appendChild(itemEl)
+    }
+
+    this.applyPolicy()
+  }
+
+  /**
+   * Adds the term entered in the glossary form
+   * @private
+   */
+  private async addGlossaryTerm(): Promise<void> {
+    const read = (id: string): string =>
+      (document.getElementById(id) as HTMLInputElement | null)?.value.trim() ??
+      ""
+
+    const term: GlossaryTerm = {
+      abbreviation: read("glossary-abbreviation"),
+      expansion: read("glossary-expansion"),
+      status: read("glossary-status") as GlossaryTermStatus,
+    }
+
+    const replacement = read("glossary-replacement")
+    if (term.status === "banned" && replacement) {
+      term.replacement = replacement
+    }
+
+    if (!term.abbreviation || !term.expansion) {
+      this.showMessage("Enter an abbreviation and its expansion", "error")
+      return
+    }
+
+    const saved = await this.saveGlossary([...this.glossary, term])
+    if (saved) {
+      for (const id of [
+        "glossary-abbreviation",
+        "glossary-expansion",
+        "glossary-replacement",
+      ]) {
+        const input = document.getElementById(id) as HTMLInputElement | null
+        if (input) input.value = ""
+      }
+    }
+  }
+
+  /**
+   * Persists the glossary through `ConfigStore`, which open pages apply
+   *
+   * @param glossary - Complete list of glossary terms to save
+   * @returns True if the glossary was saved, false if it was rejected
+   * @private
+   */
+  private async saveGlossary(glossary: GlossaryTerm[]): Promise<boolean> {
+    try {
+      await this.configStore.update({ glossary })
+    } catch (error) {
+      this.showMessage((error as Error).message, "error")
+      return false
+    }
+
+    this.glossary = glossary
+    this.renderGlossary()
+    this.showMessage("Glossary saved", "success")
+    return true
+  }
+
+  /**
+   * Loads the team dictionary from `ConfigStore` into its text area
+   * @private
+   */
+  private async loadDictionary(): Promise<void> {
+    const config = await this.configStore.load()
+    const wordsEl = document.getElementById(
+      "dictionary-words"
+    ) as HTMLTextAreaElement | null
+    if (wordsEl) {
+      wordsEl.value = config.dictionary.join("\n")
+    }
+  }
+
+  /**
+   * Persists the words entered in the team dictionary through `ConfigStore`
+   *
+   * Words may be separated by new lines, spaces or commas; duplicates are
+   * dropped ignoring case.
+   * @private
+   */
+  private async saveDictionary(): Promise<void> {
+    const wordsEl = document.getElementById(
+      "dictionary-words"
+    ) as HTMLTextAreaElement | null
+    if (!wordsEl) return
+
+    const seen = new Set<string>()
+    const dictionary = wordsEl.value.split(/[\s,]+/).filter((word) => {
+      const key = word.toLowerCase()
+      if (!key || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+
+    try {
+      await this.configStore.update({ dictionary })
+    } catch (error) {
+      this.showMessage((error as Error).message, "error")
+      return
+    }
+
+    wordsEl.value = dictionary.join("\n")
+    this.showMessage("Dictionary saved", "success")
   }
 
   /**
@@ -231,11 +1129,15 @@ class PopupController {
     const totalEl = document.getElementById("stat-total")
     const validEl = document.getElementById("stat-valid")
     const invalidEl = document.getElementById("stat-invalid")
+    const warningEl = document.getElementById("stat-warning")
     const lastValidatedEl = document.getElementById("last-validated")
 
     if (totalEl) totalEl.textContent = stats.totalFields.toString()
     if (validEl) validEl.textContent = stats.validFields.toString()
     if (invalidEl) invalidEl.textContent = stats.invalidFields.toString()
+    if (warningEl) {
+      warningEl.textContent = (stats.warningFields ?? 0).toString()
+    }
 
     if (lastValidatedEl && stats.lastValidated) {
       const date = new Date(stats.lastValidated)
@@ -261,7 +1163,8 @@ class PopupController {
       return
     }
 
-    const percentage = (stats.validFields / stats.totalFields) * 100
+    const passing = stats.validFields + (stats.warningFields ?? 0)
+    const percentage = (passing / stats.totalFields) * 100
     progressBar.style.width = `${percentage}%`
 
     if (percentage === 100) {
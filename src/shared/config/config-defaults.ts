@@ -1,4 +1,5 @@
 import { ValidatorConfig } from "../types/validation"
+import { DEFAULT_GLOSSARY } from "./glossary-defaults"
 
 export const DEFAULT_CONFIG: ValidatorConfig = {
   pollInterval: 2000,
@@ -7,4 +8,11 @@ export const DEFAULT_CONFIG: ValidatorConfig = {
   enableKeyboardShortcut: true,
   minFieldsForProcess: 5,
   maxRetries: 3,
+  glossary: DEFAULT_GLOSSARY,
+  dictionary: [],
+  validationMode: "complete",
+  stopOnFirstError: false,
+  maxErrorsPerField: 3,
+  priorityTierSize: 10,
+  activePreset: "",
 }
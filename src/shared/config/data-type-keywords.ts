@@ -0,0 +1,19 @@
+import { FieldDataType } from "../types/validation"
+
+/**
+ * Keywords identifying each data type, checked in order so that e.g.
+ * "Date Time" is not read as "Date"
+ *
+ * Matched against the type selector of the Process Designer fields grid and
+ * the type names of exported CAI definitions.
+ */
+export const DATA_TYPE_KEYWORDS: [FieldDataType, RegExp][] = [
+  ["boolean", /boolean|checkbox/i],
+  ["datetime", /date\s*time|timestamp/i],
+  ["date", /date/i],
+  ["time", /time/i],
+  ["integer", /integer|\bint\b/i],
+  ["decimal", /decimal|double|float|number|currency/i],
+  ["object", /object|reference|list/i],
+  ["text", /text|string/i],
+]
@@ -0,0 +1,39 @@
+import {
+  ExecutionStrategy,
+  ValidationMode,
+  ValidatorConfig,
+} from "../types/validation"
+
+/**
+ * Stored settings the `fast` validation mode takes its options from
+ */
+export type FastModeSettings = Pick<
+  ValidatorConfig,
+  "stopOnFirstError" | "maxErrorsPerField" | "priorityTierSize"
+>
+
+/**
+ * Builds the execution strategy of each validation mode
+ *
+ * `complete` runs every rule and reports every violation. `fast` uses the
+ * stored settings: by default it only runs lower-priority tiers (casing,
+ * glossary, type conventions) on fields whose structural rules pass, and
+ * caps the errors per field, so large processes can be checked quickly.
+ * Each strategy sets every option, since `ValidatorEngine.updateConfig`
+ * keeps the options it is not given.
+ */
+export const EXECUTION_STRATEGIES: Record<
+  ValidationMode,
+  (settings: FastModeSettings) => Required<ExecutionStrategy>
+> = {
+  complete: () => ({
+    stopOnFirstError: false,
+    maxErrorsPerField: Number.POSITIVE_INFINITY,
+    priorityTierSize: 0,
+  }),
+  fast: ({ stopOnFirstError, maxErrorsPerField, priorityTierSize }) => ({
+    stopOnFirstError,
+    maxErrorsPerField,
+    priorityTierSize,
+  }),
+}
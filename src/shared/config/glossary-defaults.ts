@@ -0,0 +1,22 @@
+import { GlossaryTerm } from "../types/validation"
+
+export const DEFAULT_GLOSSARY: GlossaryTerm[] = [
+  { abbreviation: "Cust", expansion: "Customer", status: "approved" },
+  { abbreviation: "Amt", expansion: "Amount", status: "approved" },
+  { abbreviation: "Qty", expansion: "Quantity", status: "approved" },
+  { abbreviation: "Nbr", expansion: "Number", status: "approved" },
+  { abbreviation: "Id", expansion: "Identifier", status: "approved" },
+  { abbreviation: "DT", expansion: "Date/Time", status: "approved" },
+  {
+    abbreviation: "Num",
+    expansion: "Number",
+    status: "banned",
+    replacement: "Nbr",
+  },
+  {
+    abbreviation: "No",
+    expansion: "Number",
+    status: "banned",
+    replacement: "Nbr",
+  },
+]
@@ -0,0 +1,224 @@
+import { ReservedWordTechnology } from "../types/validation"
+
+/**
+ * Bundled reserved-word pack used by `reservedWords` rule constraints
+ *
+ * Bump `version` whenever a word list changes so exported reports and
+ * stored rulesets can be traced back to the list they were checked against;
+ * violation messages name the version. Words are matched against whole
+ * field names. `common` lists the reserved words that are also everyday
+ * business field names, which the default rules only warn about.
+ */
+export const RESERVED_WORD_PACK: {
+  version: string
+  labels: Record<ReservedWordTechnology, string>
+  common: string[]
+  words: Record<ReservedWordTechnology, string[]>
+} = {
+  version: "1.1.0",
+  labels: {
+    cai: "CAI",
+    xquery: "XQuery",
+    sql: "SQL",
+    javascript: "JavaScript",
+  },
+  common: [
+    "column",
+    "comment",
+    "date",
+    "document",
+    "index",
+    "item",
+    "key",
+    "level",
+    "number",
+    "order",
+    "size",
+    "table",
+    "text",
+    "timestamp",
+    "user",
+    "values",
+    "version",
+    "view",
+  ],
+  words: {
+    cai: ["fault", "input", "output", "process", "system", "temp", "type"],
+    xquery: [
+      "and",
+      "as",
+      "ascending",
+      "at",
+      "attribute",
+      "case",
+      "cast",
+      "castable",
+      "collation",
+      "comment",
+      "declare",
+      "default",
+      "descending",
+      "div",
+      "document",
+      "element",
+      "else",
+      "empty",
+      "eq",
+      "every",
+      "except",
+      "external",
+      "for",
+      "function",
+      "ge",
+      "gt",
+      "idiv",
+      "if",
+      "import",
+      "in",
+      "instance",
+      "intersect",
+      "is",
+      "item",
+      "le",
+      "let",
+      "lt",
+      "mod",
+      "module",
+      "namespace",
+      "ne",
+      "node",
+      "of",
+      "or",
+      "order",
+      "return",
+      "satisfies",
+      "schema",
+      "some",
+      "stable",
+      "text",
+      "then",
+      "to",
+      "treat",
+      "typeswitch",
+      "union",
+      "validate",
+      "variable",
+      "version",
+      "where",
+      "xquery",
+    ],
+    sql: [
+      "add",
+      "all",
+      "alter",
+      "and",
+      "any",
+      "as",
+      "asc",
+      "between",
+      "by",
+      "case",
+      "check",
+      "column",
+      "constraint",
+      "create",
+      "database",
+      "date",
+      "default",
+      "delete",
+      "desc",
+      "distinct",
+      "drop",
+      "else",
+      "end",
+      "exists",
+      "foreign",
+      "from",
+      "full",
+      "group",
+      "having",
+      "in",
+      "index",
+      "inner",
+      "insert",
+      "into",
+      "is",
+      "join",
+      "key",
+      "left",
+      "level",
+      "like",
+      "limit",
+      "not",
+      "null",
+      "number",
+      "on",
+      "or",
+      "order",
+      "outer",
+      "primary",
+      "references",
+      "right",
+      "rownum",
+      "select",
+      "set",
+      "size",
+      "table",
+      "timestamp",
+      "top",
+      "truncate",
+      "union",
+      "unique",
+      "update",
+      "user",
+      "values",
+      "view",
+      "where",
+    ],
+    javascript: [
+      "arguments",
+      "await",
+      "break",
+      "case",
+      "catch",
+      "class",
+      "const",
+      "continue",
+      "debugger",
+      "default",
+      "delete",
+      "do",
+      "else",
+      "enum",
+      "eval",
+      "export",
+      "extends",
+      "false",
+      "finally",
+      "for",
+      "function",
+      "if",
+      "import",
+      "in",
+      "instanceof",
+      "let",
+      "new",
+      "null",
+      "return",
+      "static",
+      "super",
+      "switch",
+      "this",
+      "throw",
+      "true",
+      "try",
+      "typeof",
+      "undefined",
+      "var",
+      "void",
+      "while",
+      "with",
+      "yield",
+    ],
+  },
+}
@@ -0,0 +1,139 @@
+import {
+  CasingConvention,
+  FieldCategory,
+  RuleDefinition,
+} from "../types/validation"
+import { TYPE_RULE_TEMPLATES } from "./rule-templates"
+
+/**
+ * Casing convention enforced for each field category
+ */
+export const DEFAULT_CASING_CONVENTIONS: Record<
+  FieldCategory,
+  CasingConvention
+> = {
+  process: "PascalCase",
+  input: "PascalCase",
+  output: "PascalCase",
+  temp: "PascalCase",
+  other: "PascalCase",
+}
+
+export const DEFAULT_RULE_DEFINITIONS: RuleDefinition[] = [
+  {
+    name: "not-empty",
+    message: "Field cannot be empty",
+    priority: 1,
+    minLength: 1,
+  },
+  {
+    name: "starts-with-capital",
+    message: "Must start with capital letter",
+    priority: 2,
+    pattern: "^[A-Z]",
+    fix: "capitalize",
+  },
+  {
+    name: "no-spaces",
+    message: "No spaces allowed",
+    priority: 3,
+    forbiddenPattern: "\\s",
+    fix: "join-words",
+  },
+  {
+    name: "alphanumeric-underscore",
+    message: "Only letters, numbers, and underscore allowed",
+    priority: 4,
+    allowedCharacters: ["upper", "lower", "digit", "underscore"],
+    fix: "strip-invalid-characters",
+  },
+  {
+    name: "min-length",
+    message: "Must be at least 3 characters",
+    priority: 5,
+    minLength: 3,
+  },
+  {
+    name: "max-length",
+    message: "Cannot exceed 50 characters",
+    priority: 6,
+    maxLength: 50,
+    fix: "truncate",
+  },
+  {
+    name: "no-trailing-underscore",
+    message: "Cannot end with underscore",
+    priority: 7,
+    forbiddenPattern: "_$",
+    fix: "trim-trailing-underscores",
+  },
+  {
+    name: "no-consecutive-underscores",
+    message: "No consecutive underscores",
+    priority: 8,
+    forbiddenSubstrings: ["__"],
+    fix: "collapse-underscores",
+  },
+  {
+    name: "no-leading-number",
+    message: "Cannot start with number",
+    priority: 9,
+    forbiddenPattern: "^[0-9]",
+    fix: "strip-leading-digits",
+  },
+  ...(
+    Object.entries(DEFAULT_CASING_CONVENTIONS) as [
+      FieldCategory,
+      CasingConvention
+    ][]
+  ).map(
+    ([category, casing], index): RuleDefinition => ({
+      name: `casing-${category}`,
+      message: `Must use ${casing} for ${category} fields`,
+      priority: 10 + index,
+      severity: "warning",
+      casing,
+      categories: [category],
+      fix: "convert-casing",
+    })
+  ),
+  {
+    name: "no-reserved-words",
+    message: "Cannot be a reserved word",
+    priority: 15,
+    reservedWords: ["cai", "xquery", "sql", "javascript"],
+    reservedWordScope: "keywords",
+  },
+  {
+    name: "no-common-reserved-words",
+    message: "Should not be a reserved word",
+    priority: 15,
+    severity: "warning",
+    reservedWords: ["cai", "xquery", "sql", "javascript"],
+    reservedWordScope: "common",
+  },
+  {
+    name: "approved-abbreviations",
+    message: "Must use approved abbreviations",
+    priority: 16,
+    severity: "warning",
+    glossary: true,
+    fix: "replace-abbreviations",
+  },
+  {
+    name: "unapproved-abbreviations",
+    message: "Abbreviations must be in the approved glossary",
+    priority: 16,
+    severity: "warning",
+    unapprovedAbbreviations: true,
+  },
+  {
+    name: "spelling",
+    message: "Words must be spelled correctly",
+    priority: 17,
+    severity: "warning",
+    spelling: true,
+    fix: "correct-spelling",
+  },
+  ...TYPE_RULE_TEMPLATES,
+]
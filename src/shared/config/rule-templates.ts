@@ -0,0 +1,35 @@
+import { RuleDefinition } from "../types/validation"
+
+/**
+ * Naming rules for fields whose data type is detected in the Process
+ * Designer fields grid
+ *
+ * They only run on fields with a matching `dataType` in their validation
+ * context, and are reported as warnings.
+ */
+export const TYPE_RULE_TEMPLATES: RuleDefinition[] = [
+  {
+    name: "boolean-prefix",
+    message: "Boolean fields must start with Is or Has",
+    priority: 20,
+    severity: "warning",
+    prefix: ["Is", "Has"],
+    dataTypes: ["boolean"],
+  },
+  {
+    name: "date-suffix",
+    message: "Date fields must end with Date or DT",
+    priority: 21,
+    severity: "warning",
+    suffix: ["Date", "DT"],
+    dataTypes: ["date", "datetime"],
+  },
+  {
+    name: "amount-suffix",
+    message: "Amount fields must end with Amt",
+    priority: 22,
+    severity: "warning",
+    suffix: "Amt",
+    dataTypes: ["decimal"],
+  },
+]
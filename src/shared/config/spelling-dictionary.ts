@@ -0,0 +1,83 @@
+/**
+ * Bundled English words for spell-checking field names
+ *
+ * Covers common business, integration and data-modelling vocabulary. Words
+ * specific to a team or system belong in the team dictionary stored with the
+ * configuration instead.
+ */
+export const SPELLING_DICTIONARY: string[] = `
+  about above absolute accept accepted access account accounting accrual
+  accrued accumulated achieve acknowledge acknowledgement acquire action
+  activate activation active activity actual add added addition additional
+  address adjust adjustment admin administrator adult advance advanced after
+  age agency agent aggregate agreement alert alias all allocate allocation
+  allow allowance allowed alternate amount analysis annual answer any api
+  application applied apply appointment approval approve approved approver
+  archive area argument arrival array article asset assign assigned
+  assignment associate at attachment attempt attempts attribute audit author
+  authorization authorize authorized auto available average back backup
+  balance bank banking base based batch before begin benefit beneficiary bill
+  billing binary birth block blocked body bonus book booking boolean border
+  branch brand break budget buffer build builder bundle business buyer by
+  cache calculate calculated calculation calendar call callback campaign
+  cancel cancellation cancelled capacity capital card carrier case cash
+  catalog category cause center certificate chain change changed channel
+  charge chart check checked checkout child city claim class classification
+  clean clear client close closed closing code collection column comment
+  commission commit company compare compensation complete completed
+  completion compliance component condition config configuration confirm
+  confirmation connection connector consent consumer contact container
+  content context contract control conversion convert copy corporate
+  correction cost count counter country county coupon course coverage create
+  created creation credit criteria currency current customer cycle daily
+  data database date day deadline debit debt decimal decision default
+  definition delete deleted delivery department deposit description design
+  destination detail details device difference direct direction disabled
+  discount display distance distribution district document domain done draft
+  due duration duty early effective element eligible email employee employer
+  empty enable enabled encoding end endpoint engine entity entry environment
+  error estimate estimated event exception exchange exclude execution exempt
+  existing exit expected expense expiration expire expired expiry export
+  external extra facility factor failed failure false family fax fee field
+  file filter final finance financial first fiscal flag flat flow folder
+  follow force forecast form format forward frequency from full function
+  fund gender general generate generated get global goal goods grant gross group
+  guarantee guide handler has header health height hierarchy history hold holder
+  home hour hourly identifier image import in inbound include income incoming
+  index indicator individual industry info information initial input insert
+  inspection instance instruction insurance integration interest interface
+  internal interval inventory invoice is issue issued item job join journal key
+  kind label language last late latitude lead ledger legal length level
+  liability license limit line link list load loan local location lock log
+  login logout longitude lookup loss main manager manual mapping margin mark
+  market master match max maximum medical member membership message method
+  middle minimum minute mobile mode model modified month monthly name net
+  network new next node note notes notification number object of offer office
+  offset old on online open opening operation operator option order
+  organization origin original other outbound outcome outgoing output owner
+  package page paid parameter parent part partial participant partner party
+  pass password patient pay payable payee payload payment payroll pending
+  percent percentage period permission person phone plan plant point policy
+  position post postal premium previous price primary priority private
+  process processed processing product profile program project promotion
+  property provider province purchase purpose quality quantity query queue
+  quote range rank rate rating read reason receipt receivable received
+  receiver record reference refund region register registration reject
+  rejected related release remaining reminder remote removal remove renewal
+  rent report request required reservation reserve reset resource response
+  result retail retry return revenue review revision risk role route row
+  rule salary sale sales sample schedule scheduled schema scope score search
+  second secondary section security segment send sender sequence serial
+  service session set setting settings shift ship shipment shipping short
+  signature size skip sku source split staff stage standard start state
+  statement status step stock storage store street sub subject submit
+  submitted subscription subtotal success sum summary supplier supply support
+  surname suspended system table target task tax team template temp
+  temporary tenant term terms territory test text threshold ticket tier time
+  timestamp title to token top total tracking transaction transfer transport
+  trigger true type unit unknown update updated upload url usage user valid
+  validation value vendor version view visit volume warehouse warning weekly
+  weight width work workflow year yearly yes zip zone
+`
+  .trim()
+  .split(/\s+/)
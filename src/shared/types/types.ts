@@ -54,6 +54,11 @@ export interface ToastOptions {
   }
 }
 
+/**
+ * File formats for exported validation reports
+ */
+export type ReportFormat = "csv" | "junit"
+
 /**
  * Message types for Chrome extension communication
  */
@@ -65,6 +70,7 @@ export type MessageAction =
   | "exportReport"
   | "getErrorLogs"
   | "clearErrorLogs"
+  | "updateRules"
   | "ping"
 
 /**
@@ -75,6 +81,8 @@ export interface ExtensionMessage {
   action: MessageAction
   /** Optional configuration data */
   config?: Partial<ValidatorConfig>
+  /** Report format for `exportReport` (default: `csv`) */
+  format?: ReportFormat
   /** Additional payload data */
   payload?: unknown
 }
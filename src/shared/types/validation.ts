@@ -14,6 +14,193 @@ export interface ValidatorConfig {
   maxRetries: number
   /** Debounce delay for validation events in milliseconds */
   debounceDelay: number
+  /** Approved and banned abbreviations enforced by glossary rules */
+  glossary: GlossaryTerm[]
+  /** Team-specific words accepted by spelling rules */
+  dictionary: string[]
+  /** How many rules run per field (see `EXECUTION_STRATEGIES`) */
+  validationMode: ValidationMode
+  /** In `fast` mode, stop at the first `error` violation of a field */
+  stopOnFirstError: boolean
+  /** In `fast` mode, stop once a field has this many `error` violations */
+  maxErrorsPerField: number
+  /** In `fast` mode, priority points per rule tier (see `ExecutionStrategy`) */
+  priorityTierSize: number
+  /**
+   * Name of the stored preset whose layered ruleset is in use, or an empty
+   * string to use the locally edited ruleset
+   */
+  activePreset: string
+}
+
+/**
+ * How the managed policy handles saves while fields have `error` violations:
+ * `block` cancels the save, `warn` only flags it
+ */
+export type SaveGuardMode = "off" | "warn" | "block"
+
+/**
+ * Policy an administrator pushes through `chrome.storage.managed` (see
+ * `managed-schema.json`)
+ */
+export interface ManagedPolicy {
+  /** Ruleset enforced instead of local rules and presets */
+  rules?: RuleDefinition[]
+  /** Organization values for settings; unlocked ones are only defaults */
+  config?: Partial<ValidatorConfig>
+  /** Settings users cannot change */
+  lockedConfig?: (keyof ValidatorConfig)[]
+  /** How designer saves are handled while fields have `error` violations */
+  saveGuard?: SaveGuardMode
+}
+
+/**
+ * Complete set of user-editable settings: configuration plus ruleset
+ */
+export interface ValidatorSettings {
+  /** Extension configuration */
+  config: ValidatorConfig
+  /** Rule definitions in priority order */
+  rules: RuleDefinition[]
+}
+
+/**
+ * Versioned JSON document sharing a team's naming standard
+ */
+export interface RulePreset {
+  /** Identifies the document as a validator preset */
+  format: "iics-validator-preset"
+  /** Schema version the document was written with */
+  version: number
+  /** Display name of the standard */
+  name?: string
+  /** When the preset was exported (ISO 8601) */
+  exportedAt?: string
+  /**
+   * Name of the stored preset this one builds on; its rules then only need
+   * to name the rules they override, disable or add
+   */
+  extends?: string
+  /** Configuration settings; omitted settings keep their current value */
+  config: Partial<ValidatorConfig>
+  /**
+   * Rules of the standard: complete definitions, or overrides of inherited
+   * rules when the preset `extends` another one
+   */
+  rules: RuleOverride[]
+}
+
+/**
+ * A rule definition that may only set the properties it changes, merged over
+ * the rule of the same name from a lower layer
+ */
+export type RuleOverride = Partial<RuleDefinition> &
+  Pick<RuleDefinition, "name">
+
+/**
+ * One level of a layered ruleset, e.g. a corporate standard or a project's
+ * additions to it
+ */
+export interface RuleLayer {
+  /** Name shown as the origin of the rules it defines */
+  name: string
+  /** Rules added or overridden by this layer */
+  rules: RuleOverride[]
+}
+
+/**
+ * How a layer changed a rule defined by a lower layer
+ */
+export type RuleConflictKind =
+  | "disabled"
+  | "weakened"
+  | "overridden"
+  | "invalid"
+
+/**
+ * A rule that a layer overrides, or that cannot be compiled once layers are
+ * merged
+ */
+export interface RuleConflict {
+  /** Name of the rule */
+  rule: string
+  /** Layer that made the change */
+  layer: string
+  /** Layer the rule was previously defined in, if any */
+  baseLayer?: string
+  kind: RuleConflictKind
+  message: string
+}
+
+/**
+ * How an imported preset is combined with the current settings: `merge`
+ * overrides matching settings and rules and keeps the rest, `replace`
+ * discards everything not in the preset
+ */
+export type PresetImportMode = "merge" | "replace"
+
+/**
+ * A configuration setting an imported preset would change
+ */
+export interface ConfigChange {
+  key: keyof ValidatorConfig
+  current: unknown
+  incoming: unknown
+}
+
+/**
+ * Differences between an imported preset and the current settings
+ */
+export interface PresetDiff {
+  /** Settings whose value differs */
+  config: ConfigChange[]
+  /** Rules only in the preset */
+  addedRules: string[]
+  /** Rules in both whose definitions differ */
+  changedRules: string[]
+  /** Rules only in the current ruleset (removed by `replace` only) */
+  removedRules: string[]
+}
+
+/**
+ * Named execution strategy: `complete` runs every rule, `fast` stops early
+ * on fields that already have errors
+ */
+export type ValidationMode = "complete" | "fast"
+
+/**
+ * How the rules of a field are executed
+ */
+export interface ExecutionStrategy {
+  /** Stop at the first `error` violation */
+  stopOnFirstError?: boolean
+  /** Stop once this many `error` violations were found */
+  maxErrorsPerField?: number
+  /**
+   * Group rules into tiers of this many priority points (e.g. 10 for 0-9,
+   * 10-19, ...) and skip later tiers once a tier reported an error; 0 runs
+   * all rules as one tier
+   */
+  priorityTierSize?: number
+}
+
+/**
+ * Whether a glossary abbreviation may be used in field names
+ */
+export type GlossaryTermStatus = "approved" | "banned"
+
+/**
+ * An abbreviation in the naming glossary
+ */
+export interface GlossaryTerm {
+  /** Abbreviation as written in names (e.g. "Cust", "Num") */
+  abbreviation: string
+  /** Word the abbreviation stands for (e.g. "Customer") */
+  expansion: string
+  /** Whether the abbreviation is approved or banned */
+  status: GlossaryTermStatus
+  /** Approved abbreviation to use instead of a banned one (e.g. "Nbr") */
+  replacement?: string
 }
 
 /**
@@ -44,10 +231,20 @@ export interface ValidationStats {
   validFields: number
   /** Number of fields failing validation */
   invalidFields: number
+  /** Number of fields passing validation with warnings */
+  warningFields: number
   /** Timestamp of last validation run */
   lastValidated: Date | null
 }
 
+/**
+ * Severity of a rule violation
+ *
+ * Only `error` violations make a field invalid; `warning` and `info` are
+ * reported without failing validation.
+ */
+export type RuleSeverity = "error" | "warning" | "info"
+
 /**
  * Individual validation rule definition
  */
@@ -55,11 +252,241 @@ export interface ValidationRule {
   /** Unique name for the rule */
   name: string
   /** Validation function that returns true if valid */
-  check: (value: string) => boolean
+  check: (value: string, context?: ValidationContext) => boolean
+  /** Error message to display when rule fails */
+  message: string
+  /** Optional priority for rule ordering */
+  priority?: number
+  /** Severity reported when the rule fails (defaults to `error`) */
+  severity?: RuleSeverity
+  /** Optional locator for the offending characters of a failing value */
+  locate?: (value: string) => RuleSpan | null
+  /** Optional fixer returning a value that satisfies this rule */
+  fix?: (value: string) => string
+  /** Optional value-specific message for a failing value, replacing `message` */
+  explain?: (value: string) => string | null
+  /** Optional filter limiting the fields the rule runs on (all if omitted) */
+  appliesTo?: (context: ValidationContext) => boolean
+}
+
+/**
+ * Character range within a value, as `[start, end)` offsets
+ */
+export interface RuleSpan {
+  /** Offset of the first offending character */
+  start: number
+  /** Offset just past the last offending character */
+  end: number
+}
+
+/**
+ * A single rule failure for a field value
+ */
+export interface RuleViolation {
+  /** Name of the rule that failed */
+  rule: string
+  /** Message of the rule that failed */
+  message: string
+  /** Severity of the failure */
+  severity: RuleSeverity
+  /** Offset of the first offending character, if known */
+  start?: number
+  /** Offset just past the last offending character, if known */
+  end?: number
+  /** IDs of the other fields involved in a cross-field violation */
+  relatedFieldIds?: string[]
+}
+
+/**
+ * A field's ID and trimmed value, as seen by cross-field rules
+ */
+export interface NamedField {
+  /** ID of the field */
+  fieldId: string
+  /** Trimmed field value */
+  value: string
+}
+
+/**
+ * A name validated without a DOM field, e.g. from a script or the popup
+ */
+export interface NameInput {
+  /** Key the result is reported under */
+  id: string
+  /** Name to validate, as entered */
+  name: string
+  /** Where the name is used; omitted properties get neutral defaults */
+  context?: Partial<ValidationContext>
+}
+
+/**
+ * Set-based rule evaluated across all fields of a container
+ */
+export interface CrossFieldRule {
+  /** Unique name for the rule */
+  name: string
+  /** Error message to display when rule fails */
+  message: string
+  /** Severity reported when the rule fails (defaults to `error`) */
+  severity?: RuleSeverity
+  /**
+   * Returns groups of field IDs whose names collide with each other; when
+   * `focus` is given, only groups including it are needed
+   */
+  findCollisions: (fields: NamedField[], focus?: NamedField) => string[][]
+}
+
+/**
+ * Character classes accepted by declarative `allowedCharacters` constraints
+ */
+export type CharacterClass = "upper" | "lower" | "digit" | "underscore"
+
+/**
+ * Casing conventions a declarative `casing` constraint can enforce
+ */
+export type CasingConvention =
+  | "PascalCase"
+  | "camelCase"
+  | "snake_case"
+  | "UPPER_SNAKE"
+
+/**
+ * Target technologies with a word list in the reserved-word pack
+ */
+export type ReservedWordTechnology = "cai" | "xquery" | "sql" | "javascript"
+
+/**
+ * Which reserved words a `reservedWords` constraint checks: all of them, only
+ * keywords, or only the common words that are also everyday field names
+ * (`Date`, `Key`, `Number`, `User`)
+ */
+export type ReservedWordScope = "all" | "keywords" | "common"
+
+/**
+ * Kind of field being named, used to select category-specific rules
+ */
+export type FieldCategory = "process" | "input" | "output" | "temp" | "other"
+
+/**
+ * Kind of IICS page a field was found on
+ */
+export type PageType = "process" | "guide" | "connection" | "unknown"
+
+/**
+ * Data type chosen for a field in the Process Designer fields grid
+ */
+export type FieldDataType =
+  | "text"
+  | "boolean"
+  | "integer"
+  | "decimal"
+  | "date"
+  | "datetime"
+  | "time"
+  | "object"
+  | "other"
+
+/**
+ * Where a field sits on the page, passed to rules alongside its value
+ */
+export interface ValidationContext {
+  /** ID of the field being validated */
+  fieldId: string
+  /** Visible label text of the field, if any */
+  label: string | null
+  /** Type of the process step containing the field (e.g. "assignment") */
+  stepType: string | null
+  /** Whether the field is an `<input>` or a `<textarea>` */
+  fieldType: "input" | "textarea"
+  /** Kind of page the field is on */
+  pageType: PageType
+  /** Kind of field, used to select category-specific rules */
+  category: FieldCategory
+  /** Data type selected next to the field, or `null` if there is none */
+  dataType: FieldDataType | null
+  /** Whether the field is marked as required */
+  isRequired: boolean
+  /** Additional data for custom rules */
+  customData?: Record<string, unknown>
+}
+
+/**
+ * Built-in fixers a declarative rule can reference by name
+ */
+export type RuleFixer =
+  | "capitalize"
+  | "join-words"
+  | "strip-invalid-characters"
+  | "truncate"
+  | "trim-trailing-underscores"
+  | "collapse-underscores"
+  | "strip-leading-digits"
+  | "convert-casing"
+  | "replace-abbreviations"
+  | "correct-spelling"
+
+/**
+ * JSON-serializable rule definition compiled into a `ValidationRule`
+ *
+ * Every constraint present must hold for the value to pass. Constraints that
+ * are omitted are not checked.
+ */
+export interface RuleDefinition {
+  /** Unique name for the rule */
+  name: string
   /** Error message to display when rule fails */
   message: string
   /** Optional priority for rule ordering */
   priority?: number
+  /** Severity reported when the rule fails (defaults to `error`) */
+  severity?: RuleSeverity
+  /** Regular expression source the value must match */
+  pattern?: string
+  /** Regular expression source the value must not match */
+  forbiddenPattern?: string
+  /** Flags applied to `pattern` and `forbiddenPattern` */
+  flags?: string
+  /** Minimum number of characters */
+  minLength?: number
+  /** Maximum number of characters */
+  maxLength?: number
+  /** Character classes the value may be composed of */
+  allowedCharacters?: CharacterClass[]
+  /** Substrings that must not appear anywhere in the value */
+  forbiddenSubstrings?: string[]
+  /** Required prefix, or a list of accepted prefixes */
+  prefix?: string | string[]
+  /** Required suffix, or a list of accepted suffixes */
+  suffix?: string | string[]
+  /** Casing convention the value's words must follow */
+  casing?: CasingConvention
+  /** Technologies whose reserved words the value must not be */
+  reservedWords?: ReservedWordTechnology[]
+  /** Match `reservedWords` case-sensitively (case-insensitive by default) */
+  caseSensitive?: boolean
+  /** Which of the `reservedWords` to check (all of them by default) */
+  reservedWordScope?: ReservedWordScope
+  /** Forbid words that are banned abbreviations in the glossary */
+  glossary?: boolean
+  /**
+   * Forbid abbreviation-like words (two to four letters, not dictionary
+   * words) that are not approved in the glossary
+   */
+  unapprovedAbbreviations?: boolean
+  /** Flag words missing from the bundled and team dictionaries */
+  spelling?: boolean
+  /** Field categories the rule applies to (all categories if omitted) */
+  categories?: FieldCategory[]
+  /** Step types the rule applies to, e.g. `["assignment"]` (all if omitted) */
+  stepTypes?: string[]
+  /** Page types the rule applies to (all page types if omitted) */
+  pageTypes?: PageType[]
+  /** Field data types the rule applies to (all data types if omitted) */
+  dataTypes?: FieldDataType[]
+  /** Built-in fixer used to suggest a compliant value */
+  fix?: RuleFixer
+  /** Whether the rule runs (defaults to `true`) */
+  enabled?: boolean
 }
 
 /**
@@ -68,10 +495,30 @@ export interface ValidationRule {
 export interface FieldData {
   /** The actual DOM element */
   element: HTMLInputElement | HTMLTextAreaElement
+  /** Where the field sits on the page, passed to rules */
+  context: ValidationContext
   /** Validation result (null if not yet validated) */
   isValid: boolean | null
-  /** Array of validation error messages */
-  errors: string[]
+  /** Rule violations of every severity from the last validation */
+  errors: RuleViolation[]
+  /** Suggested compliant name, if the violations can be fixed automatically */
+  suggestion: string | null
   /** Timestamp of last validation */
   lastValidated: number
 }
+
+/**
+ * A proposed or applied rename of a single field
+ */
+export interface FieldFix {
+  /** ID of the field being renamed */
+  fieldId: string
+  /** The field's DOM element */
+  element: HTMLInputElement | HTMLTextAreaElement
+  /** Value before the rename, restored on undo */
+  oldName: string
+  /** Suggested compliant value */
+  newName: string
+  /** Names of the rules whose violations the rename fixes */
+  rules: string[]
+}
@@ -1,11 +1,17 @@
-import { ToastManager } from "./toast"
-import { ErrorLog } from "../types/types"
+import { ErrorLog, ToastType } from "../types/types"
 import logger from "./logger"
 
 export class ErrorHandler {
   private readonly maxLogs = 50
 
-  constructor(private toast: ToastManager) {}
+  /**
+   * @param toast - Shows errors to the user, usually a `ToastManager`
+   */
+  constructor(
+    private toast: {
+      show(message: string, type: ToastType, duration?: number): void
+    }
+  ) {}
 
   /**
    * Handle an error with logging and optional user notification
@@ -38,6 +44,8 @@ export class ErrorHandler {
       "poll-cycle": "Background scanning encountered an error.",
       "message-handling": "Communication error occurred.",
       "keyboard-shortcut": "Keyboard shortcut failed to execute.",
+      "apply-fix": "Failed to apply the suggested name.",
+      "save-guard": "Unable to check field names before saving.",
     }
 
     return messages[context] || `An error occurred: ${error.message}`
@@ -47,6 +55,11 @@ export class ErrorHandler {
    * Log error to session storage for debugging
    */
   private logError(error: Error, context: string): void {
+    // Outside a browser (e.g. the command-line validator) there is no session
+    if (typeof sessionStorage === "undefined") {
+      return
+    }
+
     const errorLog: ErrorLog = {
       timestamp: new Date().toISOString(),
       context,
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_GLOSSARY } from "../config/glossary-defaults"
+import { Glossary } from "./glossary"
+
+const KNOWN_WORDS = new Set(["order", "date", "system", "is", "active"])
+const isKnownWord = (word: string) => KNOWN_WORDS.has(word.toLowerCase())
+
+describe("Glossary", () => {
+  const glossary = new Glossary(DEFAULT_GLOSSARY)
+
+  it("finds banned abbreviations ignoring case", () => {
+    expect(
+      glossary.findBanned("OrderNum_no").map(({ word, start, end }) => ({
+        word,
+        start,
+        end,
+      }))
+    ).toEqual([
+      { word: "Num", start: 5, end: 8 },
+      { word: "no", start: 9, end: 11 },
+    ])
+    expect(glossary.findBanned("CustNbr")).toEqual([])
+  })
+
+  it("replaces banned abbreviations keeping their case", () => {
+    expect(glossary.replaceBanned("CustNum")).toBe("CustNbr")
+    expect(glossary.replaceBanned("CUST_NUM")).toBe("CUST_NBR")
+    expect(glossary.replaceBanned("order_num")).toBe("order_nbr")
+  })
+
+  it("leaves banned abbreviations without a replacement", () => {
+    const strict = new Glossary([
+      { abbreviation: "Tmp", expansion: "Temporary", status: "banned" },
+    ])
+
+    expect(strict.replaceBanned("TmpTotal")).toBe("TmpTotal")
+    expect(strict.explain(strict.findBanned("TmpTotal")[0]!)).toBe(
+      '"Tmp" (Temporary) is not approved'
+    )
+  })
+
+  it("explains banned abbreviations with their replacement", () => {
+    const [match] = glossary.findBanned("OrderNum")
+
+    expect(glossary.explain(match!)).toBe(
+      '"Num" (Number) is not approved, use "Nbr"'
+    )
+  })
+
+  it("flags short unknown words that are not in the glossary", () => {
+    const tokens = glossary.findUnapproved("SrcSystemXyz", isKnownWord)
+
+    expect(
+      tokens.map(({ word, start, end }) => ({ word, start, end }))
+    ).toEqual([
+      { word: "Src", start: 0, end: 3 },
+      { word: "Xyz", start: 9, end: 12 },
+    ])
+    expect(glossary.explainUnapproved(tokens[0]!)).toBe(
+      '"Src" is not an approved abbreviation'
+    )
+  })
+
+  it("accepts approved, banned, known and long words", () => {
+    expect(glossary.findUnapproved("CustAmtNum", isKnownWord)).toEqual([])
+    expect(glossary.findUnapproved("IsActiveOrder", isKnownWord)).toEqual([])
+    expect(glossary.findUnapproved("Zorblax", isKnownWord)).toEqual([])
+    expect(glossary.findUnapproved("A1", isKnownWord)).toEqual([])
+  })
+
+  it("returns copies of its terms", () => {
+    const terms = glossary.getTerms()
+    terms[0]!.status = "banned"
+
+    expect(glossary.getTerms()[0]?.status).toBe("approved")
+    expect(glossary.findBanned("Cust")).toEqual([])
+  })
+})
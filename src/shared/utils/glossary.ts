@@ -0,0 +1,148 @@
+import { GlossaryTerm } from "../types/validation"
+import { MAX_ACRONYM_LENGTH, NameToken, NameTokenizer } from "./name-tokenizer"
+
+/**
+ * A banned abbreviation found in a name
+ */
+export interface GlossaryMatch extends NameToken {
+  /** Glossary entry of the banned abbreviation */
+  term: GlossaryTerm
+}
+
+/**
+ * Letters-only words of this length or shorter are treated as abbreviations
+ * when they are not dictionary words
+ */
+const MAX_ABBREVIATION_LENGTH = MAX_ACRONYM_LENGTH
+
+/**
+ * @class Glossary
+ * @description Looks up the approved and banned abbreviations of a team
+ *
+ * Names are split with `NameTokenizer`, and each word is matched against the
+ * glossary ignoring case. Banned abbreviations can be replaced by their
+ * approved form; short words that are neither approved nor dictionary words
+ * can be flagged as unapproved abbreviations.
+ *
+ * @example
+ * ```typescript
+ * const glossary = new Glossary(DEFAULT_GLOSSARY);
+ * glossary.replaceBanned("CustNum"); // "CustNbr"
+ * glossary.findUnapproved("SrcCust", (word) => dictionary.isKnown(word));
+ * // [{ word: "Src", start: 0, end: 3 }]
+ * ```
+ */
+export class Glossary {
+  private readonly terms: GlossaryTerm[]
+  private readonly banned = new Map<string, GlossaryTerm>()
+  private readonly approved = new Set<string>()
+
+  constructor(terms: GlossaryTerm[] = []) {
+    this.terms = terms.map((term) => ({ ...term }))
+    for (const term of this.terms) {
+      if (term.status === "banned") {
+        this.banned.set(term.abbreviation.toLowerCase(), term)
+      } else {
+        this.approved.add(term.abbreviation.toLowerCase())
+      }
+    }
+  }
+
+  /**
+   * Get a copy of every glossary entry
+   */
+  public getTerms(): GlossaryTerm[] {
+    return this.terms.map((term) => ({ ...term }))
+  }
+
+  /**
+   * Find the words of a name that are banned abbreviations, ignoring case
+   */
+  public findBanned(name: string): GlossaryMatch[] {
+    return NameTokenizer.locate(name)
+      .map((token) => ({
+        ...token,
+        term: this.banned.get(token.word.toLowerCase()),
+      }))
+      .filter((match): match is GlossaryMatch => !!match.term)
+  }
+
+  /**
+   * Find the words of a name that look like abbreviations but are not
+   * approved: letters-only words of two to four letters that are neither in
+   * the glossary nor known words. Banned abbreviations are left to
+   * `findBanned`.
+   *
+   * @param isKnownWord - Whether a word is a dictionary word
+   */
+  public findUnapproved(
+    name: string,
+    isKnownWord: (word: string) => boolean
+  ): NameToken[] {
+    return NameTokenizer.locate(name).filter(({ word }) => {
+      const key = word.toLowerCase()
+      return (
+        /^[A-Za-z]+$/.test(word) &&
+        word.length >= 2 &&
+        word.length <= MAX_ABBREVIATION_LENGTH &&
+        !this.approved.has(key) &&
+        !this.banned.has(key) &&
+        !isKnownWord(word)
+      )
+    })
+  }
+
+  /**
+   * Replace banned abbreviations that have an approved replacement, keeping
+   * the case of the original word (e.g. "CustNum" -> "CustNbr",
+   * "CUST_NUM" -> "CUST_NBR")
+   */
+  public replaceBanned(name: string): string {
+    let result = name
+    for (const match of this.findBanned(name).reverse()) {
+      const { replacement } = match.term
+      if (replacement) {
+        result =
+          result.slice(0, match.start) +
+          this.matchCase(match.word, replacement) +
+          result.slice(match.end)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Describe why a banned abbreviation is flagged
+   * (e.g. `"Num" (Number) is not approved, use "Nbr"`)
+   */
+  public explain(match: GlossaryMatch): string {
+    const { expansion, replacement } = match.term
+    const reason = `"${match.word}" (${expansion}) is not approved`
+
+    return replacement ? `${reason}, use "${replacement}"` : reason
+  }
+
+  /**
+   * Describe why an unapproved abbreviation is flagged
+   * (e.g. `"Src" is not an approved abbreviation`)
+   */
+  public explainUnapproved(token: NameToken): string {
+    return `"${token.word}" is not an approved abbreviation`
+  }
+
+  /**
+   * Apply the case of a word to its replacement
+   */
+  private matchCase(word: string, replacement: string): string {
+    if (word.length > 1 && word === word.toUpperCase()) {
+      return replacement.toUpperCase()
+    }
+
+    if (word === word.toLowerCase()) {
+      return replacement.toLowerCase()
+    }
+
+    return replacement
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest"
+import { fixture } from "@/test/fixtures"
+import { JUnitTestCase, JUnitWriter } from "./junit-writer"
+
+const testCase = fixture<JUnitTestCase>({
+  name: "Total",
+  classname: "Order",
+  violations: [],
+})
+
+function write(testCases: JUnitTestCase[]): string {
+  return JUnitWriter.write("iics-validate", [
+    { name: "Order", file: "Order.xml", testCases },
+  ])
+}
+
+describe("JUnitWriter", () => {
+  it("writes a passing test case per name", () => {
+    const xml = write([testCase({ file: "Order.xml", line: 4 })])
+
+    expect(xml).toContain(
+      '<testsuites name="iics-validate" tests="1" failures="0" errors="0">'
+    )
+    expect(xml).toMatch(
+      /<testsuite name="Order" tests="1" failures="0" errors="0" skipped="0" timestamp="\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d" file="Order.xml">/
+    )
+    expect(xml).toContain(
+      '<testcase name="Total" classname="Order" file="Order.xml" line="4"/>'
+    )
+  })
+
+  it("fails test cases on errors only", () => {
+    const xml = write([
+      testCase({
+        name: "order date",
+        violations: [
+          {
+            rule: "no-spaces",
+            message: "No spaces allowed",
+            severity: "error",
+          },
+          { rule: "casing", message: "Use PascalCase", severity: "warning" },
+        ],
+        output: "Suggested name: OrderDate",
+      }),
+      testCase({
+        name: "tmpCount",
+        violations: [
+          { rule: "abbreviation", message: "Tmp", severity: "info" },
+        ],
+      }),
+    ])
+
+    expect(xml).toContain('tests="2" failures="1" errors="0"')
+    expect(xml).toContain(
+      '<failure message="No spaces allowed" type="no-spaces">error: No spaces allowed</failure>'
+    )
+    expect(xml).not.toContain('type="casing"')
+    expect(xml).toContain(
+      "<system-out>warning: Use PascalCase\nSuggested name: OrderDate</system-out>"
+    )
+    expect(xml).toContain("<system-out>info: Tmp</system-out>")
+  })
+
+  it("reports test cases that could not run as errors, not failures", () => {
+    const xml = write([
+      testCase({
+        name: "Broken.xml",
+        error: "No root element found",
+        violations: [
+          {
+            rule: "no-spaces",
+            message: "No spaces allowed",
+            severity: "error",
+          },
+        ],
+      }),
+    ])
+
+    expect(xml).toContain('tests="1" failures="0" errors="1"')
+    expect(xml).toContain('<error message="No root element found"/>')
+  })
+
+  it("counts test cases with a reason as skipped", () => {
+    const xml = write([
+      testCase({ name: "OrderDate" }),
+      testCase({ name: "Status", skipped: "Not validated yet" }),
+    ])
+
+    expect(xml).toContain('tests="2" failures="0" errors="0" skipped="1"')
+    expect(xml).toContain('<skipped message="Not validated yet"/>')
+  })
+
+  it("escapes markup and drops characters XML cannot hold", () => {
+    const xml = write([
+      testCase({
+        name: `A<B & "C"\u0000'D'\u001F`,
+        output: "line\ttab\u000Bvertical\uFFFE",
+      }),
+    ])
+
+    expect(xml).toContain('name="A&lt;B &amp; &quot;C&quot;&apos;D&apos;"')
+    expect(xml).toContain("<system-out>line\ttabvertical</system-out>")
+  })
+})
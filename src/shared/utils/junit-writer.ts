@@ -0,0 +1,190 @@
+import { RuleViolation } from "../types/validation"
+
+/**
+ * A named value checked against the naming rules, written as a test case
+ */
+export interface JUnitTestCase {
+  /** Name of the test, usually the checked field name */
+  name: string
+  /** Group of the test, usually the suite name */
+  classname: string
+  /**
+   * Rule violations; `error` ones are written as failures, warnings and info
+   * to the test's output
+   */
+  violations: RuleViolation[]
+  /** Why the test could not run, written as an error */
+  error?: string
+  /** Why the test was not run, written as skipped */
+  skipped?: string
+  /** File the value was read from */
+  file?: string
+  /** 1-based line the value was read from */
+  line?: number
+  /** Extra detail written to the test's output (e.g. a suggested name) */
+  output?: string
+}
+
+/**
+ * A group of test cases, such as the fields of one asset
+ */
+export interface JUnitTestSuite {
+  name: string
+  testCases: JUnitTestCase[]
+  /** File the suite was read from */
+  file?: string
+}
+
+/**
+ * Characters XML 1.0 does not allow, even escaped
+ */
+const INVALID_XML_CHARS =
+  /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g
+
+const XML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&apos;",
+}
+
+/**
+ * Writes validation results as JUnit XML, understood natively by CI servers
+ * such as Jenkins and GitLab
+ */
+export class JUnitWriter {
+  /**
+   * Write test suites as a JUnit XML document
+   *
+   * A test case fails when it has an `error` violation; every such
+   * violation is a `<failure>` typed with its rule name. Warnings and info
+   * only go to the test's `<system-out>`, so they do not fail the build.
+   * Test cases with a `skipped` reason are counted as skipped.
+   */
+  public static write(name: string, suites: JUnitTestSuite[]): string {
+    const timestamp = new Date().toISOString().replace(/\.\d+Z$/, "")
+    const totals = { tests: 0, failures: 0, errors: 0 }
+    const lines: string[] = []
+
+    for (const suite of suites) {
+      const counts = JUnitWriter.count(suite.testCases)
+      totals.tests += counts.tests
+      totals.failures += counts.failures
+      totals.errors += counts.errors
+
+      lines.push(
+        `  <testsuite${JUnitWriter.attributes({
+          name: suite.name,
+          tests: counts.tests,
+          failures: counts.failures,
+          errors: counts.errors,
+          skipped: counts.skipped,
+          timestamp,
+          file: suite.file,
+        })}>`
+      )
+      for (const testCase of suite.testCases) {
+        lines.push(...JUnitWriter.writeTestCase(testCase))
+      }
+      lines.push("  </testsuite>")
+    }
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites${JUnitWriter.attributes({ name, ...totals })}>`,
+      ...lines,
+      "</testsuites>",
+    ].join("\n")
+  }
+
+  private static writeTestCase(testCase: JUnitTestCase): string[] {
+    const attributes = JUnitWriter.attributes({
+      name: testCase.name,
+      classname: testCase.classname,
+      file: testCase.file,
+      line: testCase.line,
+    })
+    const body: string[] = []
+
+    if (testCase.error !== undefined) {
+      body.push(
+        `      <error${JUnitWriter.attributes({
+          message: testCase.error,
+        })}/>`
+      )
+    }
+
+    if (testCase.skipped !== undefined) {
+      body.push(
+        `      <skipped${JUnitWriter.attributes({
+          message: testCase.skipped,
+        })}/>`
+      )
+    }
+
+    const notes: string[] = []
+    for (const violation of testCase.violations) {
+      if (violation.severity !== "error") {
+        notes.push(`${violation.severity}: ${violation.message}`)
+        continue
+      }
+
+      body.push(
+        `      <failure${JUnitWriter.attributes({
+          message: violation.message,
+          type: violation.rule,
+        })}>${JUnitWriter.escape(
+          `${violation.severity}: ${violation.message}`
+        )}</failure>`
+      )
+    }
+
+    if (testCase.output !== undefined) {
+      notes.push(testCase.output)
+    }
+
+    if (notes.length > 0) {
+      body.push(
+        `      <system-out>${JUnitWriter.escape(notes.join("\n"))}</system-out>`
+      )
+    }
+
+    return body.length === 0
+      ? [`    <testcase${attributes}/>`]
+      : [`    <testcase${attributes}>`, ...body, "    </testcase>"]
+  }
+
+  private static count(testCases: JUnitTestCase[]) {
+    return {
+      tests: testCases.length,
+      failures: testCases.filter(
+        (testCase) =>
+          testCase.error === undefined &&
+          testCase.violations.some((v) => v.severity === "error")
+      ).length,
+      errors: testCases.filter((testCase) => testCase.error !== undefined)
+        .length,
+      skipped: testCases.filter((testCase) => testCase.skipped !== undefined)
+        .length,
+    }
+  }
+
+  private static attributes(
+    values: Record<string, string | number | undefined>
+  ): string {
+    return Object.entries(values)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => ` ${key}="${JUnitWriter.escape(String(value))}"`)
+      .join("")
+  }
+
+  /**
+   * Escapes markup characters and drops characters XML cannot hold
+   */
+  private static escape(text: string): string {
+    return text
+      .replace(INVALID_XML_CHARS, "")
+      .replace(/[&<>"']/g, (char) => XML_ESCAPES[char] ?? char)
+  }
+}
@@ -0,0 +1,123 @@
+import { CasingConvention } from "../types/validation"
+
+/**
+ * A word of a name with its `[start, end)` offsets
+ */
+export interface NameToken {
+  word: string
+  start: number
+  end: number
+}
+
+/**
+ * Longest all-caps word still treated as an acronym (e.g. "ID", "JSON")
+ */
+export const MAX_ACRONYM_LENGTH = 4
+
+/**
+ * Patterns a name must match to follow each casing convention
+ */
+const CONVENTION_PATTERNS: Record<CasingConvention, RegExp> = {
+  PascalCase: /^[A-Z][A-Za-z0-9]*$/,
+  camelCase: /^[a-z][A-Za-z0-9]*$/,
+  snake_case: /^[a-z][a-z0-9]*(?:_[a-z0-9]+)*$/,
+  UPPER_SNAKE: /^[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)*$/,
+}
+
+/**
+ * @class NameTokenizer
+ * @description Splits field names into words and converts between casing
+ * conventions
+ *
+ * Words are separated by underscores, spaces, hyphens, dots, case changes and
+ * digit runs, so `customerID_2nd`, `CustomerId2nd` and `CUSTOMER_ID_2ND` all
+ * have the same words. Word offsets point into the original name.
+ *
+ * @example
+ * ```typescript
+ * NameTokenizer.tokenize("customerID_2nd"); // ["customer", "ID", "2nd"]
+ * NameTokenizer.convert("customer_name", "PascalCase"); // "CustomerName"
+ * ```
+ */
+export class NameTokenizer {
+  /**
+   * Split a name into words on separators, case changes and digit runs
+   * (e.g. "customerID_2nd" -> ["customer", "ID", "2nd"])
+   */
+  public static tokenize(name: string): string[] {
+    return NameTokenizer.locate(name).map((token) => token.word)
+  }
+
+  /**
+   * Split a name into words like `tokenize`, keeping each word's position
+   * (e.g. "Cust_Num" -> [{ word: "Cust", start: 0, end: 4 }, ...])
+   */
+  public static locate(name: string): NameToken[] {
+    return Array.from(
+      name.matchAll(
+        /[A-Z]+(?![a-z])|[A-Z]?[a-z]+|[0-9]+[a-z]*|[^A-Za-z0-9\s_\-.]+/g
+      ),
+      (match) => ({
+        word: match[0],
+        start: match.index ?? 0,
+        end: (match.index ?? 0) + match[0].length,
+      })
+    )
+  }
+
+  /**
+   * Check whether a name follows a casing convention
+   *
+   * PascalCase and camelCase names may contain short acronyms ("CustomerID")
+   * but not longer all-caps words ("CUSTOMERName").
+   */
+  public static matches(name: string, convention: CasingConvention): boolean {
+    if (!CONVENTION_PATTERNS[convention].test(name)) {
+      return false
+    }
+
+    if (convention === "PascalCase" || convention === "camelCase") {
+      return !NameTokenizer.tokenize(name).some(
+        (word) => word.length > MAX_ACRONYM_LENGTH && /^[A-Z]+$/.test(word)
+      )
+    }
+
+    return true
+  }
+
+  /**
+   * Convert a name to a casing convention
+   *
+   * Short all-caps words such as "ID" are kept as acronyms in PascalCase and
+   * camelCase when the name is mixed case; otherwise words are re-cased.
+   */
+  public static convert(name: string, convention: CasingConvention): string {
+    const words = NameTokenizer.tokenize(name)
+    const isMixedCase = /[a-z]/.test(name) && /[A-Z]/.test(name)
+
+    const capitalize = (word: string): string =>
+      isMixedCase &&
+      word.length <= MAX_ACRONYM_LENGTH &&
+      /^[A-Z0-9]+$/.test(word)
+        ? word
+        : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+
+    switch (convention) {
+      case "PascalCase":
+        return words.map(capitalize).join("")
+
+      case "camelCase":
+        return words
+          .map((word, index) =>
+            index === 0 ? word.toLowerCase() : capitalize(word)
+          )
+          .join("")
+
+      case "snake_case":
+        return words.map((word) => word.toLowerCase()).join("_")
+
+      case "UPPER_SNAKE":
+        return words.map((word) => word.toUpperCase()).join("_")
+    }
+  }
+}
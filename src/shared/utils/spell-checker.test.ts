@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest"
+import { SpellChecker } from "./spell-checker"
+
+const checker = new SpellChecker([
+  "customer",
+  "address",
+  "order",
+  "date",
+  "data",
+  "status",
+])
+
+describe("SpellChecker", () => {
+  it("flags misspelled words of a compound name with their span", () => {
+    expect(checker.check("CustmerAdress")).toEqual([
+      { word: "Custmer", start: 0, end: 7, suggestions: ["Customer"] },
+      { word: "Adress", start: 7, end: 13, suggestions: ["Address"] },
+    ])
+  })
+
+  it("skips known words, short words, numbers and acronyms", () => {
+    expect(checker.check("OrderDate")).toEqual([])
+    expect(checker.check("QtyID2Order")).toEqual([])
+    expect(checker.check("SAPOrderStatus")).toEqual([])
+  })
+
+  it("checks long all-caps words of all-caps names", () => {
+    expect(checker.check("ORDER_STATSU")).toMatchObject([
+      { word: "STATSU", suggestions: ["STATUS"] },
+    ])
+  })
+
+  it("suggests words within the edit distance, closest first", () => {
+    expect(checker.check("Dete")[0]?.suggestions).toEqual(["Date"])
+    expect(checker.check("Datx")[0]?.suggestions).toEqual(["Data", "Date"])
+    expect(checker.check("Ordre")[0]?.suggestions).toEqual(["Order"])
+  })
+
+  it("never suggests words that drop letters of the name", () => {
+    const [issue] = checker.check("customerid")
+
+    expect(issue?.suggestions).toEqual([])
+    expect(checker.explain(issue!)).toBe('"customerid" may be misspelled')
+    expect(checker.correct("customerid")).toBe("customerid")
+    expect(checker.check("Custommer")[0]?.suggestions).toEqual([])
+  })
+
+  it("corrects every misspelled word with its best suggestion", () => {
+    expect(checker.correct("CustmerAdressStatsu")).toBe("CustomerAddressStatus")
+    expect(checker.explain(checker.check("Custmer")[0]!)).toBe(
+      '"Custmer" may be misspelled, did you mean "Customer"?'
+    )
+  })
+
+  it("accepts words added later", () => {
+    const team = new SpellChecker(["order"])
+    expect(team.check("OrderAcme")).toHaveLength(1)
+
+    team.addWords([" ACME "])
+    expect(team.check("OrderAcme")).toEqual([])
+    expect(team.isKnown("Acme")).toBe(true)
+  })
+})
@@ -0,0 +1,269 @@
+import { MAX_ACRONYM_LENGTH, NameToken, NameTokenizer } from "./name-tokenizer"
+
+/**
+ * Shortest word that is spell-checked; shorter words are too often
+ * abbreviations (`Id`, `Qty`) to be worth flagging
+ */
+const MIN_CHECKED_LENGTH = 4
+
+/**
+ * Largest edit distance between a misspelled word and a suggestion; words
+ * of up to four letters only get suggestions one edit away
+ */
+const MAX_SUGGESTION_DISTANCE = 2
+
+/**
+ * A word of a name that is not in the dictionary
+ */
+export interface SpellingIssue extends NameToken {
+  /** Dictionary words closest to the misspelled word, best first */
+  suggestions: string[]
+}
+
+/**
+ * @class SpellChecker
+ * @description Checks the words of compound field names against a word list
+ *
+ * Names are split with `NameTokenizer`, so `CustmerAdress` is checked as
+ * `Custmer` and `Adress`. Numbers, words shorter than four letters and
+ * acronyms (all-caps words in a mixed-case name, or short all-caps words in
+ * an all-caps name) are skipped. Lookups are case-insensitive and the
+ * result for each word is cached, so re-validating a name while it is typed
+ * only computes suggestions for words not seen before. Suggestions are never
+ * shorter than the word, so corrections do not delete letters.
+ *
+ * @example
+ * ```typescript
+ * const checker = new SpellChecker(["customer", "address"]);
+ * checker.check("CustmerAdress");
+ * // [{ word: "Custmer", suggestions: ["Customer"], ... }, { word: "Adress", ... }]
+ * ```
+ */
+export class SpellChecker {
+  private readonly words = new Set<string>()
+  private readonly cache = new Map<string, string[] | null>()
+
+  constructor(words: string[] = []) {
+    this.addWords(words)
+  }
+
+  /**
+   * Add words to the dictionary, clearing cached results
+   */
+  public addWords(words: string[]): void {
+    for (const word of words) {
+      const normalized = word.trim().toLowerCase()
+      if (normalized) {
+        this.words.add(normalized)
+      }
+    }
+    this.cache.clear()
+  }
+
+  /**
+   * Check whether a single word is in the dictionary, ignoring case
+   */
+  public isKnown(word: string): boolean {
+    return this.words.has(word.toLowerCase())
+  }
+
+  /**
+   * Find the words of a name that are not in the dictionary
+   */
+  public check(name: string): SpellingIssue[] {
+    const issues: SpellingIssue[] = []
+    const isUpperCaseName = name === name.toUpperCase()
+
+    for (const token of NameTokenizer.locate(name)) {
+      if (!this.isChecked(token.word, isUpperCaseName)) {
+        continue
+      }
+
+      const suggestions = this.lookup(token.word)
+      if (suggestions) {
+        issues.push({
+          ...token,
+          suggestions: suggestions.map((s) => this.matchCase(token.word, s)),
+        })
+      }
+    }
+
+    return issues
+  }
+
+  /**
+   * Replace every misspelled word that has a suggestion with the best one
+   * (e.g. "CustmerAdress" -> "CustomerAddress")
+   */
+  public correct(name: string): string {
+    let result = name
+    for (const issue of this.check(name).reverse()) {
+      const [best] = issue.suggestions
+      if (best) {
+        result = result.slice(0, issue.start) + best + result.slice(issue.end)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Describe a misspelled word and its suggestions
+   * (e.g. `"Custmer" may be misspelled, did you mean "Customer"?`)
+   */
+  public explain(issue: SpellingIssue): string {
+    const reason = `"${issue.word}" may be misspelled`
+    if (issue.suggestions.length === 0) {
+      return reason
+    }
+
+    const options = issue.suggestions.map((s) => `"${s}"`).join(" or ")
+    return `${reason}, did you mean ${options}?`
+  }
+
+  // Helper methods
+
+  /**
+   * Whether a word is spell-checked at all
+   *
+   * @private
+   */
+  private isChecked(word: string, isUpperCaseName: boolean): boolean {
+    if (word.length < MIN_CHECKED_LENGTH || !/^[A-Za-z]+$/.test(word)) {
+      return false
+    }
+
+    if (word !== word.toUpperCase()) {
+      return true
+    }
+
+    return isUpperCaseName && word.length > MAX_ACRONYM_LENGTH
+  }
+
+  /**
+   * Get the suggestions for a word, or `null` when it is known
+   *
+   * @private
+   */
+  private lookup(word: string): string[] | null {
+    const normalized = word.toLowerCase()
+    if (this.words.has(normalized)) {
+      return null
+    }
+
+    const cached = this.cache.get(normalized)
+    if (cached !== undefined) {
+      return cached
+    }
+
+    const suggestions = this.suggest(normalized)
+    this.cache.set(normalized, suggestions)
+    return suggestions
+  }
+
+  /**
+   * Rank dictionary words by edit distance, then by the length of the prefix
+   * they share with the word, then alphabetically
+   *
+   * Words shorter than the misspelled one are never suggested: they would
+   * drop letters that are usually another word of the name, as in
+   * `customerid` -> `customer`.
+   *
+   * @private
+   */
+  private suggest(word: string, limit = 3): string[] {
+    const candidates: { word: string; distance: number; prefix: number }[] = []
+    const maxDistance =
+      word.length <= MIN_CHECKED_LENGTH ? 1 : MAX_SUGGESTION_DISTANCE
+
+    for (const candidate of this.words) {
+      const extraLetters = candidate.length - word.length
+      if (extraLetters < 0 || extraLetters > maxDistance) {
+        continue
+      }
+
+      const distance = this.distance(word, candidate)
+      if (distance <= maxDistance) {
+        candidates.push({
+          word: candidate,
+          distance,
+          prefix: this.commonPrefixLength(word, candidate),
+        })
+      }
+    }
+
+    return candidates
+      .sort(
+        (a, b) =>
+          a.distance - b.distance ||
+          b.prefix - a.prefix ||
+          a.word.localeCompare(b.word)
+      )
+      .slice(0, limit)
+      .map((candidate) => candidate.word)
+  }
+
+  /**
+   * Edit distance counting insertions, deletions, substitutions and
+   * transpositions of adjacent letters
+   *
+   * @private
+   */
+  private distance(a: string, b: string): number {
+    let beforePrevious: number[] = []
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i]
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1
+        let distance = Math.min(
+          (previous[j] ?? 0) + 1,
+          (current[j - 1] ?? 0) + 1,
+          (previous[j - 1] ?? 0) + cost
+        )
+
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          distance = Math.min(distance, (beforePrevious[j - 2] ?? 0) + 1)
+        }
+        current.push(distance)
+      }
+
+      beforePrevious = previous
+      previous = current
+    }
+
+    return previous[b.length] ?? 0
+  }
+
+  /**
+   * Number of leading letters two words have in common
+   *
+   * @private
+   */
+  private commonPrefixLength(a: string, b: string): number {
+    let length = 0
+    while (length < a.length && a[length] === b[length]) {
+      length++
+    }
+
+    return length
+  }
+
+  /**
+   * Apply the case of a word to a lowercase suggestion
+   *
+   * @private
+   */
+  private matchCase(word: string, suggestion: string): string {
+    if (word === word.toUpperCase()) {
+      return suggestion.toUpperCase()
+    }
+
+    if (word[0] === word[0]?.toUpperCase()) {
+      return suggestion.charAt(0).toUpperCase() + suggestion.slice(1)
+    }
+
+    return suggestion
+  }
+}
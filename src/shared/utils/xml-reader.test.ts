@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest"
+import { XmlReader } from "./xml-reader"
+
+describe("XmlReader.parse", () => {
+  it("builds the element tree with lines and paths", () => {
+    const root = XmlReader.parse(
+      [
+        '<?xml version="1.0"?>',
+        '<sf:process xmlns:sf="urn:x" name="Order">',
+        "  <tempFields>",
+        '    <field name="A"/>',
+        "    <!-- <field name='Ignored'/> -->",
+        '    <field name="B"></field>',
+        "  </tempFields>",
+        "</sf:process>",
+      ].join("\n")
+    )
+
+    expect(root).toMatchObject({
+      name: "process",
+      attributes: { name: "Order" },
+      line: 2,
+      path: "/process",
+    })
+
+    const fields = XmlReader.children(root.children[0]!, "field")
+    expect(
+      fields.map(({ attributes, line, path }) => ({ attributes, line, path }))
+    ).toEqual([
+      {
+        attributes: { name: "A" },
+        line: 4,
+        path: "/process/tempFields/field[1]",
+      },
+      {
+        attributes: { name: "B" },
+        line: 6,
+        path: "/process/tempFields/field[2]",
+      },
+    ])
+  })
+
+  it("decodes entities and reads single-quoted attributes", () => {
+    const root = XmlReader.parse(
+      `<field name='A &amp; B' label="&lt;x&gt; &#65;&#x42; &unknown;"/>`
+    )
+
+    expect(root.attributes).toEqual({
+      name: "A & B",
+      label: "<x> AB &unknown;",
+    })
+  })
+
+  it("skips CDATA sections and counts their lines", () => {
+    const root = XmlReader.parse("<a>\n<![CDATA[<b>\n</c>]]>\n<d/>\n</a>")
+
+    expect(root.children.map(({ name, line }) => ({ name, line }))).toEqual([
+      { name: "d", line: 4 },
+    ])
+  })
+
+  it("reports mismatched, unclosed and extra elements", () => {
+    expect(() => XmlReader.parse("<a>\n<b></a>")).toThrow(
+      "Unexpected </a> at line 2, expected </b>"
+    )
+    expect(() => XmlReader.parse("<a>\n<b>\n</b>")).toThrow(
+      "Element <a> at line 1 is never closed"
+    )
+    expect(() => XmlReader.parse("<a/>\n<b/>")).toThrow(
+      "Second root element <b> at line 2"
+    )
+    expect(() => XmlReader.parse("</a>")).toThrow("Unexpected </a> at line 1")
+    expect(() => XmlReader.parse("just text")).toThrow("No root element found")
+  })
+})
@@ -0,0 +1,181 @@
+/**
+ * An XML element with its attributes and child elements
+ */
+export interface XmlElement {
+  /** Tag name without namespace prefix (e.g. "process" for "sf:process") */
+  name: string
+  /** Attribute values by name, entities decoded, without `xmlns` */
+  attributes: Record<string, string>
+  children: XmlElement[]
+  /** 1-based line of the start tag */
+  line: number
+  /** Path from the root (e.g. "/process/tempFields/field[2]") */
+  path: string
+}
+
+/**
+ * Markup recognized by the reader: comments, CDATA sections, processing
+ * instructions, DOCTYPE declarations, end tags and start tags
+ */
+const MARKUP_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g
+
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+}
+
+/**
+ * Minimal, DOM-free XML reader for exported IICS files
+ *
+ * Builds the element tree with attributes only; text content is skipped.
+ */
+export class XmlReader {
+  /**
+   * Parse an XML document into its root element
+   *
+   * @throws Error with the line number if tags are not properly nested
+   */
+  public static parse(xml: string): XmlElement {
+    const stack: XmlElement[] = []
+    let root: XmlElement | null = null
+    let line = 1
+    let lastIndex = 0
+
+    for (const match of xml.matchAll(MARKUP_PATTERN)) {
+      const index = match.index ?? 0
+      line += XmlReader.countLines(xml, lastIndex, index)
+
+      const [markup, endName, startName, attributes, selfClosing] = match
+      if (endName !== undefined) {
+        const open = stack.pop()
+        if (!open || open.name !== XmlReader.localName(endName)) {
+          throw new Error(
+            `Unexpected </${endName}> at line ${line}` +
+              (open ? `, expected </${open.name}>` : "")
+          )
+        }
+      } else if (startName !== undefined) {
+        const element: XmlElement = {
+          name: XmlReader.localName(startName),
+          attributes: XmlReader.parseAttributes(attributes ?? ""),
+          children: [],
+          line,
+          path: "",
+        }
+
+        const parent = stack[stack.length - 1]
+        if (parent) {
+          parent.children.push(element)
+        } else if (root) {
+          throw new Error(`Second root element <${startName}> at line ${line}`)
+        } else {
+          root = element
+        }
+
+        if (!selfClosing) {
+          stack.push(element)
+        }
+      }
+
+      line += XmlReader.countLines(markup, 0, markup.length)
+      lastIndex = index + markup.length
+    }
+
+    const unclosed = stack.pop()
+    if (unclosed) {
+      throw new Error(
+        `Element <${unclosed.name}> at line ${unclosed.line} is never closed`
+      )
+    }
+
+    if (!root) {
+      throw new Error("No root element found")
+    }
+
+    XmlReader.assignPaths(root, `/${root.name}`)
+    return root
+  }
+
+  /**
+   * Get the child elements with a name
+   */
+  public static children(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter((child) => child.name === name)
+  }
+
+  private static assignPaths(element: XmlElement, path: string): void {
+    element.path = path
+
+    const counts = new Map<string, number>()
+    for (const child of element.children) {
+      counts.set(child.name, (counts.get(child.name) ?? 0) + 1)
+    }
+
+    const positions = new Map<string, number>()
+    for (const child of element.children) {
+      const position = (positions.get(child.name) ?? 0) + 1
+      positions.set(child.name, position)
+
+      const step =
+        (counts.get(child.name) ?? 0) > 1
+          ? `${child.name}[${position}]`
+          : child.name
+      XmlReader.assignPaths(child, `${path}/${step}`)
+    }
+  }
+
+  private static parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {}
+    for (const [, name, doubleQuoted, singleQuoted] of source.matchAll(
+      ATTRIBUTE_PATTERN
+    )) {
+      if (name === undefined || name.startsWith("xmlns")) {
+        continue
+      }
+
+      attributes[name] = XmlReader.decodeEntities(
+        doubleQuoted ?? singleQuoted ?? ""
+      )
+    }
+
+    return attributes
+  }
+
+  private static decodeEntities(value: string): string {
+    return value.replace(
+      /&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi,
+      (entity, code: string) => {
+        if (code.startsWith("#x") || code.startsWith("#X")) {
+          return String.fromCodePoint(parseInt(code.slice(2), 16))
+        }
+
+        if (code.startsWith("#")) {
+          return String.fromCodePoint(parseInt(code.slice(1), 10))
+        }
+
+        return NAMED_ENTITIES[code] ?? entity
+      }
+    )
+  }
+
+  private static localName(name: string): string {
+    return name.slice(name.indexOf(":") + 1)
+  }
+
+  private static countLines(text: string, start: number, end: number): number {
+    let lines = 0
+    for (let i = start; i < end; i++) {
+      if (text.charCodeAt(i) === 10) {
+        lines++
+      }
+    }
+
+    return lines
+  }
+}
@@ -0,0 +1,138 @@
+import { vi } from "vitest"
+
+type ChangeListener = (
+  changes: Record<string, chrome.storage.StorageChange>,
+  areaName: string
+) => void
+
+type InstalledListener = (
+  details: chrome.runtime.InstalledDetails
+) => void | Promise<void>
+
+/**
+ * In-memory stand-in for a `chrome.storage` area
+ */
+export interface FakeStorageArea {
+  /** Stored items by full key */
+  items: Record<string, unknown>
+  get(keys: string | string[] | null): Promise<Record<string, unknown>>
+  set(items: Record<string, unknown>): Promise<void>
+  remove(keys: string | string[]): Promise<void>
+}
+
+/**
+ * Storage areas and listeners of the fake `chrome` global
+ */
+export interface FakeChrome {
+  sync: FakeStorageArea
+  managed: FakeStorageArea
+  /** Replaces the managed policy and notifies listeners, as an admin would */
+  setPolicy(policy: Record<string, unknown>): void
+  /** Fires `runtime.onInstalled` and waits for its listeners to finish */
+  install(details: chrome.runtime.InstalledDetails): Promise<void>
+}
+
+/**
+ * Installs a fake `chrome` global with `storage.sync`, `storage.managed`
+ * and `storage.onChanged`, so stores can run against in-memory data, and
+ * the `runtime` and `tabs` events the service worker listens to
+ *
+ * Writes notify `onChanged` listeners synchronously, like another extension
+ * context writing to the same storage.
+ *
+ * @param sync - Items already in sync storage, by full key
+ * @returns The fake storage areas
+ */
+export function installChrome(sync: Record<string, unknown> = {}): FakeChrome {
+  const listeners = new Set<ChangeListener>()
+  const installedListeners = new Set<InstalledListener>()
+
+  const notify = (
+    areaName: string,
+    changes: Record<string, chrome.storage.StorageChange>
+  ): void => {
+    for (const listener of listeners) {
+      listener(changes, areaName)
+    }
+  }
+
+  const createArea = (
+    areaName: string,
+    items: Record<string, unknown>
+  ): FakeStorageArea => {
+    const area: FakeStorageArea = {
+      items,
+      async get(keys) {
+        const wanted =
+          keys === null
+            ? Object.keys(area.items)
+            : ([] as string[]).concat(keys)
+        return structuredClone(
+          Object.fromEntries(
+            wanted
+              .filter((key) => key in area.items)
+              .map((key) => [key, area.items[key]])
+          )
+        )
+      },
+      async set(values) {
+        const changes: Record<string, chrome.storage.StorageChange> = {}
+        for (const [key, newValue] of Object.entries(values)) {
+          changes[key] = { oldValue: area.items[key], newValue }
+          area.items[key] = structuredClone(newValue)
+        }
+        notify(areaName, changes)
+      },
+      async remove(keys) {
+        const changes: Record<string, chrome.storage.StorageChange> = {}
+        for (const key of ([] as string[]).concat(keys)) {
+          changes[key] = { oldValue: area.items[key] }
+          delete area.items[key]
+        }
+        notify(areaName, changes)
+      },
+    }
+
+    return area
+  }
+
+  const fake: FakeChrome = {
+    sync: createArea("sync", sync),
+    managed: createArea("managed", {}),
+    setPolicy(policy) {
+      fake.managed.items = policy
+      notify("managed", {})
+    },
+    async install(details) {
+      for (const listener of installedListeners) {
+        await listener(details)
+      }
+    },
+  }
+
+  vi.stubGlobal("chrome", {
+    storage: {
+      sync: fake.sync,
+      managed: fake.managed,
+      onChanged: {
+        addListener: (listener: ChangeListener) => listeners.add(listener),
+        removeListener: (listener: ChangeListener) =>
+          listeners.delete(listener),
+      },
+    },
+    runtime: {
+      getManifest: () => ({ version: "2.0.0" }),
+      onInstalled: {
+        addListener: (listener: InstalledListener) =>
+          installedListeners.add(listener),
+      },
+      onMessage: { addListener: () => undefined },
+    },
+    tabs: {
+      onUpdated: { addListener: () => undefined },
+      query: async () => [],
+    },
+  })
+
+  return fake
+}
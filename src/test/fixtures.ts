@@ -0,0 +1,27 @@
+import { ValidationContext } from "@/shared/types/validation"
+
+/**
+ * Creates a builder for test fixtures that fills in defaults
+ *
+ * @param defaults - Values of the properties a test does not set
+ * @returns Function returning the defaults with the given overrides
+ */
+export function fixture<T extends object>(
+  defaults: T
+): (overrides?: Partial<T>) => T {
+  return (overrides = {}) => ({ ...defaults, ...overrides } as T)
+}
+
+/**
+ * Context of a process input field, with no label, step or data type
+ */
+export const validationContext = fixture<ValidationContext>({
+  fieldId: "ae_sf_1",
+  label: null,
+  stepType: null,
+  fieldType: "input",
+  pageType: "process",
+  category: "input",
+  dataType: null,
+  isRequired: false,
+})
@@ -0,0 +1,63 @@
+import { deflateRawSync } from "node:zlib"
+
+/**
+ * File of an archive built by `createZip`
+ */
+export interface TestEntry {
+  name: string
+  /** Text or binary contents (default: empty) */
+  data?: string | Buffer
+  /** Compression method: 0 stored, 8 deflated (default) */
+  method?: number
+  flags?: number
+  /** Uncompressed size to record instead of the real one */
+  size?: number
+}
+
+/**
+ * Builds an archive with local headers, a central directory and an end
+ * record; CRCs are left at 0 as the reader does not check them
+ */
+export function createZip(entries: TestEntry[], comment = ""): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const { name, data = "", method = 8, flags = 0, size } of entries) {
+    const nameBytes = Buffer.from(name, "utf8")
+    const raw = typeof data === "string" ? Buffer.from(data, "utf8") : data
+    const stored = method === 8 ? deflateRawSync(raw) : raw
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(flags, 6)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt32LE(stored.length, 18)
+    local.writeUInt32LE(size ?? raw.length, 22)
+    local.writeUInt16LE(nameBytes.length, 26)
+    locals.push(local, nameBytes, stored)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(flags, 8)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt32LE(stored.length, 20)
+    central.writeUInt32LE(size ?? raw.length, 24)
+    central.writeUInt16LE(nameBytes.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, nameBytes)
+
+    offset += local.length + nameBytes.length + stored.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  end.writeUInt16LE(Buffer.byteLength(comment), 20)
+
+  return Buffer.concat([...locals, directory, end, Buffer.from(comment)])
+}
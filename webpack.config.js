@@ -1,13 +1,41 @@
 import path from 'path'
 import { fileURLToPath } from 'url'
 import CopyWebpackPlugin from 'copy-webpack-plugin'
+import webpack from 'webpack'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
+const alias = {
+  '@': path.resolve(__dirname, 'src'),
+  '@/core': path.resolve(__dirname, 'src/core'),
+  '@/shared': path.resolve(__dirname, 'src/shared'),
+  '@/content': path.resolve(__dirname, 'src/content'),
+  '@/popup': path.resolve(__dirname, 'src/popup'),
+  '@/background': path.resolve(__dirname, 'src/background')
+}
+
+const tsRule = {
+  test: /\.tsx?$/,
+  use: [
+    {
+      loader: 'ts-loader',
+      options: {
+        transpileOnly: false,
+        compilerOptions: {
+          noEmit: false,
+          module: 'esnext',
+          moduleResolution: 'bundler'
+        }
+      }
+    }
+  ],
+  exclude: /node_modules/
+}
+
 export default (env, argv) => {
   const isProduction = argv.mode === 'production'
 
-  return {
+  const extension = {
     entry: {
       'background/service-worker': './src/background/service-worker.ts',
       'content/content-script': './src/content/content-script.ts',
@@ -17,40 +45,17 @@ export default (env, argv) => {
     output: {
       path: path.resolve(__dirname, "dist"),
       filename: '[name].js',
-      clean: true,
+      clean: { keep: /^cli\// },
     },
 
     resolve: {
       extensions: ['.ts', '.tsx', '.js', '.jsx'],
-      alias: {
-        '@': path.resolve(__dirname, 'src'),
-        '@/core': path.resolve(__dirname, 'src/core'),
-        '@/shared': path.resolve(__dirname, 'src/shared'),
-        '@/content': path.resolve(__dirname, 'src/content'),
-        '@/popup': path.resolve(__dirname, 'src/popup'),
-        '@/background': path.resolve(__dirname, 'src/background')
-      }
+      alias
     },
 
     module: {
       rules: [
-        {
-          test: /\.tsx?$/,
-          use: [
-            {
-              loader: 'ts-loader',
-              options: {
-                transpileOnly: false,
-                compilerOptions: {
-                  noEmit: false,
-                  module: 'esnext',
-                  moduleResolution: 'bundler'
-                }
-              }
-            }
-          ],
-          exclude: /node_modules/
-        },
+        tsRule,
         {
           test: /\.css$/i,
           use: ['style-loader', 'css-loader']
@@ -73,6 +78,10 @@ export default (env, argv) => {
             to: 'manifest.json',
             noErrorOnMissing: false
           },
+          {
+            from: 'managed-schema.json',
+            to: 'managed-schema.json'
+          },
           {
             from: 'src/popup/popup.html',
             to: 'popup/popup.html'
@@ -114,4 +123,41 @@ export default (env, argv) => {
       entrypoints: true
     }
   }
+
+  // Command-line validator for exported CAI files, run with Node
+  const cli = {
+    target: 'node',
+    entry: {
+      'iics-validate': './src/cli/iics-validate.ts'
+    },
+
+    output: {
+      path: path.resolve(__dirname, 'dist/cli'),
+      filename: '[name].cjs',
+      clean: true,
+    },
+
+    resolve: {
+      extensions: ['.ts', '.js'],
+      alias
+    },
+
+    module: {
+      rules: [tsRule]
+    },
+
+    plugins: [
+      new webpack.BannerPlugin({ banner: '#!/usr/bin/env node', raw: true })
+    ],
+
+    devtool: false,
+
+    optimization: {
+      minimize: false
+    },
+
+    stats: extension.stats
+  }
+
+  return [extension, cli]
 }
\ No newline at end of file